@@ -3,6 +3,9 @@
 import { useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
 import UnansweredTable from '@/components/UnansweredTable';
+import SOPUpload from '@/components/SOPUpload';
+import UploadedSOPsList from '@/components/UploadedSOPsList';
+import IndexJobsPanel from '@/components/IndexJobsPanel';
 import { Button } from '@/components/ui/button';
 
 export default function AdminPage() {
@@ -12,6 +15,8 @@ export default function AdminPage() {
   const [isIndexingAcronyms, setIsIndexingAcronyms] = useState(false);
   const [acronymStats, setAcronymStats] = useState<{ total: number; byCategory: Record<string, number> } | null>(null);
   const [sopStats, setSopStats] = useState<{ count: number } | null>(null);
+  const [answerCacheStats, setAnswerCacheStats] = useState<{ entries: number; hits: number } | null>(null);
+  const [isPurgingCache, setIsPurgingCache] = useState(false);
   const router = useRouter();
 
   useEffect(() => {
@@ -59,20 +64,28 @@ export default function AdminPage() {
         const data = await sopRes.json();
         setSopStats(data);
       }
+
+      // Fetch answer cache stats
+      const cacheRes = await fetch('/api/admin/answer-cache');
+      if (cacheRes.ok) {
+        const data = await cacheRes.json();
+        setAnswerCacheStats(data);
+      }
     } catch (error) {
       console.error('Failed to fetch stats:', error);
     }
   };
 
   const handleRebuildSOPIndex = async () => {
-    if (!confirm('This will rebuild the entire SOP index. Continue?')) return;
+    if (!confirm('This will re-index any new, changed or removed SOPs. Continue?')) return;
     
     setIsIndexingSOPs(true);
     try {
       const res = await fetch('/api/rebuild-index', { method: 'POST' });
       const data = await res.json();
       if (data.success) {
-        alert(`Successfully initiated SOP index rebuild. ${data.message || ''}`);
+        // Progress is tracked by the jobs panel
+        window.dispatchEvent(new Event('jobs-updated'));
         fetchStats();
       } else {
         alert(`Error: ${data.error || 'Failed to rebuild index'}`);
@@ -102,6 +115,25 @@ export default function AdminPage() {
     }
   };
 
+  const handlePurgeAnswerCache = async () => {
+    if (!confirm('This will remove all cached answers. Continue?')) return;
+
+    setIsPurgingCache(true);
+    try {
+      const res = await fetch('/api/admin/answer-cache', { method: 'DELETE' });
+      const data = await res.json();
+      if (data.success) {
+        fetchStats();
+      } else {
+        alert(`Error: ${data.error || 'Failed to purge answer cache'}`);
+      }
+    } catch {
+      alert('Failed to purge answer cache');
+    } finally {
+      setIsPurgingCache(false);
+    }
+  };
+
   if (loading) {
     return (
       <div className="min-h-screen flex items-center justify-center">
@@ -134,7 +166,7 @@ export default function AdminPage() {
       </div>
       {/* Index Management Section */}
       <div className="max-w-7xl mx-auto p-6 pb-0">
-        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
           {/* SOP Index Card */}
           <div className="border rounded-lg p-4 bg-white">
             <h3 className="font-semibold mb-2">SOP Index</h3>
@@ -147,7 +179,7 @@ export default function AdminPage() {
               variant="outline"
               className="w-full"
             >
-              {isIndexingSOPs ? 'Rebuilding...' : 'Rebuild SOP Index'}
+              {isIndexingSOPs ? 'Queueing...' : 'Rebuild SOP Index'}
             </Button>
           </div>
           
@@ -166,8 +198,34 @@ export default function AdminPage() {
               {isIndexingAcronyms ? 'Indexing...' : 'Re-index Acronyms'}
             </Button>
           </div>
+
+          {/* Answer Cache Card */}
+          <div className="border rounded-lg p-4 bg-white">
+            <h3 className="font-semibold mb-2">Answer Cache</h3>
+            <p className="text-sm text-muted-foreground mb-3">
+              {answerCacheStats
+                ? `${answerCacheStats.entries} answers cached, ${answerCacheStats.hits} hits`
+                : 'Loading...'}
+            </p>
+            <Button
+              onClick={handlePurgeAnswerCache}
+              disabled={isPurgingCache}
+              variant="outline"
+              className="w-full"
+            >
+              {isPurgingCache ? 'Purging...' : 'Purge Answer Cache'}
+            </Button>
+          </div>
         </div>
       </div>
+      {/* Uploaded Documents Section */}
+      <div className="max-w-7xl mx-auto px-6 pb-0 grid grid-cols-1 lg:grid-cols-2 gap-4">
+        <SOPUpload />
+        <UploadedSOPsList />
+      </div>
+      <div className="max-w-7xl mx-auto px-6 pt-6 pb-0">
+        <IndexJobsPanel />
+      </div>
       <div className="max-w-7xl mx-auto p-6">
         <UnansweredTable />
       </div>
@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyToken } from '@/lib/auth';
+import { getAnswerCacheStats, clearAnswerCache, invalidateAnswersForSOPs } from '@/lib/answerCache';
+
+// GET - Get answer cache statistics
+export async function GET(request: NextRequest) {
+  try {
+    const token = request.cookies.get('auth-token')?.value;
+
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const user = verifyToken(token);
+    if (!user || user.role !== 'admin') {
+      return NextResponse.json(
+        { error: 'Admin access required' },
+        { status: 403 }
+      );
+    }
+
+    const stats = await getAnswerCacheStats();
+
+    return NextResponse.json({
+      success: true,
+      ...stats,
+    });
+  } catch (error) {
+    console.error('Get answer cache stats error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to get answer cache stats' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE - Purge the answer cache, or only answers drawn from one SOP (?sopId=)
+export async function DELETE(request: NextRequest) {
+  try {
+    const token = request.cookies.get('auth-token')?.value;
+
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const user = verifyToken(token);
+    if (!user || user.role !== 'admin') {
+      return NextResponse.json(
+        { error: 'Admin access required' },
+        { status: 403 }
+      );
+    }
+
+    const sopId = request.nextUrl.searchParams.get('sopId');
+    console.log(`[ADMIN] Purging answer cache${sopId ? ` for SOP ${sopId}` : ''}...`);
+
+    const removed = sopId
+      ? await invalidateAnswersForSOPs([sopId])
+      : await clearAnswerCache();
+
+    return NextResponse.json({
+      success: true,
+      removed,
+      message: `Removed ${removed} cached answers`,
+    });
+  } catch (error) {
+    console.error('Purge answer cache error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to purge answer cache' },
+      { status: 500 }
+    );
+  }
+}
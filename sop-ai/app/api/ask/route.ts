@@ -1,10 +1,180 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { verifyToken } from '@/lib/auth';
-import { querySOPs } from '@/lib/chroma';
+import { querySOPs, querySOPsStream, type SOPQueryResult } from '@/lib/chroma';
 import { db, unansweredQuestions, recentQuestions } from '@/lib/db';
 import { validateAcronymsInResponse, expandUnexpandedAcronyms } from '@/lib/validateResponse';
-import { checkGrounding, isProperDecline } from '@/lib/groundingCheck';
-import { buildRAGContext } from '@/lib/contextBuilder';
+import { getThread, getRecentTurns, rewriteFollowUpQuestion, saveExchange, type ConversationTurn } from '@/lib/conversation';
+import { verifyClaims, type ClaimCheck } from '@/lib/groundingCheck';
+import { findCachedAnswer, cacheAnswer, type CachedAnswer } from '@/lib/answerCache';
+
+interface AskContext {
+  question: string;
+  sopId?: string;
+  userId: number;
+  threadId: number | null;
+  history: ConversationTurn[];
+  // Follow-up rewritten into a standalone question (same as question on the first turn)
+  standaloneQuestion: string;
+}
+
+// Only first turns are cached; follow-up answers depend on the conversation so far
+function usesAnswerCache(ctx: AskContext): boolean {
+  return ctx.history.length === 0;
+}
+
+/**
+ * Record a final answer in the user's history and conversation thread, and log it as
+ * unanswered if confidence is low. Returns the thread ID.
+ */
+async function recordAnswer(ctx: AskContext, result: CachedAnswer): Promise<number> {
+  const { question, userId } = ctx;
+  const { answer, confidence, sources, citations, unsupportedClaims } = result;
+
+  // Save to recent questions
+  await db.insert(recentQuestions).values({
+    question,
+    answer,
+    userId,
+    confidence: Math.round(confidence * 100),
+  });
+
+  // If confidence is low, log to unanswered questions
+  if (confidence < 0.3) {
+    await db.insert(unansweredQuestions).values({
+      question,
+      userId,
+      status: 'pending',
+    });
+  }
+
+  return saveExchange({
+    userId,
+    threadId: ctx.threadId,
+    question,
+    standaloneQuestion: ctx.standaloneQuestion,
+    answer,
+    confidence,
+    sources,
+    citations,
+    unsupportedClaims,
+  });
+}
+
+/**
+ * Post-process a raw LLM answer (acronym validation and expansion, sentence-level
+ * grounding verification), record it and add first-turn answers to the answer cache.
+ * Shared by the JSON and streaming responses.
+ */
+async function finalizeAnswer(
+  ctx: AskContext,
+  result: SOPQueryResult
+): Promise<{ answer: string; corrections: string[]; unsupportedClaims: ClaimCheck[]; threadId: number }> {
+  const { answer: rawAnswer, confidence, sources, citations, procedure = null } = result;
+
+  // Step 1: Validate acronym definitions
+  const { correctedResponse, corrections } = validateAcronymsInResponse(rawAnswer);
+  if (corrections.length > 0) {
+    console.log('[ASK] Acronym corrections:', corrections);
+  }
+
+  // Step 2: Expand any unexpanded acronyms
+  const finalAnswer = expandUnexpandedAcronyms(correctedResponse);
+
+  // Step 3: Check each sentence against the retrieved chunks; offsets refer to the final answer
+  const { unsupported: unsupportedClaims } = await verifyClaims(
+    finalAnswer,
+    (result.retrieved || []).map(doc => ({ id: doc.id, content: doc.content }))
+  );
+
+  const final: CachedAnswer = { answer: finalAnswer, confidence, sources, citations, unsupportedClaims, procedure };
+  const threadId = await recordAnswer(ctx, final);
+  if (usesAnswerCache(ctx)) {
+    await cacheAnswer(ctx.question, ctx.sopId, final);
+  }
+
+  return { answer: finalAnswer, corrections, unsupportedClaims, threadId };
+}
+
+/**
+ * Stream the answer as newline-delimited JSON frames:
+ *   { type: 'sources', sources }            - retrieved SOPs and their matching steps, sent before generation starts
+ *   { type: 'token', token }                - answer tokens as the LLM produces them
+ *   { type: 'done', answer, confidence, sources, citations, unsupportedClaims, procedure, corrections, threadId, cached }
+ *                                           - final post-processed answer; unsupportedClaims mark sentences
+ *                                             the retrieved SOPs don't back up, procedure carries the steps of
+ *                                             the SOP a "how do I" question strongly matched (or null)
+ *   { type: 'error', error }                - generation failed mid-stream
+ * Aborting the request cancels generation; cancelled answers are not saved.
+ * A cached answer is sent as its sources, a single token frame and the done frame.
+ */
+function streamAnswer(request: NextRequest, ctx: AskContext, cached: CachedAnswer | null): Response {
+  const encoder = new TextEncoder();
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      const send = (frame: object) => {
+        controller.enqueue(encoder.encode(JSON.stringify(frame) + '\n'));
+      };
+
+      try {
+        if (cached) {
+          send({ type: 'sources', sources: cached.sources });
+          send({ type: 'token', token: cached.answer });
+          const threadId = await recordAnswer(ctx, cached);
+          send({ type: 'done', ...cached, corrections: [], threadId, cached: true });
+          return;
+        }
+
+        const events = querySOPsStream(ctx.question, ctx.sopId, {
+          history: ctx.history,
+          retrievalQuery: ctx.standaloneQuestion,
+          signal: request.signal,
+        });
+
+        for await (const event of events) {
+          if (event.type !== 'done') {
+            send(event);
+            continue;
+          }
+
+          const { answer, corrections, unsupportedClaims, threadId } = await finalizeAnswer(ctx, event);
+          send({
+            type: 'done',
+            answer,
+            confidence: event.confidence,
+            sources: event.sources,
+            citations: event.citations,
+            unsupportedClaims,
+            procedure: event.procedure ?? null,
+            corrections,
+            threadId,
+            cached: false,
+          });
+        }
+      } catch (error) {
+        if (request.signal.aborted) {
+          console.log('[ASK] Stream cancelled by client');
+        } else {
+          console.error('Ask stream error:', error);
+          send({ type: 'error', error: 'Failed to generate answer' });
+        }
+      } finally {
+        try {
+          controller.close();
+        } catch {
+          // Stream already closed by a client disconnect
+        }
+      }
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'application/x-ndjson; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+    },
+  });
+}
 
 export async function POST(request: NextRequest) {
   try {
@@ -25,7 +195,7 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const { question, sopId, isPreferred } = await request.json();
+    const { question, sopId, stream, threadId } = await request.json();
 
     if (!question || typeof question !== 'string') {
       return NextResponse.json(
@@ -34,60 +204,60 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Query SOPs using RAG (Ollama + ChromaDB) with optional scope
-    const result = await querySOPs(question, sopId);
-
-    // If it's a preferred question (from suggestions/dashboard), trust the result more
-    if (isPreferred) {
-      // Boost confidence significantly, but cap at 0.99
-      // We assume suggested questions are relevant to the content
-      result.confidence = Math.max(result.confidence, 0.95);
-      console.log('[ASK] Powered by Preferred Question - Confidence Boosted');
-    }
-
-    // Step 1: Validate acronym definitions
-    const { correctedResponse, corrections } = validateAcronymsInResponse(result.answer);
-    if (corrections.length > 0) {
-      console.log('[ASK] Acronym corrections:', corrections);
+    // Resume an existing conversation thread if one was given
+    let history: ConversationTurn[] = [];
+    if (threadId != null) {
+      const thread = await getThread(Number(threadId), user.id);
+      if (!thread) {
+        return NextResponse.json(
+          { error: 'Conversation not found' },
+          { status: 404 }
+        );
+      }
+      history = await getRecentTurns(thread.id);
     }
 
-    // Step 2: Expand any unexpanded acronyms
-    const expandedResponse = expandUnexpandedAcronyms(correctedResponse);
+    const ctx: AskContext = {
+      question,
+      sopId,
+      userId: user.id,
+      threadId: threadId != null ? Number(threadId) : null,
+      history,
+      standaloneQuestion: await rewriteFollowUpQuestion(question, history),
+    };
 
-    // Step 3: Check grounding quality
-    // Get context for grounding check
-    const ragContext = await buildRAGContext(question);
-    const contextForGrounding = ragContext.sopContext.join('\n\n');
+    const cached = usesAnswerCache(ctx) ? await findCachedAnswer(question, sopId) : null;
+    if (cached) {
+      console.log('[ASK] Answer cache hit');
+    }
 
-    const groundingResult = checkGrounding(expandedResponse, contextForGrounding);
-    if (!groundingResult.isGrounded && !isProperDecline(expandedResponse)) {
-      console.log('[ASK] Grounding warnings:', groundingResult.warnings);
+    if (stream) {
+      return streamAnswer(request, ctx, cached);
     }
 
-    // Use expandedResponse as the final answer
-    const finalAnswer = expandedResponse;
+    if (cached) {
+      const cachedThreadId = await recordAnswer(ctx, cached);
+      return NextResponse.json({ ...cached, corrections: [], threadId: cachedThreadId, cached: true });
+    }
 
-    // Save to recent questions
-    await db.insert(recentQuestions).values({
-      question,
-      answer: finalAnswer,
-      userId: user.id,
-      confidence: Math.round(result.confidence * 100),
+    // Query SOPs using RAG (Ollama + ChromaDB) with optional scope
+    const result = await querySOPs(question, sopId, {
+      history,
+      retrievalQuery: ctx.standaloneQuestion,
     });
 
-    // If confidence is low, log to unanswered questions
-    if (result.confidence < 0.3) {
-      await db.insert(unansweredQuestions).values({
-        question,
-        userId: user.id,
-        status: 'pending',
-      });
-    }
+    const { answer: finalAnswer, corrections, unsupportedClaims, threadId: savedThreadId } = await finalizeAnswer(ctx, result);
 
     return NextResponse.json({
       answer: finalAnswer,
       confidence: result.confidence,
       sources: result.sources,
+      citations: result.citations,
+      unsupportedClaims,
+      procedure: result.procedure ?? null,
+      corrections,
+      threadId: savedThreadId,
+      cached: false,
     });
   } catch (error) {
     console.error('Ask error:', error);
@@ -97,4 +267,3 @@ export async function POST(request: NextRequest) {
     );
   }
 }
-
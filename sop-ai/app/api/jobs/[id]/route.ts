@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyToken } from '@/lib/auth';
+import { getJob, cancelJob } from '@/lib/jobs';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+function requireAdmin(request: NextRequest): NextResponse | null {
+  const token = request.cookies.get('auth-token')?.value;
+
+  if (!token) {
+    return NextResponse.json(
+      { error: 'Not authenticated' },
+      { status: 401 }
+    );
+  }
+
+  const user = verifyToken(token);
+  if (!user || user.role !== 'admin') {
+    return NextResponse.json(
+      { error: 'Admin access required' },
+      { status: 403 }
+    );
+  }
+
+  return null;
+}
+
+// Status and progress of a single job
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const denied = requireAdmin(request);
+    if (denied) return denied;
+
+    const { id } = await params;
+    const job = await getJob(Number(id));
+    if (!job) {
+      return NextResponse.json(
+        { error: 'Job not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ job });
+  } catch (error) {
+    console.error('Error fetching job:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Cancel a queued or running job
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const denied = requireAdmin(request);
+    if (denied) return denied;
+
+    const { id } = await params;
+    const job = await getJob(Number(id));
+    if (!job) {
+      return NextResponse.json(
+        { error: 'Job not found' },
+        { status: 404 }
+      );
+    }
+
+    const cancelled = await cancelJob(job.id);
+    if (!cancelled) {
+      return NextResponse.json(
+        { error: `Job has already ${job.status}` },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error cancelling job:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
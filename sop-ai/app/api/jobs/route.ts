@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyToken } from '@/lib/auth';
+import { listJobs } from '@/lib/jobs';
+
+// Recent background jobs, newest first (admin only)
+export async function GET(request: NextRequest) {
+  try {
+    const token = request.cookies.get('auth-token')?.value;
+
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const user = verifyToken(token);
+    if (!user || user.role !== 'admin') {
+      return NextResponse.json(
+        { error: 'Admin access required' },
+        { status: 403 }
+      );
+    }
+
+    const limit = Math.min(parseInt(request.nextUrl.searchParams.get('limit') || '20', 10) || 20, 100);
+    const jobs = await listJobs(limit);
+
+    return NextResponse.json({ jobs });
+  } catch (error) {
+    console.error('Error fetching jobs:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { verifyToken } from '@/lib/auth';
-import { rebuildIndex } from '@/lib/chroma';
+import { enqueueJob, getQueuedJob } from '@/lib/jobs';
 
 export async function POST(request: NextRequest) {
   try {
@@ -21,14 +21,18 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Run rebuild in background (don't await to avoid timeout)
-    rebuildIndex().catch((error) => {
-      console.error('Background index rebuild error:', error);
-    });
+    // Incremental by default; { full: true } re-parses uploads and re-embeds every chunk
+    const body = await request.json().catch(() => ({}));
+    const full = body?.full === true;
+
+    // A rebuild that hasn't started yet will already pick up the latest sources
+    const queued = full ? null : await getQueuedJob('rebuild-index');
+    const jobId = queued ? queued.id : await enqueueJob('rebuild-index', { full }, user.id);
 
-    return NextResponse.json({ 
-      success: true, 
-      message: 'Index rebuild initiated. This may take a few minutes. Check server logs for progress.' 
+    return NextResponse.json({
+      success: true,
+      jobId,
+      message: 'Index rebuild queued. Progress is shown on the admin dashboard.'
     });
   } catch (error) {
     console.error('Rebuild index error:', error);
@@ -38,4 +42,3 @@ export async function POST(request: NextRequest) {
     );
   }
 }
-
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { verifyToken } from '@/lib/auth';
 import { db, recentQuestions } from '@/lib/db';
 import { eq, desc } from 'drizzle-orm';
+import { deleteUserThreads } from '@/lib/conversation';
 
 export async function GET(request: NextRequest) {
   try {
@@ -63,6 +64,9 @@ export async function DELETE(request: NextRequest) {
       .delete(recentQuestions)
       .where(eq(recentQuestions.userId, user.id));
 
+    // Conversation threads are part of the chat history too
+    await deleteUserThreads(user.id);
+
     return NextResponse.json({ success: true, message: 'Chat history cleared' });
   } catch (error) {
     console.error('Clear recent questions error:', error);
@@ -0,0 +1,139 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyToken } from '@/lib/auth';
+import { listDocuments, approveDocumentReview, type OCRReviewItem } from '@/lib/documents';
+import { listExcludedSOPs, setUploadedDocumentEnabled, deleteUploadedDocument } from '@/lib/sopLifecycle';
+import { enqueueJob, getQueuedJob } from '@/lib/jobs';
+
+function requireAdmin(request: NextRequest) {
+  const token = request.cookies.get('auth-token')?.value;
+
+  if (!token) {
+    return {
+      error: NextResponse.json(
+        { error: 'Not authenticated' },
+        { status: 401 }
+      ),
+    };
+  }
+
+  const user = verifyToken(token);
+  if (!user || user.role !== 'admin') {
+    return {
+      error: NextResponse.json(
+        { error: 'Admin access required' },
+        { status: 403 }
+      ),
+    };
+  }
+
+  return { user };
+}
+
+// Uploaded documents with their ingestion status, plus disabled and deleted SOPs (admin only)
+export async function GET(request: NextRequest) {
+  try {
+    const auth = requireAdmin(request);
+    if (auth.error) return auth.error;
+
+    const [docs, excludedSOPs] = await Promise.all([listDocuments(), listExcludedSOPs()]);
+    const documents = docs.map(doc => ({
+      ...doc,
+      parsed: undefined, // cached parse output, only needed by rebuilds
+      review: doc.review ? JSON.parse(doc.review) as OCRReviewItem[] : [],
+    }));
+
+    return NextResponse.json({ documents, excludedSOPs });
+  } catch (error) {
+    console.error('Error fetching documents:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Disable ({ id, enabled: false }) or re-enable ({ id, enabled: true }) an uploaded document,
+// or approve the OCR text of one held for review ({ id, approve: true })
+export async function PATCH(request: NextRequest) {
+  try {
+    const auth = requireAdmin(request);
+    if (auth.error) return auth.error;
+
+    const { id, enabled, approve } = await request.json();
+    if (id && approve === true) {
+      const approved = await approveDocumentReview(Number(id), auth.user.id);
+      if (!approved) {
+        return NextResponse.json(
+          { error: 'Document is not awaiting review' },
+          { status: 409 }
+        );
+      }
+
+      const queued = await getQueuedJob('rebuild-index');
+      const jobId = queued ? queued.id : await enqueueJob('rebuild-index', {}, auth.user.id);
+      return NextResponse.json({ success: true, jobId });
+    }
+
+    if (!id || typeof enabled !== 'boolean') {
+      return NextResponse.json(
+        { error: 'Document id and enabled flag are required' },
+        { status: 400 }
+      );
+    }
+
+    const found = await setUploadedDocumentEnabled(Number(id), enabled);
+    if (!found) {
+      return NextResponse.json(
+        { error: 'Document not found' },
+        { status: 404 }
+      );
+    }
+
+    // Re-enabled documents are ingested by the next rebuild
+    let jobId: number | undefined;
+    if (enabled) {
+      const queued = await getQueuedJob('rebuild-index');
+      jobId = queued ? queued.id : await enqueueJob('rebuild-index', {}, auth.user.id);
+    }
+
+    return NextResponse.json({ success: true, jobId });
+  } catch (error) {
+    console.error('Error updating document:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Delete an uploaded document (?id=<documentId>), its file and everything indexed from it
+export async function DELETE(request: NextRequest) {
+  try {
+    const auth = requireAdmin(request);
+    if (auth.error) return auth.error;
+
+    const id = request.nextUrl.searchParams.get('id');
+    if (!id) {
+      return NextResponse.json(
+        { error: 'Document id is required' },
+        { status: 400 }
+      );
+    }
+
+    const found = await deleteUploadedDocument(Number(id));
+    if (!found) {
+      return NextResponse.json(
+        { error: 'Document not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting document:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import { verifyToken } from '@/lib/auth';
 import { db, indexedSOPs } from '@/lib/db';
 import { desc } from 'drizzle-orm';
+import { setSOPStatus, enableSOP } from '@/lib/sopLifecycle';
+import { enqueueJob, getQueuedJob } from '@/lib/jobs';
 
 export async function GET(request: NextRequest) {
   try {
@@ -76,3 +78,110 @@ export async function GET(request: NextRequest) {
   }
 }
 
+
+// Admin: disable ({ id, enabled: false }) or re-enable ({ id, enabled: true }) a single SOP
+export async function PATCH(request: NextRequest) {
+  try {
+    const token = request.cookies.get('auth-token')?.value;
+
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const user = verifyToken(token);
+    if (!user || user.role !== 'admin') {
+      return NextResponse.json(
+        { error: 'Admin access required' },
+        { status: 403 }
+      );
+    }
+
+    const { id, enabled } = await request.json();
+    if (!id || typeof enabled !== 'boolean') {
+      return NextResponse.json(
+        { error: 'SOP id and enabled flag are required' },
+        { status: 400 }
+      );
+    }
+
+    if (enabled) {
+      const found = await enableSOP(id);
+      if (!found) {
+        return NextResponse.json(
+          { error: 'SOP is not disabled or deleted' },
+          { status: 404 }
+        );
+      }
+      // Re-enabled and restored SOPs come back through the normal (incremental) rebuild
+      const queued = await getQueuedJob('rebuild-index');
+      const jobId = queued ? queued.id : await enqueueJob('rebuild-index', {}, user.id);
+      return NextResponse.json({ success: true, jobId });
+    }
+
+    const found = await setSOPStatus(id, 'disabled', user.id);
+    if (!found) {
+      return NextResponse.json(
+        { error: 'SOP not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error updating SOP:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Admin: delete a single SOP (?id=<sopId>) from the index; future rebuilds leave it out
+// until its content changes or an admin restores it
+export async function DELETE(request: NextRequest) {
+  try {
+    const token = request.cookies.get('auth-token')?.value;
+
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const user = verifyToken(token);
+    if (!user || user.role !== 'admin') {
+      return NextResponse.json(
+        { error: 'Admin access required' },
+        { status: 403 }
+      );
+    }
+
+    const id = request.nextUrl.searchParams.get('id');
+    if (!id) {
+      return NextResponse.json(
+        { error: 'SOP id is required' },
+        { status: 400 }
+      );
+    }
+
+    const found = await setSOPStatus(id, 'deleted', user.id);
+    if (!found) {
+      return NextResponse.json(
+        { error: 'SOP not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting SOP:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,147 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyToken } from '@/lib/auth';
+import { getSOPRun, updateSOPRunStep, setSOPRunStatus, type SOPRunStatus } from '@/lib/sopRuns';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+const RUN_STATUSES: SOPRunStatus[] = ['in_progress', 'completed', 'abandoned'];
+
+// GET /api/sops/runs/123 - a run with its step progress and audit trail (owner or admin)
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const token = request.cookies.get('auth-token')?.value;
+
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const user = verifyToken(token);
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Invalid token' },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const run = await getSOPRun(Number(id));
+    if (!run || (run.userId !== user.id && user.role !== 'admin')) {
+      return NextResponse.json(
+        { error: 'Run not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ run });
+  } catch (error) {
+    console.error('[SOP RUNS] Error fetching run:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch SOP run' },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH /api/sops/runs/123 - only the user running it can change a run
+//   { step: { order, completed?, notes?, referenceNumber? } }  - tick off or annotate a step
+//   { status: 'completed' | 'abandoned' | 'in_progress' }     - finish, abandon or reopen the run
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const token = request.cookies.get('auth-token')?.value;
+
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const user = verifyToken(token);
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Invalid token' },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const run = await getSOPRun(Number(id));
+    if (!run || (run.userId !== user.id && user.role !== 'admin')) {
+      return NextResponse.json(
+        { error: 'Run not found' },
+        { status: 404 }
+      );
+    }
+    if (run.userId !== user.id) {
+      return NextResponse.json(
+        { error: 'Only the user running this SOP can change it' },
+        { status: 403 }
+      );
+    }
+
+    const { step, status } = await request.json();
+
+    if (step !== undefined) {
+      const order = Number(step?.order);
+      const invalidText = (value: unknown) => value !== undefined && value !== null && typeof value !== 'string';
+      if (!Number.isInteger(order)
+        || (step.completed !== undefined && typeof step.completed !== 'boolean')
+        || invalidText(step.notes)
+        || invalidText(step.referenceNumber)) {
+        return NextResponse.json(
+          { error: 'Invalid step update' },
+          { status: 400 }
+        );
+      }
+      if (run.status !== 'in_progress') {
+        return NextResponse.json(
+          { error: `Run is ${run.status}; reopen it to change steps` },
+          { status: 409 }
+        );
+      }
+
+      const updated = await updateSOPRunStep(run.id, user.id, order, {
+        completed: step.completed,
+        notes: step.notes === undefined ? undefined : step.notes?.trim() || null,
+        referenceNumber: step.referenceNumber === undefined ? undefined : step.referenceNumber?.trim() || null,
+      });
+      if (!updated) {
+        return NextResponse.json(
+          { error: 'Step not found' },
+          { status: 404 }
+        );
+      }
+    }
+
+    if (status !== undefined) {
+      if (!RUN_STATUSES.includes(status)) {
+        return NextResponse.json(
+          { error: 'Invalid status' },
+          { status: 400 }
+        );
+      }
+
+      const current = (await getSOPRun(run.id))!;
+      if (status === 'completed' && current.completedSteps < current.totalSteps) {
+        return NextResponse.json(
+          { error: `${current.totalSteps - current.completedSteps} step(s) are not done yet` },
+          { status: 409 }
+        );
+      }
+      if (status !== current.status) {
+        await setSOPRunStatus(run.id, user.id, status);
+      }
+    }
+
+    return NextResponse.json({ run: await getSOPRun(run.id) });
+  } catch (error) {
+    console.error('[SOP RUNS] Error updating run:', error);
+    return NextResponse.json(
+      { error: 'Failed to update SOP run' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,117 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyToken } from '@/lib/auth';
+import { listSOPRuns, startSOPRun, type SOPRunStatus } from '@/lib/sopRuns';
+
+const RUN_STATUSES: SOPRunStatus[] = ['in_progress', 'completed', 'abandoned'];
+
+// GET /api/sops/runs?sopId=&transactionRef=&status=  - the user's runs, most recently updated first
+// Admins see everyone's runs, optionally narrowed with &userId=
+export async function GET(request: NextRequest) {
+  try {
+    const token = request.cookies.get('auth-token')?.value;
+
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const user = verifyToken(token);
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Invalid token' },
+        { status: 401 }
+      );
+    }
+
+    const params = request.nextUrl.searchParams;
+    const status = params.get('status');
+    if (status && !RUN_STATUSES.includes(status as SOPRunStatus)) {
+      return NextResponse.json(
+        { error: 'Invalid status' },
+        { status: 400 }
+      );
+    }
+
+    let userId: number | undefined = user.id;
+    if (user.role === 'admin') {
+      const userParam = params.get('userId');
+      userId = userParam ? parseInt(userParam, 10) : undefined;
+      if (userId !== undefined && isNaN(userId)) {
+        return NextResponse.json(
+          { error: 'Invalid user ID' },
+          { status: 400 }
+        );
+      }
+    }
+
+    const runs = await listSOPRuns({
+      sopId: params.get('sopId') || undefined,
+      transactionRef: params.get('transactionRef')?.trim() || undefined,
+      status: (status as SOPRunStatus) || undefined,
+      userId,
+    });
+
+    return NextResponse.json({ runs });
+  } catch (error) {
+    console.error('[SOP RUNS] Error listing runs:', error);
+    return NextResponse.json(
+      { error: 'Failed to list SOP runs' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/sops/runs { sopId, transactionRef? } - start a run, or resume the user's
+// unfinished run of the SOP for the same transaction
+export async function POST(request: NextRequest) {
+  try {
+    const token = request.cookies.get('auth-token')?.value;
+
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const user = verifyToken(token);
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Invalid token' },
+        { status: 401 }
+      );
+    }
+
+    const { sopId, transactionRef } = await request.json();
+    if (!sopId || typeof sopId !== 'string') {
+      return NextResponse.json(
+        { error: 'SOP ID is required' },
+        { status: 400 }
+      );
+    }
+    if (transactionRef != null && typeof transactionRef !== 'string') {
+      return NextResponse.json(
+        { error: 'Transaction reference must be a string' },
+        { status: 400 }
+      );
+    }
+
+    const started = await startSOPRun(sopId, user.id, transactionRef?.trim() || null);
+    if (!started) {
+      return NextResponse.json(
+        { error: 'SOP not found or has no steps' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(started, { status: started.resumed ? 200 : 201 });
+  } catch (error) {
+    console.error('[SOP RUNS] Error starting run:', error);
+    return NextResponse.json(
+      { error: 'Failed to start SOP run' },
+      { status: 500 }
+    );
+  }
+}
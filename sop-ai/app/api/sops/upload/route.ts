@@ -3,11 +3,12 @@ import { verifyToken } from '@/lib/auth';
 import { writeFile, mkdir } from 'fs/promises';
 import { existsSync } from 'fs';
 import { join } from 'path';
-import { rebuildIndex } from '@/lib/chroma';
+import { enqueueJob, getQueuedJob } from '@/lib/jobs';
+import { UPLOAD_DIR, registerDocument } from '@/lib/documents';
 
 const MAX_FILE_SIZE = 50 * 1024 * 1024; // 50MB
-const ALLOWED_EXTENSIONS = ['.xlsx', '.xls', '.docx', '.doc'];
-const UPLOAD_DIR = join(process.cwd(), 'uploads');
+// Markdown and HTML are wiki-authored SOPs; images are scanned SOP pages, read with OCR
+const ALLOWED_EXTENSIONS = ['.xlsx', '.xls', '.docx', '.doc', '.pdf', '.md', '.markdown', '.html', '.htm', '.png', '.jpg', '.jpeg', '.tif', '.tiff'];
 
 // Ensure upload directory exists
 async function ensureUploadDir() {
@@ -48,6 +49,7 @@ export async function POST(request: NextRequest) {
     }
 
     const uploadedFiles: string[] = [];
+    const documents: { id: number; fileName: string }[] = [];
     const errors: string[] = [];
 
     // Validate and save files
@@ -57,7 +59,7 @@ export async function POST(request: NextRequest) {
       const ext = fileName.substring(fileName.lastIndexOf('.')).toLowerCase();
       
       if (!ALLOWED_EXTENSIONS.includes(ext)) {
-        errors.push(`${fileName}: Invalid file type. Only Excel (.xlsx, .xls) and Word (.docx, .doc) files are allowed.`);
+        errors.push(`${fileName}: Invalid file type. Only Excel (.xlsx, .xls), Word (.docx, .doc), PDF, Markdown (.md), HTML and scanned image (.png, .jpg, .tif) files are allowed.`);
         continue;
       }
 
@@ -75,7 +77,16 @@ export async function POST(request: NextRequest) {
         const bytes = await file.arrayBuffer();
         const buffer = Buffer.from(bytes);
         await writeFile(filePath, buffer);
+        // Registered documents are parsed on every (re)index; once indexed, a re-upload
+        // of the same file replaces the earlier upload
+        const id = await registerDocument({
+          fileName,
+          storedPath: filePath,
+          fileSize: file.size,
+          uploadedBy: user.id,
+        });
         uploadedFiles.push(filePath);
+        documents.push({ id, fileName });
       } catch (error) {
         errors.push(`${fileName}: Failed to save file.`);
         console.error(`Error saving file ${fileName}:`, error);
@@ -92,26 +103,17 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Rebuild index with all files (default + template_sample + uploaded)
-    // This will include the newly uploaded files
-    try {
-      await rebuildIndex();
-      // Note: rebuildIndex processes all files including uploads directory
-    } catch (error: any) {
-      return NextResponse.json(
-        { 
-          error: 'Indexing failed',
-          details: error.message,
-          uploadedFiles: uploadedFiles.map(f => f.split('/').pop())
-        },
-        { status: 500 }
-      );
-    }
+    // Index in the background (default + template_sample + registered uploads);
+    // per-document status is recorded in the documents table, keyed by the ids returned here
+    const queued = await getQueuedJob('rebuild-index');
+    const jobId = queued ? queued.id : await enqueueJob('rebuild-index', {}, user.id);
 
     return NextResponse.json({
       success: true,
-      message: `Successfully uploaded and indexed ${uploadedFiles.length} file(s)`,
+      jobId,
+      message: `Uploaded ${uploadedFiles.length} file(s). Indexing has been queued.`,
       uploadedFiles: uploadedFiles.map(f => f.split('/').pop()),
+      documents,
       errors: errors.length > 0 ? errors : undefined,
     });
   } catch (error: any) {
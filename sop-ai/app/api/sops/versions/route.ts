@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyToken } from '@/lib/auth';
+import { listSOPVersions, getSOPVersion, diffSOPSteps } from '@/lib/sopVersions';
+
+// GET /api/sops/versions?id=SOP_ID            - version history of an SOP, newest first
+// GET /api/sops/versions?id=SOP_ID&version=3  - that version and its step diff from version 2
+export async function GET(request: NextRequest) {
+  try {
+    const token = request.cookies.get('auth-token')?.value;
+
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const user = verifyToken(token);
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Invalid token' },
+        { status: 401 }
+      );
+    }
+
+    const sopId = request.nextUrl.searchParams.get('id');
+    if (!sopId) {
+      return NextResponse.json(
+        { error: 'SOP ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const versionParam = request.nextUrl.searchParams.get('version');
+    if (!versionParam) {
+      const versions = await listSOPVersions(sopId);
+      return NextResponse.json({ versions });
+    }
+
+    const versionNumber = parseInt(versionParam, 10);
+    if (isNaN(versionNumber)) {
+      return NextResponse.json(
+        { error: 'Invalid version' },
+        { status: 400 }
+      );
+    }
+
+    const version = await getSOPVersion(sopId, versionNumber);
+    if (!version) {
+      return NextResponse.json(
+        { error: 'Version not found' },
+        { status: 404 }
+      );
+    }
+
+    // The first version is diffed against an empty SOP, so every step shows as added
+    const previous = versionNumber > 1 ? await getSOPVersion(sopId, versionNumber - 1) : null;
+    const diff = diffSOPSteps(
+      previous ?? { title: version.title, category: version.category, steps: [] },
+      version
+    );
+
+    return NextResponse.json({ version, previous, diff });
+  } catch (error) {
+    console.error('[VERSIONS] Error fetching SOP versions:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch SOP versions' },
+      { status: 500 }
+    );
+  }
+}
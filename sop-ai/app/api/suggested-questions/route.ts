@@ -1,7 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { verifyToken } from '@/lib/auth';
 import { db, indexedSOPs } from '@/lib/db';
-import { getLLMResponse } from '@/lib/chroma';
+import { getLLMResponse } from '@/lib/llm';
 
 const DEFAULT_QUESTIONS = [
   "How do I process a client refund?",
@@ -119,7 +119,7 @@ Based on these available SOPs, generate 4-6 natural, specific, and actionable qu
 Return ONLY a JSON array of question strings, nothing else. Example format:
 ["How do I process a client refund?", "What is the procedure for handling SIP orders?"]`;
 
-    const response = await getLLMResponse(prompt);
+    const response = await getLLMResponse([{ role: 'user', content: prompt }]);
 
     // Try to parse JSON from response
     let questions: string[] = [];
@@ -0,0 +1,108 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyToken } from '@/lib/auth';
+import { getThread, listThreads, getThreadMessages, deleteThread } from '@/lib/conversation';
+
+// GET /api/threads          - list the user's conversation threads, most recent first
+// GET /api/threads?id=123   - a single thread with all its messages
+export async function GET(request: NextRequest) {
+  try {
+    const token = request.cookies.get('auth-token')?.value;
+
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const user = verifyToken(token);
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Invalid token' },
+        { status: 401 }
+      );
+    }
+
+    const id = request.nextUrl.searchParams.get('id');
+
+    if (!id) {
+      const threads = await listThreads(user.id);
+      return NextResponse.json({ threads });
+    }
+
+    const threadId = parseInt(id, 10);
+    if (isNaN(threadId)) {
+      return NextResponse.json(
+        { error: 'Invalid thread ID' },
+        { status: 400 }
+      );
+    }
+
+    const thread = await getThread(threadId, user.id);
+    if (!thread) {
+      return NextResponse.json(
+        { error: 'Conversation not found' },
+        { status: 404 }
+      );
+    }
+
+    const messages = await getThreadMessages(thread.id);
+
+    return NextResponse.json({ thread, messages });
+  } catch (error) {
+    console.error('Threads error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const token = request.cookies.get('auth-token')?.value;
+
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const user = verifyToken(token);
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Invalid token' },
+        { status: 401 }
+      );
+    }
+
+    const id = request.nextUrl.searchParams.get('id');
+    const threadId = id ? parseInt(id, 10) : NaN;
+
+    if (isNaN(threadId)) {
+      return NextResponse.json(
+        { error: 'Thread ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const thread = await getThread(threadId, user.id);
+    if (!thread) {
+      return NextResponse.json(
+        { error: 'Conversation not found' },
+        { status: 404 }
+      );
+    }
+
+    await deleteThread(thread.id);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Delete thread error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -12,6 +12,7 @@ export default function Home() {
   const [user, setUser] = useState<any>(null);
   const [loading, setLoading] = useState(true);
   const [selectedSOPId, setSelectedSOPId] = useState<string | null>(null);
+  const [highlightSteps, setHighlightSteps] = useState<number[]>([]);
   const router = useRouter();
 
   useEffect(() => {
@@ -22,10 +23,25 @@ export default function Home() {
       const detail = (e as CustomEvent).detail;
       if (detail.sopId) {
         setSelectedSOPId(detail.sopId);
+        setHighlightSteps([]);
       }
     };
+
+    // Listen for source links from chat answers (open the SOP at the cited steps)
+    const handleOpenSOP = (e: Event) => {
+      const detail = (e as CustomEvent).detail;
+      if (detail.sopId) {
+        setSelectedSOPId(detail.sopId);
+        setHighlightSteps(detail.steps || []);
+      }
+    };
+
     window.addEventListener('trigger-question', handleTrigger);
-    return () => window.removeEventListener('trigger-question', handleTrigger);
+    window.addEventListener('open-sop', handleOpenSOP);
+    return () => {
+      window.removeEventListener('trigger-question', handleTrigger);
+      window.removeEventListener('open-sop', handleOpenSOP);
+    };
   }, []);
 
   const checkAuth = async () => {
@@ -121,12 +137,15 @@ export default function Home() {
                 variant="ghost"
                 size="icon"
                 className="absolute top-2 right-4 z-10 hover:bg-muted"
-                onClick={() => setSelectedSOPId(null)}
+                onClick={() => {
+                  setSelectedSOPId(null);
+                  setHighlightSteps([]);
+                }}
                 title="Close Reader"
               >
                 <X className="h-4 w-4" />
               </Button>
-              <SOPReader sopId={selectedSOPId} />
+              <SOPReader sopId={selectedSOPId} highlightSteps={highlightSteps} />
             </div>
           ) : (
             <div className="text-center p-10 max-w-lg hidden md:block opacity-50">
@@ -4,18 +4,77 @@ import { useState, useEffect, useRef } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card } from '@/components/ui/card';
-import { Loader2, Send, Copy, Check, Sparkles, AlertCircle, Trash2 } from 'lucide-react';
+import { Loader2, Send, Copy, Check, Sparkles, AlertCircle, Trash2, Square, MessageSquarePlus, MessagesSquare } from 'lucide-react';
 import PredefinedQuestionsDropdown from './PredefinedQuestionsDropdown';
 import { DiscoveryDashboard } from './DiscoveryDashboard';
+import ProcedureChecklist, { type SOPProcedure } from './ProcedureChecklist';
 
 interface Message {
   id: string;
   type: 'user' | 'assistant';
   content: string;
   confidence?: number;
+  sources?: Source[];
+  citations?: Citation[];
+  unsupportedClaims?: UnsupportedClaim[];
+  // Structured steps for "how do I" answers, shown as a checklist instead of the prose
+  procedure?: SOPProcedure | null;
+  streaming?: boolean;
+  cancelled?: boolean;
   timestamp: Date;
 }
 
+// An SOP the answer was drawn from and the steps of it that matched
+interface Source {
+  sopId: string;
+  title: string;
+  steps: number[];
+  // SOP version the answer was generated from
+  version?: number;
+}
+
+// An inline [n] marker in an answer and the SOP step it points at
+interface Citation {
+  marker: number;
+  sopId: string | null;
+  title: string | null;
+  steps: number[];
+  pages?: number[];
+  version?: number;
+  // False when the marker doesn't match anything that was retrieved
+  valid: boolean;
+}
+
+// An answer sentence the retrieved SOPs don't back up, by character offsets
+interface UnsupportedClaim {
+  start: number;
+  end: number;
+  text: string;
+}
+
+// Same markers the server resolves: [1], [2, 3], [2; 3]
+const CITATION_PATTERN = /\[(\d+(?:\s*[,;]\s*\d+)*)\]/g;
+
+interface Thread {
+  id: number;
+  title: string;
+  updatedAt: Date;
+}
+
+interface ThreadMessage {
+  id: number;
+  role: 'user' | 'assistant';
+  content: string;
+  confidence: number | null;
+  sources: Source[];
+  citations: Citation[];
+  unsupportedClaims: UnsupportedClaim[];
+  createdAt: string;
+}
+
+// Remembers the open conversation so a page reload resumes it
+const THREAD_STORAGE_KEY = 'sop-chat-thread-id';
+
 interface Question {
   id: number;
   question: string;
@@ -47,14 +106,27 @@ export default function ChatBox({ activeSopId }: ChatBoxProps) {
   const [showAiSuggestions, setShowAiSuggestions] = useState(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLInputElement>(null);
-  // Track if the current question came from a suggestion/preferred source
-  const isPreferredRef = useRef(false);
   const [copiedId, setCopiedId] = useState<string | null>(null);
   const [clearingHistory, setClearingHistory] = useState(false);
+  // Active answer stream: lets the user cancel mid-generation
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const [streamingId, setStreamingId] = useState<string | null>(null);
+  // Server-side conversation thread for follow-up questions
+  const [threadId, setThreadId] = useState<number | null>(null);
+  const [threads, setThreads] = useState<Thread[]>([]);
+  // Checklist answers whose written answer the user expanded
+  const [proseShown, setProseShown] = useState<Set<string>>(new Set());
 
   useEffect(() => {
     loadRecentQuestions();
     loadSuggestedQuestions();
+    loadThreads();
+
+    const storedThreadId = localStorage.getItem(THREAD_STORAGE_KEY);
+    if (storedThreadId) {
+      loadThread(parseInt(storedThreadId, 10));
+    }
+
     inputRef.current?.focus();
   }, []);
 
@@ -101,6 +173,53 @@ export default function ChatBox({ activeSopId }: ChatBoxProps) {
     }
   };
 
+  const loadThreads = async () => {
+    try {
+      const res = await fetch('/api/threads');
+      if (res.ok) {
+        const data = await res.json();
+        setThreads(data.threads || []);
+      }
+    } catch (error) {
+      console.error('Failed to load conversations:', error);
+    }
+  };
+
+  const loadThread = async (id: number) => {
+    try {
+      const res = await fetch(`/api/threads?id=${id}`);
+      if (!res.ok) {
+        // Thread was deleted or belongs to another user
+        localStorage.removeItem(THREAD_STORAGE_KEY);
+        return;
+      }
+      const data = await res.json();
+      const threadMessages: Message[] = (data.messages as ThreadMessage[]).map((m) => ({
+        id: `thread-${m.id}`,
+        type: m.role,
+        content: m.content,
+        confidence: m.confidence !== null ? m.confidence / 100 : undefined,
+        sources: m.sources,
+        citations: m.citations,
+        unsupportedClaims: m.unsupportedClaims,
+        timestamp: new Date(m.createdAt),
+      }));
+      setMessages(threadMessages);
+      setThreadId(id);
+      localStorage.setItem(THREAD_STORAGE_KEY, String(id));
+    } catch (error) {
+      console.error('Failed to load conversation:', error);
+    }
+  };
+
+  const startNewConversation = () => {
+    if (loading) return;
+    setThreadId(null);
+    setMessages([]);
+    localStorage.removeItem(THREAD_STORAGE_KEY);
+    inputRef.current?.focus();
+  };
+
   const handleClearHistory = async () => {
     if (!confirm('Are you sure you want to clear your chat history? This action cannot be undone.')) {
       return;
@@ -115,6 +234,9 @@ export default function ChatBox({ activeSopId }: ChatBoxProps) {
       if (res.ok) {
         setRecentQuestions([]);
         setMessages([]);
+        setThreads([]);
+        setThreadId(null);
+        localStorage.removeItem(THREAD_STORAGE_KEY);
         alert('Chat history cleared successfully.');
       } else {
         const errorData = await res.json();
@@ -191,18 +313,13 @@ export default function ChatBox({ activeSopId }: ChatBoxProps) {
 
   // ... (keep useEffects)
 
-  const handleSubmit = async (e?: React.FormEvent, overrideQuestion?: string, isPreferredOverride?: boolean) => {
+  const handleSubmit = async (e?: React.FormEvent, overrideQuestion?: string) => {
     e?.preventDefault();
 
     // Determine the question to ask
     const questionToAsk = overrideQuestion || question;
     console.log('[ChatBox] handleSubmit called. Question:', questionToAsk, 'Override:', overrideQuestion, 'Loading:', loading);
 
-    const isPreferred = isPreferredOverride || isPreferredRef.current;
-
-    // Reset preferred flag for next time
-    isPreferredRef.current = false;
-
     if (!questionToAsk.trim() || loading) return;
 
     const userQuestion = questionToAsk.trim();
@@ -220,6 +337,15 @@ export default function ChatBox({ activeSopId }: ChatBoxProps) {
     setLoading(true);
     console.log('[ChatBox] Messages state updated. Sending fetch request...');
 
+    // Placeholder assistant message that fills in as tokens stream in
+    const assistantId = (Date.now() + 1).toString();
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
+    const updateAssistant = (patch: Partial<Message>) => {
+      setMessages((prev) => prev.map((m) => (m.id === assistantId ? { ...m, ...patch } : m)));
+    };
+
     try {
       const res = await fetch('/api/ask', {
         method: 'POST',
@@ -227,52 +353,111 @@ export default function ChatBox({ activeSopId }: ChatBoxProps) {
         body: JSON.stringify({
           question: userQuestion,
           sopId: activeSopId,
-          isPreferred: isPreferred
+          stream: true,
+          threadId,
         }),
+        signal: controller.signal,
       });
 
       console.log('[ChatBox] Fetch response received. Status:', res.status);
 
-      if (!res.ok) {
+      if (!res.ok || !res.body) {
         throw new Error(`Failed to get answer: ${res.status} ${res.statusText}`);
       }
 
-      const data = await res.json();
-      console.log('[ChatBox] API Data received:', data);
+      setMessages((prev) => [
+        ...prev,
+        { id: assistantId, type: 'assistant', content: '', streaming: true, timestamp: new Date() },
+      ]);
+      setStreamingId(assistantId);
+
+      // Read newline-delimited JSON frames: sources, token*, done
+      const reader = res.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+      let partial = '';
+      let finished = false;
+
+      while (!finished) {
+        const { value, done } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+
+        for (const line of lines) {
+          if (!line.trim()) continue;
+          const frame = JSON.parse(line);
+
+          if (frame.type === 'sources') {
+            updateAssistant({ sources: frame.sources });
+          } else if (frame.type === 'token') {
+            partial += frame.token;
+            updateAssistant({ content: partial });
+          } else if (frame.type === 'done') {
+            console.log('[ChatBox] Stream complete:', frame);
+            updateAssistant({
+              content: frame.answer || "I'm sorry, I received an empty response from the server.",
+              confidence: frame.confidence,
+              sources: frame.sources,
+              citations: frame.citations,
+              unsupportedClaims: frame.unsupportedClaims,
+              procedure: frame.procedure,
+              streaming: false,
+            });
+            if (frame.threadId) {
+              setThreadId(frame.threadId);
+              localStorage.setItem(THREAD_STORAGE_KEY, String(frame.threadId));
+            }
+            finished = true;
+          } else if (frame.type === 'error') {
+            throw new Error(frame.error);
+          }
+        }
+      }
 
-      if (!data.answer) {
-        console.warn('[ChatBox] Warning: Answer is empty/undefined');
-        // Fallback if answer is missing but successful
-        data.answer = "I'm sorry, I received an empty response from the server.";
+      if (!finished) {
+        throw new Error('Answer stream ended unexpectedly');
       }
 
-      // Add assistant message
-      const assistantMessage: Message = {
-        id: (Date.now() + 1).toString(),
-        type: 'assistant',
-        content: data.answer,
-        confidence: data.confidence,
-        timestamp: new Date(),
-      };
-      setMessages((prev) => [...prev, assistantMessage]);
       loadRecentQuestions();
+      loadThreads();
     } catch (error) {
-      console.error('Error asking question:', error);
-      const errorMessage: Message = {
-        id: (Date.now() + 1).toString(),
-        type: 'assistant',
-        content: 'Sorry, I encountered an error while processing your question. Please try again.',
-        timestamp: new Date(),
-      };
-      setMessages((prev) => [...prev, errorMessage]);
+      if (controller.signal.aborted) {
+        // User cancelled: keep whatever was generated so far
+        setMessages((prev) => {
+          const exists = prev.some((m) => m.id === assistantId);
+          if (!exists) {
+            return [...prev, { id: assistantId, type: 'assistant', content: '', cancelled: true, timestamp: new Date() }];
+          }
+          return prev.map((m) => (m.id === assistantId ? { ...m, streaming: false, cancelled: true } : m));
+        });
+      } else {
+        console.error('Error asking question:', error);
+        const errorContent = 'Sorry, I encountered an error while processing your question. Please try again.';
+        setMessages((prev) => {
+          const exists = prev.some((m) => m.id === assistantId);
+          if (!exists) {
+            return [...prev, { id: assistantId, type: 'assistant', content: errorContent, timestamp: new Date() }];
+          }
+          return prev.map((m) => (m.id === assistantId ? { ...m, content: errorContent, streaming: false } : m));
+        });
+      }
     } finally {
+      abortControllerRef.current = null;
+      setStreamingId(null);
       setLoading(false);
     }
   };
 
+  const handleCancel = () => {
+    abortControllerRef.current?.abort();
+  };
+
   const handleSuggestedQuestion = (suggestedQ: string) => {
-    // Auto-submit suggested questions with preferred flag
-    handleSubmit(undefined, suggestedQ, true);
+    // Auto-submit suggested questions
+    handleSubmit(undefined, suggestedQ);
   };
 
   const handleRecentQuestion = (recentQ: Question) => {
@@ -281,9 +466,9 @@ export default function ChatBox({ activeSopId }: ChatBoxProps) {
   };
 
   const handleKeywordClick = (keyword: string) => {
-    // Discovery items are also preferred questions (SOP titles)
+    // Discovery items are SOP titles
     const q = `Tell me about ${keyword}`;
-    handleSubmit(undefined, q, true);
+    handleSubmit(undefined, q);
   };
 
   const copyToClipboard = async (text: string, id: string) => {
@@ -296,6 +481,115 @@ export default function ChatBox({ activeSopId }: ChatBoxProps) {
     }
   };
 
+  const openSource = (source: Source) => {
+    window.dispatchEvent(new CustomEvent('open-sop', {
+      detail: { sopId: source.sopId, steps: source.steps }
+    }));
+  };
+
+  const openProcedure = (procedure: SOPProcedure) => {
+    window.dispatchEvent(new CustomEvent('open-sop', {
+      detail: { sopId: procedure.sopId, steps: [] }
+    }));
+  };
+
+  const toggleProse = (id: string) => {
+    setProseShown((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const openCitation = (citation: Citation) => {
+    if (!citation.valid || !citation.sopId) return;
+    window.dispatchEvent(new CustomEvent('open-sop', {
+      detail: { sopId: citation.sopId, steps: citation.steps }
+    }));
+  };
+
+  // Text with its [n] markers turned into chips that open the cited step
+  const renderCitations = (text: string, citations: Citation[], keyPrefix: string) => {
+    if (citations.length === 0) return [text];
+
+    const byMarker = new Map(citations.map((c) => [c.marker, c]));
+    const parts: React.ReactNode[] = [];
+    let last = 0;
+
+    for (const match of text.matchAll(CITATION_PATTERN)) {
+      const index = match.index ?? 0;
+      parts.push(text.slice(last, index));
+      match[1].split(/[,;]/).forEach((value) => {
+        const marker = parseInt(value.trim(), 10);
+        const citation = byMarker.get(marker);
+        parts.push(
+          <button
+            key={`${keyPrefix}-${index}-${marker}`}
+            type="button"
+            onClick={() => citation && openCitation(citation)}
+            disabled={!citation?.valid}
+            className={`inline-flex items-center mx-0.5 px-1.5 rounded text-[10px] font-semibold align-super leading-4 transition-colors ${citation?.valid
+              ? 'bg-primary/10 text-primary hover:bg-primary/20'
+              : 'bg-red-100 text-red-700 cursor-not-allowed'
+              }`}
+            title={citation?.valid
+              ? `${citation.title}${citation.version !== undefined ? ` v${citation.version}` : ''}${citation.steps.length > 0 ? ` · ${formatSteps(citation.steps)}` : ''}${citation.pages?.length ? ` · p. ${citation.pages.join(', ')}` : ''}`
+              : 'This citation does not match any retrieved SOP step'}
+          >
+            {marker}
+          </button>
+        );
+      });
+      last = index + match[0].length;
+    }
+    parts.push(text.slice(last));
+    return parts;
+  };
+
+  // Answer text with citation chips, and sentences the SOPs don't back up underlined
+  const renderContent = (message: Message) => {
+    const citations = message.citations || [];
+    const claims = [...(message.unsupportedClaims || [])].sort((a, b) => a.start - b.start);
+    if (citations.length === 0 && claims.length === 0) return message.content;
+
+    const parts: React.ReactNode[] = [];
+    let last = 0;
+    claims.forEach((claim, i) => {
+      if (claim.start < last || claim.end > message.content.length) return;
+      parts.push(...renderCitations(message.content.slice(last, claim.start), citations, `text-${i}`));
+      parts.push(
+        <span
+          key={`claim-${i}`}
+          className="underline decoration-amber-500 decoration-wavy underline-offset-2 bg-amber-50"
+          title="Not found in the retrieved SOP text; verify before relying on it"
+        >
+          {renderCitations(message.content.slice(claim.start, claim.end), citations, `claim-${i}`)}
+        </span>
+      );
+      last = claim.end;
+    });
+    parts.push(...renderCitations(message.content.slice(last), citations, 'text-end'));
+    return parts;
+  };
+
+  // [2, 3, 4, 7] -> "Steps 2-4, 7"
+  const formatSteps = (steps: number[]) => {
+    const ranges: string[] = [];
+    let start = steps[0];
+    for (let i = 1; i <= steps.length; i++) {
+      if (steps[i] !== steps[i - 1] + 1) {
+        const end = steps[i - 1];
+        ranges.push(start === end ? `${start}` : `${start}-${end}`);
+        start = steps[i];
+      }
+    }
+    return `${steps.length === 1 ? 'Step' : 'Steps'} ${ranges.join(', ')}`;
+  };
+
   const formatConfidence = (confidence: number) => {
     const percentage = Math.round(confidence * 100);
     if (percentage >= 70) return { text: `${percentage}%`, color: 'text-green-600', bg: 'bg-green-50' };
@@ -312,6 +606,18 @@ export default function ChatBox({ activeSopId }: ChatBoxProps) {
           <h1 className="text-3xl font-bold">SOP Assistant</h1>
         </div>
         <p className="text-muted-foreground text-sm">Ask questions about your company's Standard Operating Procedures</p>
+        {messages.length > 0 && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={startNewConversation}
+            disabled={loading}
+            className="text-xs mt-2"
+          >
+            <MessageSquarePlus className="h-3 w-3 mr-1" />
+            New conversation
+          </Button>
+        )}
       </div>
 
       {/* Chat Messages Area */}
@@ -397,6 +703,30 @@ export default function ChatBox({ activeSopId }: ChatBoxProps) {
               <DiscoveryDashboard onSelectTopic={handleKeywordClick} />
             </div>
 
+            {/* Recent Conversations */}
+            {threads.length > 0 && (
+              <div className="w-full max-w-2xl space-y-3 mt-8 px-2">
+                <p className="text-sm font-medium text-muted-foreground text-left">Continue a conversation:</p>
+                <div className="space-y-2">
+                  {threads.slice(0, 3).map((t) => (
+                    <Card
+                      key={t.id}
+                      className="p-3 hover:bg-accent cursor-pointer transition-colors break-words"
+                      onClick={() => loadThread(t.id)}
+                    >
+                      <div className="flex items-center gap-2">
+                        <MessagesSquare className="h-4 w-4 text-muted-foreground flex-shrink-0" />
+                        <p className="text-sm font-medium break-words text-left flex-1">{t.title}</p>
+                        <span className="text-xs text-muted-foreground flex-shrink-0">
+                          {new Date(t.updatedAt).toLocaleDateString()}
+                        </span>
+                      </div>
+                    </Card>
+                  ))}
+                </div>
+              </div>
+            )}
+
             {/* Recent Questions */}
             {recentQuestions.length > 0 && (
               <div className="w-full max-w-2xl space-y-3 mt-8 px-2">
@@ -466,8 +796,65 @@ export default function ChatBox({ activeSopId }: ChatBoxProps) {
                   )}
                 </div>
               )}
-              <p className="text-sm whitespace-pre-wrap break-words">{message.content}</p>
-              {message.type === 'assistant' && (
+              {message.procedure && !message.streaming ? (
+                <div className="space-y-2">
+                  <ProcedureChecklist procedure={message.procedure} onOpen={openProcedure} />
+                  <button
+                    type="button"
+                    onClick={() => toggleProse(message.id)}
+                    className="text-xs text-muted-foreground hover:text-foreground transition-colors"
+                  >
+                    {proseShown.has(message.id) ? 'Hide written answer' : 'Show written answer'}
+                  </button>
+                  {proseShown.has(message.id) && (
+                    <p className="text-sm whitespace-pre-wrap break-words">{renderContent(message)}</p>
+                  )}
+                </div>
+              ) : (
+                <p className="text-sm whitespace-pre-wrap break-words">
+                  {renderContent(message)}
+                  {message.streaming && message.content && (
+                    <span className="inline-block w-1.5 h-4 ml-0.5 align-text-bottom bg-primary/60 animate-pulse" />
+                  )}
+                </p>
+              )}
+              {message.type === 'assistant' && !message.streaming && message.sources && message.sources.length > 0 && (
+                <div className="flex flex-wrap gap-1.5 mt-2">
+                  {message.sources.map((source) => (
+                    <button
+                      key={source.sopId}
+                      type="button"
+                      onClick={() => openSource(source)}
+                      className="text-xs px-2 py-0.5 rounded-full border border-border bg-background hover:bg-primary/10 hover:border-primary/40 transition-colors text-left"
+                      title="Open this SOP at the matching steps"
+                    >
+                      {source.title}
+                      {source.version !== undefined && (
+                        <span className="text-muted-foreground"> v{source.version}</span>
+                      )}
+                      {source.steps.length > 0 && (
+                        <span className="text-muted-foreground"> · {formatSteps(source.steps)}</span>
+                      )}
+                    </button>
+                  ))}
+                </div>
+              )}
+              {!message.streaming && message.citations?.some((c) => !c.valid) && (
+                <p className="flex items-center gap-1 text-xs text-red-600 mt-2">
+                  <AlertCircle className="h-3 w-3 flex-shrink-0" />
+                  Citation {message.citations.filter((c) => !c.valid).map((c) => `[${c.marker}]`).join(', ')} does not match the retrieved SOPs; verify this part of the answer.
+                </p>
+              )}
+              {!message.streaming && message.unsupportedClaims && message.unsupportedClaims.length > 0 && (
+                <p className="flex items-center gap-1 text-xs text-amber-700 mt-2">
+                  <AlertCircle className="h-3 w-3 flex-shrink-0" />
+                  {message.unsupportedClaims.length === 1 ? '1 underlined sentence is' : `${message.unsupportedClaims.length} underlined sentences are`} not supported by the retrieved SOPs.
+                </p>
+              )}
+              {message.cancelled && (
+                <p className="text-xs text-muted-foreground italic mt-1">Generation stopped.</p>
+              )}
+              {message.type === 'assistant' && !message.streaming && (
                 <div className="flex items-center justify-between mt-2 pt-2 border-t border-border/50">
                   <span className="text-xs text-muted-foreground">
                     {message.timestamp.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
@@ -504,8 +891,8 @@ export default function ChatBox({ activeSopId }: ChatBoxProps) {
           </div>
         ))}
 
-        {/* Loading Indicator */}
-        {loading && (
+        {/* Loading Indicator (until the first answer token arrives) */}
+        {loading && !messages.some((m) => m.id === streamingId && m.content) && (
           <div className="flex justify-start">
             <div className="bg-muted rounded-lg px-4 py-3 flex items-center gap-2">
               <Loader2 className="h-4 w-4 animate-spin text-primary" />
@@ -537,18 +924,27 @@ export default function ChatBox({ activeSopId }: ChatBoxProps) {
               }
             }}
           />
-          <Button
-            type="submit"
-            disabled={loading || !question.trim()}
-            size="icon"
-            className="shrink-0"
-          >
-            {loading ? (
-              <Loader2 className="h-4 w-4 animate-spin" />
-            ) : (
+          {loading ? (
+            <Button
+              type="button"
+              variant="outline"
+              size="icon"
+              className="shrink-0"
+              onClick={handleCancel}
+              title="Stop generating"
+            >
+              <Square className="h-4 w-4" />
+            </Button>
+          ) : (
+            <Button
+              type="submit"
+              disabled={!question.trim()}
+              size="icon"
+              className="shrink-0"
+            >
               <Send className="h-4 w-4" />
-            )}
-          </Button>
+            </Button>
+          )}
         </form>
         <p className="text-xs text-muted-foreground mt-2 text-center">
           Press Enter to send • Shift+Enter for new line
@@ -0,0 +1,194 @@
+'use client';
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { RefreshCw, XCircle, AlertCircle } from 'lucide-react';
+
+interface Job {
+  id: number;
+  type: string;
+  status: 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+  stage: string | null;
+  processed: number;
+  total: number;
+  error: string | null;
+  createdAt: string;
+  startedAt: string | null;
+  finishedAt: string | null;
+}
+
+const POLL_INTERVAL_MS = 1500;
+
+const STATUS_STYLES: Record<Job['status'], string> = {
+  queued: 'bg-gray-100 text-gray-700',
+  running: 'bg-blue-100 text-blue-800',
+  completed: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800',
+  cancelled: 'bg-amber-100 text-amber-800',
+};
+
+export default function IndexJobsPanel() {
+  const [jobs, setJobs] = useState<Job[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadJobs = useCallback(async () => {
+    try {
+      const res = await fetch('/api/jobs?limit=10');
+      if (res.ok) {
+        const data = await res.json();
+        setJobs(data.jobs || []);
+        setError(null);
+      } else {
+        const errorData = await res.json().catch(() => ({ error: 'Unknown error' }));
+        setError(errorData.error || `Failed to load jobs (${res.status})`);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Error loading jobs');
+    }
+  }, []);
+
+  const hasActiveJob = jobs.some((job) => job.status === 'queued' || job.status === 'running');
+
+  useEffect(() => {
+    loadJobs();
+
+    // Jobs started elsewhere on the page (rebuild button, uploads)
+    const handleJobsUpdate = () => {
+      loadJobs();
+    };
+
+    window.addEventListener('jobs-updated', handleJobsUpdate);
+    return () => {
+      window.removeEventListener('jobs-updated', handleJobsUpdate);
+    };
+  }, [loadJobs]);
+
+  // Poll only while something is queued or running
+  useEffect(() => {
+    if (!hasActiveJob) return;
+    const interval = setInterval(loadJobs, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [hasActiveJob, loadJobs]);
+
+  // Once the last active job finishes, let the SOP lists refresh
+  const wasActiveRef = useRef(false);
+  useEffect(() => {
+    if (wasActiveRef.current && !hasActiveJob) {
+      window.dispatchEvent(new Event('sops-updated'));
+    }
+    wasActiveRef.current = hasActiveJob;
+  }, [hasActiveJob]);
+
+  const handleCancel = async (jobId: number) => {
+    try {
+      const res = await fetch(`/api/jobs/${jobId}`, { method: 'DELETE' });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        alert(data.error || 'Failed to cancel job');
+      }
+    } finally {
+      loadJobs();
+    }
+  };
+
+  const formatDate = (date: string | null) => {
+    if (!date) return '-';
+    return new Date(date).toLocaleString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+  };
+
+  const formatDuration = (job: Job) => {
+    if (!job.startedAt || !job.finishedAt) return '';
+    const seconds = Math.round((new Date(job.finishedAt).getTime() - new Date(job.startedAt).getTime()) / 1000);
+    return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+  };
+
+  const activeJob = jobs.find((job) => job.status === 'running') || jobs.find((job) => job.status === 'queued');
+  const percent = activeJob && activeJob.total > 0
+    ? Math.round((activeJob.processed / activeJob.total) * 100)
+    : 0;
+
+  return (
+    <Card className="p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-semibold">Indexing Jobs</h2>
+        <Button variant="outline" size="sm" onClick={loadJobs}>
+          <RefreshCw className="h-4 w-4 mr-2" />
+          Refresh
+        </Button>
+      </div>
+
+      {error && <p className="text-sm text-red-600 mb-4">{error}</p>}
+
+      {/* Live progress for the current job */}
+      {activeJob && (
+        <div className="mb-6 p-4 rounded-lg border border-blue-200 bg-blue-50/50">
+          <div className="flex items-center justify-between mb-2">
+            <p className="text-sm font-medium">
+              Job #{activeJob.id}: {activeJob.stage || 'Starting'}
+              {activeJob.total > 0 && (
+                <span className="text-muted-foreground font-normal"> ({activeJob.processed}/{activeJob.total})</span>
+              )}
+            </p>
+            <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={() => handleCancel(activeJob.id)}>
+              <XCircle className="h-3 w-3 mr-1" />
+              Cancel
+            </Button>
+          </div>
+          <div className="h-2 w-full rounded-full bg-blue-100 overflow-hidden">
+            <div
+              className={`h-full bg-blue-500 transition-all duration-500 ${activeJob.total === 0 ? 'animate-pulse w-full opacity-40' : ''}`}
+              style={activeJob.total > 0 ? { width: `${percent}%` } : undefined}
+            />
+          </div>
+        </div>
+      )}
+
+      {/* History */}
+      {jobs.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No indexing jobs yet.</p>
+      ) : (
+        <div className="space-y-2">
+          {jobs.map((job) => (
+            <div key={job.id} className="p-3 bg-gray-50 rounded-lg border border-gray-200">
+              <div className="flex items-center justify-between gap-2">
+                <p className="text-sm font-medium">
+                  #{job.id} {job.type}
+                </p>
+                <span className={`px-2 py-0.5 text-xs rounded capitalize ${STATUS_STYLES[job.status] || STATUS_STYLES.queued}`}>
+                  {job.status}
+                </span>
+              </div>
+              <div className="mt-1 flex items-center gap-4 text-xs text-muted-foreground">
+                <span>Queued: {formatDate(job.createdAt)}</span>
+                {job.finishedAt && (
+                  <>
+                    <span>•</span>
+                    <span>Took {formatDuration(job)}</span>
+                  </>
+                )}
+                {job.total > 0 && (
+                  <>
+                    <span>•</span>
+                    <span>{job.processed}/{job.total} chunks embedded</span>
+                  </>
+                )}
+              </div>
+              {job.status === 'failed' && job.error && (
+                <div className="mt-1 flex items-start gap-1 text-xs text-red-600">
+                  <AlertCircle className="h-3 w-3 mt-0.5 flex-shrink-0" />
+                  <span>{job.error}</span>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,110 @@
+'use client';
+
+import { useState } from 'react';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+
+interface SOPStep {
+  order: number;
+  task: string;
+  role: string;
+  tools: string;
+  template: string;
+}
+
+// Steps of the SOP a "how do I" question matched, as returned by /api/ask
+export interface SOPProcedure {
+  sopId: string;
+  title: string;
+  category: string;
+  sourceFile: string;
+  version?: number;
+  steps: SOPStep[];
+}
+
+interface ProcedureChecklistProps {
+  procedure: SOPProcedure;
+  onOpen?: (procedure: SOPProcedure) => void;
+}
+
+/**
+ * An SOP's steps as a checklist table: tick steps off as they're done, with who does
+ * each one and the tools and templates it needs. Ticks are kept only for this answer.
+ */
+export default function ProcedureChecklist({ procedure, onOpen }: ProcedureChecklistProps) {
+  const [done, setDone] = useState<Set<number>>(new Set());
+
+  const toggle = (order: number) => {
+    setDone((prev) => {
+      const next = new Set(prev);
+      if (next.has(order)) {
+        next.delete(order);
+      } else {
+        next.add(order);
+      }
+      return next;
+    });
+  };
+
+  return (
+    <div className="rounded-md border border-border bg-background">
+      <div className="flex items-center justify-between gap-2 px-3 py-2 border-b border-border">
+        <button
+          type="button"
+          onClick={() => onOpen?.(procedure)}
+          className="text-sm font-medium text-left hover:text-primary transition-colors"
+          title="Open this SOP"
+        >
+          {procedure.title}
+          {procedure.version !== undefined && (
+            <span className="text-muted-foreground font-normal"> v{procedure.version}</span>
+          )}
+        </button>
+        <span className="text-xs text-muted-foreground whitespace-nowrap">
+          {done.size}/{procedure.steps.length} done
+        </span>
+      </div>
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead className="w-8" />
+            <TableHead className="w-8">#</TableHead>
+            <TableHead className="min-w-[200px]">Task</TableHead>
+            <TableHead className="whitespace-nowrap">Who</TableHead>
+            <TableHead>Tools</TableHead>
+            <TableHead>Template</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {procedure.steps.map((step) => {
+            const checked = done.has(step.order);
+            return (
+              <TableRow key={step.order} className={checked ? 'text-muted-foreground' : undefined}>
+                <TableCell>
+                  <input
+                    type="checkbox"
+                    checked={checked}
+                    onChange={() => toggle(step.order)}
+                    aria-label={`Mark step ${step.order} done`}
+                    className="h-4 w-4 accent-primary"
+                  />
+                </TableCell>
+                <TableCell className="text-xs">{step.order}</TableCell>
+                <TableCell className={`whitespace-normal text-xs ${checked ? 'line-through' : ''}`}>{step.task}</TableCell>
+                <TableCell className="text-xs">{step.role || '—'}</TableCell>
+                <TableCell className="whitespace-normal text-xs">{step.tools || '—'}</TableCell>
+                <TableCell className="whitespace-normal text-xs">{step.template || '—'}</TableCell>
+              </TableRow>
+            );
+          })}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
@@ -0,0 +1,199 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Loader2 } from 'lucide-react';
+
+interface SOPStep {
+  order: number;
+  task: string;
+  role: string;
+  tools: string;
+  template: string;
+}
+
+interface VersionSummary {
+  version: number;
+  title: string;
+  sourceFile: string;
+  effectiveFrom: string;
+  effectiveTo: string | null;
+  uploadedBy: string | null;
+}
+
+interface StepChange {
+  type: 'added' | 'removed' | 'changed';
+  before?: SOPStep;
+  after?: SOPStep;
+  fields: string[];
+}
+
+interface VersionDiff {
+  titleChanged: boolean;
+  categoryChanged: boolean;
+  changes: StepChange[];
+  unchangedCount: number;
+}
+
+const CHANGE_STYLES: Record<StepChange['type'], string> = {
+  added: 'border-l-green-500 bg-green-50',
+  removed: 'border-l-red-500 bg-red-50',
+  changed: 'border-l-amber-500 bg-amber-50',
+};
+
+const formatDate = (date: string | null) => {
+  if (!date) return 'present';
+  return new Date(date).toLocaleString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+};
+
+function StepSummary({ step }: { step: SOPStep }) {
+  return (
+    <div className="space-y-0.5">
+      <p className="text-sm">
+        <span className="font-semibold">Step {step.order}:</span> {step.task}
+      </p>
+      {(step.role || step.tools) && (
+        <p className="text-xs text-muted-foreground">
+          {step.role && <>Role: {step.role}</>}
+          {step.role && step.tools && ' · '}
+          {step.tools && <>Tools: {step.tools}</>}
+        </p>
+      )}
+    </div>
+  );
+}
+
+export function SOPHistory({ sopId }: { sopId: string }) {
+  const [versions, setVersions] = useState<VersionSummary[]>([]);
+  const [selected, setSelected] = useState<number | null>(null);
+  const [diff, setDiff] = useState<VersionDiff | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [diffLoading, setDiffLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    async function fetchVersions() {
+      try {
+        setLoading(true);
+        setError(null);
+        const res = await fetch(`/api/sops/versions?id=${encodeURIComponent(sopId)}`);
+        if (!res.ok) throw new Error('Failed to load history');
+        const data = await res.json();
+        setVersions(data.versions || []);
+        setSelected(data.versions?.[0]?.version ?? null);
+      } catch {
+        setError('Could not load version history');
+      } finally {
+        setLoading(false);
+      }
+    }
+    fetchVersions();
+  }, [sopId]);
+
+  useEffect(() => {
+    if (selected === null) return;
+
+    async function fetchDiff() {
+      try {
+        setDiffLoading(true);
+        const res = await fetch(`/api/sops/versions?id=${encodeURIComponent(sopId)}&version=${selected}`);
+        if (!res.ok) throw new Error('Failed to load version');
+        const data = await res.json();
+        setDiff(data.diff);
+      } catch {
+        setDiff(null);
+      } finally {
+        setDiffLoading(false);
+      }
+    }
+    fetchDiff();
+  }, [sopId, selected]);
+
+  if (loading) return <div className="flex justify-center p-12"><Loader2 className="h-8 w-8 animate-spin text-primary" /></div>;
+  if (error) return <div className="text-red-500 p-8 text-center">{error}</div>;
+  if (versions.length === 0) {
+    return <p className="text-sm text-muted-foreground p-8 text-center">No version history recorded for this SOP yet.</p>;
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Versions, newest first */}
+      <div className="space-y-2">
+        {versions.map((v) => (
+          <button
+            key={v.version}
+            type="button"
+            onClick={() => setSelected(v.version)}
+            className={`w-full text-left p-3 rounded-lg border transition-colors ${selected === v.version
+              ? 'border-primary bg-primary/5'
+              : 'border-gray-200 bg-gray-50 hover:border-primary/40'
+              }`}
+          >
+            <div className="flex items-center justify-between gap-2">
+              <p className="text-sm font-medium">Version {v.version}</p>
+              {!v.effectiveTo && <Badge variant="secondary">Current</Badge>}
+            </div>
+            <p className="mt-1 text-xs text-muted-foreground">
+              Effective {formatDate(v.effectiveFrom)} – {formatDate(v.effectiveTo)}
+            </p>
+            <p className="text-xs text-muted-foreground">
+              {v.uploadedBy ? `Uploaded by ${v.uploadedBy}` : 'Uploader unknown'} · {v.sourceFile}
+            </p>
+          </button>
+        ))}
+      </div>
+
+      {/* Step diff from the previous version */}
+      {selected !== null && (
+        <div>
+          <h3 className="text-sm font-semibold mb-3">
+            {selected === 1 ? 'Initial version' : `Changes from version ${selected - 1} to ${selected}`}
+          </h3>
+          {diffLoading ? (
+            <div className="flex justify-center p-6"><Loader2 className="h-5 w-5 animate-spin text-primary" /></div>
+          ) : !diff ? (
+            <p className="text-sm text-red-500">Could not load changes for this version.</p>
+          ) : (
+            <div className="space-y-2">
+              {(diff.titleChanged || diff.categoryChanged) && (
+                <p className="text-xs text-muted-foreground">
+                  {[diff.titleChanged && 'Title changed', diff.categoryChanged && 'Category changed'].filter(Boolean).join(' · ')}
+                </p>
+              )}
+              {diff.changes.length === 0 && (
+                <p className="text-sm text-muted-foreground">No step changes.</p>
+              )}
+              {diff.changes.map((change, index) => (
+                <div key={index} className={`border-l-4 rounded p-3 ${CHANGE_STYLES[change.type]}`}>
+                  <p className="text-xs font-semibold uppercase tracking-wide mb-1">
+                    {change.type}
+                    {change.type === 'changed' && change.fields.length > 0 && (
+                      <span className="normal-case font-normal text-muted-foreground"> ({change.fields.join(', ')})</span>
+                    )}
+                  </p>
+                  {change.type === 'changed' && change.before && change.after ? (
+                    <div className="space-y-2">
+                      <div className="line-through opacity-60"><StepSummary step={change.before} /></div>
+                      <StepSummary step={change.after} />
+                    </div>
+                  ) : (
+                    <StepSummary step={(change.after || change.before)!} />
+                  )}
+                </div>
+              ))}
+              {diff.unchangedCount > 0 && (
+                <p className="text-xs text-muted-foreground">{diff.unchangedCount} step(s) unchanged.</p>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,11 +1,15 @@
 
 "use client";
 
-import { useEffect, useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Loader2, User, Wrench } from "lucide-react";
 import { ScrollArea } from "@/components/ui/scroll-area";
+import { Tabs, TabsList, TabsTrigger, TabsContent } from "@/components/ui/tabs";
+import { SOPHistory } from "@/components/SOPHistory";
+import { SOPRunner } from "@/components/SOPRunner";
+import { StepText } from "@/components/StepText";
 
 interface SOPStep {
     order: number;
@@ -13,6 +17,7 @@ interface SOPStep {
     role: string;
     tools: string;
     template: string;
+    page?: number;
 }
 
 interface SOPDocument {
@@ -23,10 +28,17 @@ interface SOPDocument {
     content: string;
 }
 
-export function SOPReader({ sopId }: { sopId: string | null }) {
+interface SOPReaderProps {
+    sopId: string | null;
+    // Step numbers to highlight, e.g. the steps an answer was drawn from
+    highlightSteps?: number[];
+}
+
+export function SOPReader({ sopId, highlightSteps = [] }: SOPReaderProps) {
     const [sop, setSop] = useState<SOPDocument | null>(null);
     const [loading, setLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
+    const stepRefs = useRef<Map<number, HTMLDivElement>>(new Map());
 
     useEffect(() => {
         if (!sopId) return;
@@ -48,6 +60,13 @@ export function SOPReader({ sopId }: { sopId: string | null }) {
         fetchSOP();
     }, [sopId]);
 
+    // Bring the first highlighted step into view once the SOP has rendered
+    useEffect(() => {
+        if (!sop || highlightSteps.length === 0) return;
+        const first = stepRefs.current.get(Math.min(...highlightSteps));
+        first?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    }, [sop, highlightSteps]);
+
     if (!sopId) {
         return (
             <div className="h-full flex items-center justify-center text-muted-foreground p-8 text-center bg-gray-50/50 rounded-lg border-2 border-dashed">
@@ -72,50 +91,83 @@ export function SOPReader({ sopId }: { sopId: string | null }) {
                     <h1 className="text-3xl font-bold tracking-tight text-gray-900">{sop.title}</h1>
                 </div>
 
-                {/* Steps */}
-                <div className="space-y-6">
-                    {sop.steps.map((step) => (
-                        <Card key={step.order} className="border-l-4 border-l-primary/20 hover:border-l-primary transition-colors">
-                            <CardHeader className="py-3 px-4 flex flex-row items-center gap-4 space-y-0 bg-muted/20">
-                                <div className="flex items-center justify-center h-8 w-8 rounded-full bg-primary/10 text-primary font-bold text-sm">
-                                    {step.order}
-                                </div>
-                                <div className="flex-1">
-                                    {/* Simplified Header for step if needed, currently empty to save space */}
-                                </div>
-                                {step.role && (
-                                    <Badge variant="outline" className="flex items-center gap-1 font-normal text-xs text-muted-foreground bg-background">
-                                        <User className="h-3 w-3" /> {step.role}
-                                    </Badge>
-                                )}
-                            </CardHeader>
-                            <CardContent className="pt-4 pb-4 px-4 pl-16">
-                                <p className="text-base font-medium mb-3">{step.task}</p>
-
-                                <div className="flex flex-wrap gap-3">
-                                    {step.tools && (
-                                        <div className="flex items-center gap-1.5 text-xs text-muted-foreground bg-blue-50/50 px-2 py-1 rounded">
-                                            <Wrench className="h-3 w-3" />
-                                            <span className="font-semibold">Tools:</span> {step.tools}
+                <Tabs defaultValue="current">
+                    <TabsList>
+                        <TabsTrigger value="current">Current</TabsTrigger>
+                        <TabsTrigger value="history">History</TabsTrigger>
+                        {sop.steps.length > 0 && <TabsTrigger value="run">Run</TabsTrigger>}
+                    </TabsList>
+
+                    <TabsContent value="current" className="space-y-6 mt-4">
+                        {/* Steps */}
+                        <div className="space-y-6">
+                            {sop.steps.map((step) => (
+                                <Card
+                                    key={step.order}
+                                    ref={(el) => {
+                                        if (el) stepRefs.current.set(step.order, el);
+                                        else stepRefs.current.delete(step.order);
+                                    }}
+                                    className={`border-l-4 transition-colors ${highlightSteps.includes(step.order)
+                                        ? 'border-l-primary bg-primary/5 ring-1 ring-primary/30'
+                                        : 'border-l-primary/20 hover:border-l-primary'
+                                        }`}
+                                >
+                                    <CardHeader className="py-3 px-4 flex flex-row items-center gap-4 space-y-0 bg-muted/20">
+                                        <div className="flex items-center justify-center h-8 w-8 rounded-full bg-primary/10 text-primary font-bold text-sm">
+                                            {step.order}
                                         </div>
-                                    )}
-                                    {step.template && (
-                                        <div className="flex items-center gap-1.5 text-xs text-muted-foreground bg-yellow-50/50 px-2 py-1 rounded">
-                                            <span className="font-semibold">Note/Template:</span> {step.template}
+                                        <div className="flex-1">
+                                            {/* Simplified Header for step if needed, currently empty to save space */}
                                         </div>
-                                    )}
-                                </div>
-                            </CardContent>
-                        </Card>
-                    ))}
-                </div>
+                                        {step.role && (
+                                            <Badge variant="outline" className="flex items-center gap-1 font-normal text-xs text-muted-foreground bg-background">
+                                                <User className="h-3 w-3" /> {step.role}
+                                            </Badge>
+                                        )}
+                                        {step.page !== undefined && (
+                                            <Badge variant="outline" className="font-normal text-xs text-muted-foreground bg-background">
+                                                p. {step.page}
+                                            </Badge>
+                                        )}
+                                    </CardHeader>
+                                    <CardContent className="pt-4 pb-4 px-4 pl-16">
+                                        <p className="text-base font-medium mb-3"><StepText text={step.task} /></p>
+
+                                        <div className="flex flex-wrap gap-3">
+                                            {step.tools && (
+                                                <div className="flex items-center gap-1.5 text-xs text-muted-foreground bg-blue-50/50 px-2 py-1 rounded">
+                                                    <Wrench className="h-3 w-3" />
+                                                    <span className="font-semibold">Tools:</span> {step.tools}
+                                                </div>
+                                            )}
+                                            {step.template && (
+                                                <div className="flex items-center gap-1.5 text-xs text-muted-foreground bg-yellow-50/50 px-2 py-1 rounded">
+                                                    <span className="font-semibold">Note/Template:</span> {step.template}
+                                                </div>
+                                            )}
+                                        </div>
+                                    </CardContent>
+                                </Card>
+                            ))}
+                        </div>
+
+                        {/* Footer Content (Raw content fallback if mixed) */}
+                        {!sop.steps.length && (
+                            <div className="prose max-w-none p-4 bg-muted/50 rounded-lg whitespace-pre-wrap font-mono text-sm">
+                                {sop.content}
+                            </div>
+                        )}
+                    </TabsContent>
+
+                    <TabsContent value="history" className="mt-4">
+                        <SOPHistory sopId={sop.id} />
+                    </TabsContent>
 
-                {/* Footer Content (Raw content fallback if mixed) */}
-                {!sop.steps.length && (
-                    <div className="prose max-w-none p-4 bg-muted/50 rounded-lg whitespace-pre-wrap font-mono text-sm">
-                        {sop.content}
-                    </div>
-                )}
+                    <TabsContent value="run" className="mt-4">
+                        <SOPRunner sopId={sop.id} />
+                    </TabsContent>
+                </Tabs>
             </div>
         </ScrollArea>
     );
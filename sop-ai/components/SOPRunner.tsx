@@ -0,0 +1,380 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardHeader } from '@/components/ui/card';
+import { StepText } from '@/components/StepText';
+import { CheckCircle2, Loader2, Play, User, Wrench } from 'lucide-react';
+
+type RunStatus = 'in_progress' | 'completed' | 'abandoned';
+
+interface RunStep {
+  order: number;
+  task: string;
+  role: string;
+  tools: string;
+  template: string;
+  completed: boolean;
+  notes: string | null;
+  referenceNumber: string | null;
+  updatedBy: string | null;
+  completedAt: string | null;
+}
+
+interface RunEvent {
+  action: string;
+  stepOrder: number | null;
+  detail: Record<string, unknown> | null;
+  user: string | null;
+  createdAt: string;
+}
+
+interface RunSummary {
+  id: number;
+  sopVersion: number | null;
+  transactionRef: string | null;
+  status: RunStatus;
+  completedSteps: number;
+  totalSteps: number;
+  startedAt: string;
+  updatedAt: string;
+}
+
+interface Run extends RunSummary {
+  title: string;
+  userName: string | null;
+  steps: RunStep[];
+  events: RunEvent[];
+}
+
+const STATUS_LABELS: Record<RunStatus, string> = {
+  in_progress: 'In progress',
+  completed: 'Completed',
+  abandoned: 'Abandoned',
+};
+
+const EVENT_LABELS: Record<string, string> = {
+  started: 'Started the run',
+  resumed: 'Resumed the run',
+  step_checked: 'Ticked off step',
+  step_unchecked: 'Unticked step',
+  step_updated: 'Updated step',
+  completed: 'Completed the run',
+  abandoned: 'Abandoned the run',
+  reopened: 'Reopened the run',
+};
+
+// Per-step text fields being edited, saved when the field loses focus
+type Drafts = Record<number, { notes: string; referenceNumber: string }>;
+
+function draftsFor(run: Run): Drafts {
+  return Object.fromEntries(run.steps.map((step) => [
+    step.order,
+    { notes: step.notes || '', referenceNumber: step.referenceNumber || '' },
+  ]));
+}
+
+/**
+ * Guided run of an SOP: start or resume a run (optionally for a transaction reference),
+ * tick off each step with notes and reference numbers, then complete it. Every change
+ * is saved immediately, so runs can be resumed later.
+ */
+export function SOPRunner({ sopId }: { sopId: string }) {
+  const [runs, setRuns] = useState<RunSummary[]>([]);
+  const [run, setRun] = useState<Run | null>(null);
+  const [drafts, setDrafts] = useState<Drafts>({});
+  const [transactionRef, setTransactionRef] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadRuns = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/sops/runs?sopId=${encodeURIComponent(sopId)}`);
+      if (!res.ok) throw new Error('Failed to load runs');
+      const data = await res.json();
+      setRuns(data.runs);
+    } catch {
+      setError('Could not load runs');
+    } finally {
+      setLoading(false);
+    }
+  }, [sopId]);
+
+  useEffect(() => {
+    setRun(null);
+    setLoading(true);
+    loadRuns();
+  }, [loadRuns]);
+
+  const showRun = (next: Run) => {
+    setRun(next);
+    setDrafts(draftsFor(next));
+  };
+
+  const openRun = async (id: number) => {
+    setError(null);
+    try {
+      const res = await fetch(`/api/sops/runs/${id}`);
+      if (!res.ok) throw new Error('Failed to load run');
+      const data = await res.json();
+      showRun(data.run);
+    } catch {
+      setError('Could not load this run');
+    }
+  };
+
+  const startRun = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      const res = await fetch('/api/sops/runs', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ sopId, transactionRef: transactionRef.trim() || null }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to start run');
+      showRun(data.run);
+      setTransactionRef('');
+      loadRuns();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to start run');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const patchRun = async (body: object) => {
+    if (!run) return;
+    setSaving(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/sops/runs/${run.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to save');
+      setRun(data.run);
+      loadRuns();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to save');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const saveDraft = (step: RunStep, field: 'notes' | 'referenceNumber') => {
+    const value = drafts[step.order]?.[field] ?? '';
+    if (value.trim() === (step[field] || '')) return;
+    patchRun({ step: { order: step.order, [field]: value } });
+  };
+
+  const updateDraft = (order: number, field: 'notes' | 'referenceNumber', value: string) => {
+    setDrafts((prev) => ({ ...prev, [order]: { ...prev[order], [field]: value } }));
+  };
+
+  if (loading) {
+    return <div className="flex justify-center p-8"><Loader2 className="h-6 w-6 animate-spin text-primary" /></div>;
+  }
+
+  if (!run) {
+    const unfinished = runs.filter((r) => r.status === 'in_progress');
+    const finished = runs.filter((r) => r.status !== 'in_progress');
+
+    return (
+      <div className="space-y-6">
+        <Card>
+          <CardContent className="pt-4 space-y-3">
+            <p className="text-sm text-muted-foreground">
+              Work through this SOP step by step. Progress, notes and reference numbers are saved as you go.
+            </p>
+            <div className="flex gap-2">
+              <Input
+                value={transactionRef}
+                onChange={(e) => setTransactionRef(e.target.value)}
+                placeholder="Transaction reference (optional), e.g. order or folio number"
+              />
+              <Button onClick={startRun} disabled={saving}>
+                {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Play className="h-4 w-4 mr-1" />}
+                Start
+              </Button>
+            </div>
+            {error && <p className="text-sm text-red-600">{error}</p>}
+          </CardContent>
+        </Card>
+
+        {unfinished.length > 0 && (
+          <div className="space-y-2">
+            <h3 className="text-sm font-semibold">Resume</h3>
+            {unfinished.map((r) => (
+              <RunRow key={r.id} run={r} actionLabel="Resume" onOpen={openRun} />
+            ))}
+          </div>
+        )}
+
+        {finished.length > 0 && (
+          <div className="space-y-2">
+            <h3 className="text-sm font-semibold">Past runs</h3>
+            {finished.map((r) => (
+              <RunRow key={r.id} run={r} actionLabel="View" onOpen={openRun} />
+            ))}
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  const editable = run.status === 'in_progress';
+  const doneCount = run.steps.filter((step) => step.completed).length;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div>
+          <div className="flex items-center gap-2">
+            <Badge variant={run.status === 'completed' ? 'default' : 'secondary'}>{STATUS_LABELS[run.status]}</Badge>
+            {run.transactionRef && <span className="text-sm font-medium">{run.transactionRef}</span>}
+          </div>
+          <p className="text-xs text-muted-foreground mt-1">
+            {doneCount}/{run.steps.length} steps done
+            {run.sopVersion !== null && ` · SOP v${run.sopVersion}`}
+            {` · started ${new Date(run.startedAt).toLocaleString()}`}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          {editable ? (
+            <>
+              <Button size="sm" variant="outline" disabled={saving} onClick={() => patchRun({ status: 'abandoned' })}>
+                Abandon
+              </Button>
+              <Button
+                size="sm"
+                disabled={saving || doneCount < run.steps.length}
+                onClick={() => patchRun({ status: 'completed' })}
+              >
+                <CheckCircle2 className="h-4 w-4 mr-1" />
+                Complete
+              </Button>
+            </>
+          ) : (
+            <Button size="sm" variant="outline" disabled={saving} onClick={() => patchRun({ status: 'in_progress' })}>
+              Reopen
+            </Button>
+          )}
+          <Button size="sm" variant="ghost" onClick={() => { setRun(null); setError(null); }}>
+            Close
+          </Button>
+        </div>
+      </div>
+
+      <div className="h-1.5 rounded-full bg-muted overflow-hidden">
+        <div
+          className="h-full bg-primary transition-all"
+          style={{ width: `${run.steps.length ? (doneCount / run.steps.length) * 100 : 0}%` }}
+        />
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {run.steps.map((step) => (
+        <Card
+          key={step.order}
+          className={`border-l-4 ${step.completed ? 'border-l-green-500 bg-green-50/40' : 'border-l-primary/20'}`}
+        >
+          <CardHeader className="py-3 px-4 flex flex-row items-center gap-3 space-y-0">
+            <input
+              type="checkbox"
+              checked={step.completed}
+              disabled={!editable || saving}
+              onChange={(e) => patchRun({ step: { order: step.order, completed: e.target.checked } })}
+              aria-label={`Mark step ${step.order} done`}
+              className="h-5 w-5 accent-primary"
+            />
+            <span className="text-sm font-bold text-primary">{step.order}</span>
+            <p className={`flex-1 text-sm font-medium ${step.completed ? 'line-through text-muted-foreground' : ''}`}>
+              <StepText text={step.task} />
+            </p>
+            {step.role && (
+              <Badge variant="outline" className="flex items-center gap-1 font-normal text-xs text-muted-foreground bg-background">
+                <User className="h-3 w-3" /> {step.role}
+              </Badge>
+            )}
+          </CardHeader>
+          <CardContent className="pb-4 px-4 pl-12 space-y-2">
+            {(step.tools || step.template) && (
+              <div className="flex flex-wrap gap-3">
+                {step.tools && (
+                  <div className="flex items-center gap-1.5 text-xs text-muted-foreground bg-blue-50/50 px-2 py-1 rounded">
+                    <Wrench className="h-3 w-3" />
+                    <span className="font-semibold">Tools:</span> {step.tools}
+                  </div>
+                )}
+                {step.template && (
+                  <div className="flex items-center gap-1.5 text-xs text-muted-foreground bg-yellow-50/50 px-2 py-1 rounded">
+                    <span className="font-semibold">Note/Template:</span> {step.template}
+                  </div>
+                )}
+              </div>
+            )}
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+              <Input
+                value={drafts[step.order]?.referenceNumber ?? ''}
+                onChange={(e) => updateDraft(step.order, 'referenceNumber', e.target.value)}
+                onBlur={() => saveDraft(step, 'referenceNumber')}
+                disabled={!editable}
+                placeholder="Reference number"
+                className="h-8 text-xs"
+              />
+              <Input
+                value={drafts[step.order]?.notes ?? ''}
+                onChange={(e) => updateDraft(step.order, 'notes', e.target.value)}
+                onBlur={() => saveDraft(step, 'notes')}
+                disabled={!editable}
+                placeholder="Notes"
+                className="h-8 text-xs md:col-span-2"
+              />
+            </div>
+            {step.completedAt && (
+              <p className="text-[11px] text-muted-foreground">
+                Done {new Date(step.completedAt).toLocaleString()}{step.updatedBy ? ` by ${step.updatedBy}` : ''}
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      ))}
+
+      <details className="text-xs">
+        <summary className="cursor-pointer text-muted-foreground">Audit trail ({run.events.length})</summary>
+        <ul className="mt-2 space-y-1">
+          {run.events.map((event, i) => (
+            <li key={i} className="text-muted-foreground">
+              {new Date(event.createdAt).toLocaleString()} · {event.user || 'Unknown user'} ·{' '}
+              {EVENT_LABELS[event.action] || event.action}
+              {event.stepOrder !== null && ` ${event.stepOrder}`}
+              {event.detail && ` (${Object.entries(event.detail).map(([key, value]) => `${key}: ${value ?? '—'}`).join(', ')})`}
+            </li>
+          ))}
+        </ul>
+      </details>
+    </div>
+  );
+}
+
+function RunRow({ run, actionLabel, onOpen }: { run: RunSummary; actionLabel: string; onOpen: (id: number) => void }) {
+  return (
+    <div className="flex items-center justify-between gap-2 border rounded-md px-3 py-2 bg-background">
+      <div className="min-w-0">
+        <p className="text-sm font-medium truncate">{run.transactionRef || 'No transaction reference'}</p>
+        <p className="text-xs text-muted-foreground">
+          {STATUS_LABELS[run.status]} · {run.completedSteps}/{run.totalSteps} steps · updated {new Date(run.updatedAt).toLocaleString()}
+        </p>
+      </div>
+      <Button size="sm" variant="outline" onClick={() => onOpen(run.id)}>{actionLabel}</Button>
+    </div>
+  );
+}
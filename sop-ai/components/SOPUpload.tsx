@@ -22,15 +22,58 @@ export default function SOPUpload() {
     'application/vnd.ms-excel', // .xls
     'application/vnd.openxmlformats-officedocument.wordprocessingml.document', // .docx
     'application/msword', // .doc
+    'application/pdf', // .pdf
+    'text/markdown', // .md
+    'text/html', // .html
+    'image/png', // scanned pages
+    'image/jpeg',
+    'image/tiff',
   ];
   const MAX_SIZE = 50 * 1024 * 1024; // 50MB
+  const JOB_POLL_INTERVAL_MS = 1500;
+
+  // Poll an indexing job until it leaves the queued/running states
+  const waitForJob = async (jobId?: number): Promise<{ status: string; error: string | null } | null> => {
+    if (!jobId) return null;
+    while (true) {
+      await new Promise((resolve) => setTimeout(resolve, JOB_POLL_INTERVAL_MS));
+      const res = await fetch(`/api/jobs/${jobId}`);
+      if (!res.ok) return null;
+      const { job } = await res.json();
+      if (job.status !== 'queued' && job.status !== 'running') {
+        return job;
+      }
+      if (job.total > 0) {
+        setMessage(`${job.stage} (${job.processed}/${job.total})...`);
+      }
+    }
+  };
+
+  // One line per uploaded file saying whether it was indexed, and why not if it wasn't
+  const describeDocuments = async (uploaded: { id: number; fileName: string }[]) => {
+    const res = await fetch('/api/sops/documents');
+    if (!res.ok) return null;
+    const { documents } = await res.json();
+    return uploaded.map(({ id, fileName }) => {
+      const doc = documents.find((d: { id: number }) => d.id === id);
+      if (!doc) return { ok: false, line: `${fileName}: was removed before it could be indexed` };
+      if (doc.status === 'indexed') {
+        return { ok: true, line: `${fileName}: ${doc.sopCount} ${doc.sopCount === 1 ? 'SOP' : 'SOPs'} indexed` };
+      }
+      if (doc.status === 'failed') return { ok: false, line: `${fileName}: ${doc.error || 'could not be parsed'}` };
+      if (doc.status === 'needs_review') {
+        return { ok: false, line: `${fileName}: held for review of its scanned (OCR) text in the SOP list` };
+      }
+      return { ok: false, line: `${fileName}: not indexed yet` };
+    });
+  };
 
   const validateFile = (file: File): string | null => {
     const ext = file.name.substring(file.name.lastIndexOf('.')).toLowerCase();
-    const allowedExts = ['.xlsx', '.xls', '.docx', '.doc'];
+    const allowedExts = ['.xlsx', '.xls', '.docx', '.doc', '.pdf', '.md', '.markdown', '.html', '.htm', '.png', '.jpg', '.jpeg', '.tif', '.tiff'];
     
     if (!allowedExts.includes(ext)) {
-      return `Invalid file type. Only Excel (.xlsx, .xls) and Word (.docx, .doc) files are allowed.`;
+      return `Invalid file type. Only Excel (.xlsx, .xls), Word (.docx, .doc), PDF, Markdown (.md), HTML and scanned image (.png, .jpg, .tif) files are allowed.`;
     }
     
     if (file.size > MAX_SIZE) {
@@ -113,17 +156,40 @@ export default function SOPUpload() {
       const data = await res.json();
 
       if (!res.ok) {
-        throw new Error(data.error || 'Upload failed');
+        throw new Error([data.error || 'Upload failed', ...(data.details || [])].join('\n'));
       }
 
       setStatus('processing');
       setMessage('Processing files and generating embeddings...');
+      window.dispatchEvent(new Event('jobs-updated'));
 
-      // Wait a bit for processing (in real app, you might poll for status)
-      await new Promise((resolve) => setTimeout(resolve, 2000));
+      // Poll the indexing job until it finishes
+      const job = await waitForJob(data.jobId);
+      if (job && job.status === 'failed') {
+        throw new Error(job.error || 'Indexing failed');
+      }
 
-      setStatus('success');
-      setMessage(data.message || `Successfully uploaded and indexed ${files.length} file(s)`);
+      const results = job?.status === 'completed' ? await describeDocuments(data.documents || []) : null;
+      const rejected: string[] = data.errors || [];
+      const problems = [...rejected, ...(results || []).filter((r) => !r.ok).map((r) => r.line)];
+
+      if (job?.status === 'cancelled') {
+        setStatus('success');
+        setMessage('Files uploaded, but indexing was cancelled.');
+      } else if (problems.length > 0) {
+        const indexed = (results || []).filter((r) => r.ok).map((r) => r.line);
+        setStatus('error');
+        setMessage([
+          `Indexed ${indexed.length} of ${files.length} file(s).`,
+          ...indexed,
+          ...problems,
+        ].join('\n'));
+      } else {
+        setStatus('success');
+        setMessage(results
+          ? [`Successfully uploaded and indexed ${files.length} file(s)`, ...results.map((r) => r.line)].join('\n')
+          : `Successfully uploaded and indexed ${files.length} file(s)`);
+      }
       setFiles([]);
       
       // Refresh SOPs sidebar if it exists (triggered by page reload or event)
@@ -160,7 +226,7 @@ export default function SOPUpload() {
           Drag and drop SOP files here, or click to browse
         </p>
         <p className="text-xs text-muted-foreground mb-4">
-          Supports Excel (.xlsx, .xls) and Word (.docx, .doc) files
+          Supports Excel (.xlsx, .xls), Word (.docx, .doc), PDF, Markdown (.md), HTML and scanned images (.png, .jpg, .tif)
         </p>
         <p className="text-xs text-muted-foreground">
           Maximum file size: 50MB
@@ -169,7 +235,7 @@ export default function SOPUpload() {
           ref={fileInputRef}
           type="file"
           multiple
-          accept=".xlsx,.xls,.docx,.doc"
+          accept=".xlsx,.xls,.docx,.doc,.pdf,.md,.markdown,.html,.htm,.png,.jpg,.jpeg,.tif,.tiff"
           onChange={handleFileInput}
           className="hidden"
         />
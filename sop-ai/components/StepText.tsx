@@ -0,0 +1,39 @@
+'use client';
+
+// Inline Markdown links and images that Markdown/HTML SOP sources keep in step text
+const INLINE_LINK = /(!?)\[([^\]]*)\]\(([^)\s]+)\)/g;
+const SAFE_LINK = /^(https?:|mailto:)/i;
+const SAFE_IMAGE = /^(https?:|data:image\/)/i;
+
+/**
+ * Step text with its links and images rendered. Links to anything but web or mail
+ * addresses (e.g. pages relative to the wiki the SOP came from) show as plain text.
+ */
+export function StepText({ text }: { text: string }) {
+  const parts: React.ReactNode[] = [];
+  let last = 0;
+
+  for (const match of text.matchAll(INLINE_LINK)) {
+    const [source, image, label, url] = match;
+    parts.push(text.slice(last, match.index));
+    last = match.index + source.length;
+
+    if (image && SAFE_IMAGE.test(url)) {
+      parts.push(
+        // eslint-disable-next-line @next/next/no-img-element -- images come from arbitrary hosts in SOP sources
+        <img key={match.index} src={url} alt={label} className="block my-2 max-h-64 rounded border" />
+      );
+    } else if (!image && SAFE_LINK.test(url)) {
+      parts.push(
+        <a key={match.index} href={url} target="_blank" rel="noopener noreferrer" className="text-primary underline">
+          {label || url}
+        </a>
+      );
+    } else {
+      parts.push(label);
+    }
+  }
+  parts.push(text.slice(last));
+
+  return <>{parts}</>;
+}
@@ -2,7 +2,7 @@
 
 import { useState, useEffect } from 'react';
 import { Card } from '@/components/ui/card';
-import { FileText, RefreshCw } from 'lucide-react';
+import { FileText, RefreshCw, AlertCircle, Trash2, EyeOff, Eye, ScanSearch, Check, RotateCcw } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 
 interface SOPInfo {
@@ -13,6 +13,50 @@ interface SOPInfo {
   lastIndexed: Date;
 }
 
+// Scanned text OCR wasn't sure of, held until an admin approves it
+interface OCRReviewItem {
+  sopId: string;
+  title: string;
+  step: number;
+  page?: number;
+  text: string;
+  confidence: number;
+}
+
+interface UploadedDocument {
+  id: number;
+  fileName: string;
+  storedPath: string;
+  status: 'pending' | 'processing' | 'indexed' | 'needs_review' | 'failed' | 'disabled';
+  error: string | null;
+  review: OCRReviewItem[];
+  sopCount: number;
+  uploadedAt: string;
+  indexedAt: string | null;
+}
+
+const STATUS_STYLES: Record<UploadedDocument['status'], string> = {
+  pending: 'bg-gray-100 text-gray-700',
+  processing: 'bg-amber-100 text-amber-800',
+  indexed: 'bg-green-100 text-green-800',
+  needs_review: 'bg-orange-100 text-orange-800',
+  failed: 'bg-red-100 text-red-800',
+  disabled: 'bg-gray-200 text-gray-600',
+};
+
+interface ExcludedSOP {
+  sopId: string;
+  status: 'disabled' | 'deleted';
+  title: string;
+  sourceFile: string;
+}
+
+// /api/sops/structure: file -> category -> SOPs
+interface SOPFileStructure {
+  fileName: string;
+  categories: Array<{ category: string; tasks: Array<{ id: string; title: string }> }>;
+}
+
 interface SOPsData {
   sops: SOPInfo[];
   summary: {
@@ -24,6 +68,10 @@ interface SOPsData {
 
 export default function UploadedSOPsList() {
   const [data, setData] = useState<SOPsData | null>(null);
+  const [documents, setDocuments] = useState<UploadedDocument[]>([]);
+  const [excludedSOPs, setExcludedSOPs] = useState<ExcludedSOP[]>([]);
+  const [structure, setStructure] = useState<SOPFileStructure[]>([]);
+  const [busyKey, setBusyKey] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -45,7 +93,20 @@ export default function UploadedSOPsList() {
     try {
       setLoading(true);
       setError(null);
-      const res = await fetch('/api/sops');
+      const [res, docsRes, structureRes] = await Promise.all([
+        fetch('/api/sops'),
+        fetch('/api/sops/documents'),
+        fetch('/api/sops/structure'),
+      ]);
+      if (docsRes.ok) {
+        const docsResult = await docsRes.json();
+        setDocuments(docsResult.documents || []);
+        setExcludedSOPs(docsResult.excludedSOPs || []);
+      }
+      if (structureRes.ok) {
+        const structureResult = await structureRes.json();
+        setStructure(Array.isArray(structureResult) ? structureResult : []);
+      }
       if (res.ok) {
         const result = await res.json();
         setData(result);
@@ -60,6 +121,64 @@ export default function UploadedSOPsList() {
     }
   };
 
+  // Runs an admin action, then refreshes this list and anything else showing SOPs
+  const runAction = async (key: string, request: () => Promise<Response>) => {
+    setBusyKey(key);
+    try {
+      const res = await request();
+      const result = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        alert(result.error || 'Action failed');
+        return;
+      }
+      if (result.jobId) {
+        window.dispatchEvent(new Event('jobs-updated'));
+      }
+      window.dispatchEvent(new Event('sops-updated'));
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Action failed');
+    } finally {
+      setBusyKey(null);
+    }
+  };
+
+  const setSOPEnabled = (sopId: string, enabled: boolean) =>
+    runAction(`sop:${sopId}`, () => fetch('/api/sops', {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ id: sopId, enabled }),
+    }));
+
+  const deleteSOP = (sopId: string, title: string) => {
+    if (!confirm(`Delete "${title}"? It will be removed from search and won't be re-indexed unless its content changes or it is restored.`)) return;
+    runAction(`sop:${sopId}`, () => fetch(`/api/sops?id=${encodeURIComponent(sopId)}`, { method: 'DELETE' }));
+  };
+
+  const setDocumentEnabled = (docId: number, enabled: boolean) =>
+    runAction(`doc:${docId}`, () => fetch('/api/sops/documents', {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ id: docId, enabled }),
+    }));
+
+  const approveDocument = (docId: number) =>
+    runAction(`doc:${docId}`, () => fetch('/api/sops/documents', {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ id: docId, approve: true }),
+    }));
+
+  const deleteDocument = (docId: number, fileName: string) => {
+    if (!confirm(`Delete "${fileName}" and all SOPs indexed from it?`)) return;
+    runAction(`doc:${docId}`, () => fetch(`/api/sops/documents?id=${docId}`, { method: 'DELETE' }));
+  };
+
+  const getSOPsFor = (sourceFile: string, category: string | null) => {
+    const file = structure.find((f) => f.fileName === sourceFile);
+    const cat = file?.categories.find((c) => c.category === (category || 'General'));
+    return cat?.tasks || [];
+  };
+
   const formatFileName = (filePath: string) => {
     const parts = filePath.split('/');
     return parts[parts.length - 1] || filePath;
@@ -77,7 +196,8 @@ export default function UploadedSOPsList() {
   };
 
   const getFileSource = (filePath: string) => {
-    if (filePath.includes('uploads/')) {
+    const uploaded = documents.some((doc) => doc.fileName === formatFileName(filePath));
+    if (uploaded || filePath.includes('uploads/')) {
       return 'Uploaded';
     } else if (filePath.includes('template_sample/')) {
       return 'Template Sample';
@@ -134,6 +254,131 @@ export default function UploadedSOPsList() {
         </Button>
       </div>
 
+      {documents.length > 0 && (
+        <div className="mb-6">
+          <h3 className="text-sm font-semibold mb-2">Uploaded Documents</h3>
+          <div className="space-y-2">
+            {documents.map((doc) => (
+              <div key={doc.id} className="p-3 bg-gray-50 rounded-lg border border-gray-200">
+                <div className="flex items-center justify-between gap-2">
+                  <div className="flex items-center gap-2 min-w-0">
+                    <FileText className="h-4 w-4 text-gray-400 flex-shrink-0" />
+                    <p className="text-sm font-medium truncate" title={doc.fileName}>{doc.fileName}</p>
+                  </div>
+                  <div className="flex items-center gap-1 flex-shrink-0">
+                    <span className={`px-2 py-0.5 text-xs rounded capitalize ${STATUS_STYLES[doc.status] || STATUS_STYLES.pending}`}>
+                      {doc.status.replace('_', ' ')}
+                    </span>
+                    {doc.status === 'needs_review' && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-7 px-2 text-green-700 hover:text-green-800"
+                        disabled={busyKey === `doc:${doc.id}`}
+                        onClick={() => approveDocument(doc.id)}
+                        title="Approve OCR text and index"
+                      >
+                        <Check className="h-3 w-3" />
+                      </Button>
+                    )}
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 px-2"
+                      disabled={busyKey === `doc:${doc.id}` || doc.status === 'processing'}
+                      onClick={() => setDocumentEnabled(doc.id, doc.status === 'disabled')}
+                      title={doc.status === 'disabled' ? 'Enable' : 'Disable'}
+                    >
+                      {doc.status === 'disabled' ? <Eye className="h-3 w-3" /> : <EyeOff className="h-3 w-3" />}
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 px-2 text-red-600 hover:text-red-700"
+                      disabled={busyKey === `doc:${doc.id}` || doc.status === 'processing'}
+                      onClick={() => deleteDocument(doc.id, doc.fileName)}
+                      title="Delete"
+                    >
+                      <Trash2 className="h-3 w-3" />
+                    </Button>
+                  </div>
+                </div>
+                <div className="ml-6 mt-1 flex items-center gap-4 text-xs text-muted-foreground">
+                  <span>Uploaded: {formatDate(doc.uploadedAt)}</span>
+                  {doc.status === 'indexed' && (
+                    <>
+                      <span>•</span>
+                      <span>{doc.sopCount} {doc.sopCount === 1 ? 'SOP' : 'SOPs'}</span>
+                    </>
+                  )}
+                </div>
+                {doc.status === 'failed' && doc.error && (
+                  <div className="ml-6 mt-1 flex items-start gap-1 text-xs text-red-600">
+                    <AlertCircle className="h-3 w-3 mt-0.5 flex-shrink-0" />
+                    <span>{doc.error}</span>
+                  </div>
+                )}
+                {doc.status === 'needs_review' && doc.review.length > 0 && (
+                  <div className="ml-6 mt-2 text-xs">
+                    <div className="flex items-center gap-1 text-orange-800">
+                      <ScanSearch className="h-3 w-3 flex-shrink-0" />
+                      <span>Check this scanned text against the original before approving:</span>
+                    </div>
+                    <ul className="mt-1 space-y-1">
+                      {doc.review.map((item) => (
+                        <li key={`${item.sopId}:${item.step}`} className="text-gray-700">
+                          <span className="text-muted-foreground">
+                            {item.title}, step {item.step}{item.page !== undefined && ` (p. ${item.page})`} · {item.confidence}%:
+                          </span>{' '}
+                          {item.text}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {excludedSOPs.length > 0 && (
+        <div className="mb-6">
+          <h3 className="text-sm font-semibold mb-2">Disabled and Deleted SOPs</h3>
+          <div className="space-y-1">
+            {excludedSOPs.map((sop) => (
+              <div key={sop.sopId} className="flex items-center justify-between gap-2 px-3 py-2 bg-gray-50 rounded border border-gray-200">
+                <div className="min-w-0">
+                  <p className="text-sm truncate">{sop.title}</p>
+                  <p className="text-xs text-muted-foreground truncate">
+                    {formatFileName(sop.sourceFile)} · {sop.status}
+                  </p>
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="h-7 text-xs"
+                  disabled={busyKey === `sop:${sop.sopId}`}
+                  onClick={() => setSOPEnabled(sop.sopId, true)}
+                >
+                  {sop.status === 'deleted' ? (
+                    <>
+                      <RotateCcw className="h-3 w-3 mr-1" />
+                      Restore
+                    </>
+                  ) : (
+                    <>
+                      <Eye className="h-3 w-3 mr-1" />
+                      Enable
+                    </>
+                  )}
+                </Button>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {data && data.sops.length === 0 ? (
         <div className="text-center py-8">
           <FileText className="h-12 w-12 mx-auto mb-3 text-muted-foreground" />
@@ -173,6 +418,37 @@ export default function UploadedSOPsList() {
                     <span>•</span>
                     <span>Indexed: {formatDate(sop.lastIndexed)}</span>
                   </div>
+                  {getSOPsFor(sop.sourceFile, sop.category).length > 0 && (
+                    <ul className="pt-2 space-y-1">
+                      {getSOPsFor(sop.sourceFile, sop.category).map((task) => (
+                        <li key={task.id} className="flex items-center justify-between gap-2 text-xs">
+                          <span className="truncate" title={task.title}>{task.title}</span>
+                          <span className="flex items-center flex-shrink-0">
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="h-6 px-2"
+                              disabled={busyKey === `sop:${task.id}`}
+                              onClick={() => setSOPEnabled(task.id, false)}
+                              title="Disable"
+                            >
+                              <EyeOff className="h-3 w-3" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="h-6 px-2 text-red-600 hover:text-red-700"
+                              disabled={busyKey === `sop:${task.id}`}
+                              onClick={() => deleteSOP(task.id, task.title)}
+                              title="Delete"
+                            >
+                              <Trash2 className="h-3 w-3" />
+                            </Button>
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
                 </div>
               </div>
             </div>
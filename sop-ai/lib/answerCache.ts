@@ -0,0 +1,205 @@
+/**
+ * Semantic answer cache (answer_cache, answer_cache_sops)
+ * Repeated first-turn questions are answered from stored, post-processed answers: an exact
+ * match on the normalized question, or a near-duplicate by embedding similarity within the
+ * same SOP scope. Entries are dropped when any SOP they were answered from is reindexed.
+ * Lookups and stores only save work, so their failures are logged and treated as misses.
+ */
+
+import { and, desc, eq, inArray, isNull, notInArray, sql } from 'drizzle-orm';
+import { db, answerCache, answerCacheSOPs } from './db';
+import { getEmbedding } from './llm';
+import { cosineSimilarity, type ClaimCheck } from './groundingCheck';
+import { decodeEmbedding, encodeEmbedding } from './vectorStore/sqlite';
+import type { SOPSource } from './retrieval';
+import type { Citation } from './citations';
+import type { SOPProcedure } from './procedure';
+
+// Cosine similarity above which a differently worded question counts as the same one
+const SIMILARITY_THRESHOLD = 0.95;
+// Answers below this confidence are logged as unanswered instead, so they aren't reused
+const MIN_CONFIDENCE = 0.3;
+// Least recently used entries are evicted beyond this size
+const MAX_ENTRIES = 1000;
+
+export interface CachedAnswer {
+  answer: string;
+  confidence: number;
+  sources: SOPSource[];
+  citations: Citation[];
+  unsupportedClaims: ClaimCheck[];
+  procedure: SOPProcedure | null;
+}
+
+export interface AnswerCacheStats {
+  entries: number;
+  hits: number;
+  topQuestions: { question: string; hits: number }[];
+}
+
+/**
+ * Case, whitespace and trailing punctuation don't change what's being asked.
+ */
+export function normalizeQuestion(question: string): string {
+  return question
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .replace(/^[\s"'`]+|[\s"'`?.!]+$/g, '');
+}
+
+function scopeCondition(sopId?: string) {
+  return sopId ? eq(answerCache.scopeSopId, sopId) : isNull(answerCache.scopeSopId);
+}
+
+/**
+ * Stored answer for the question, or null on a miss. Hits are counted for the admin stats.
+ */
+export async function findCachedAnswer(question: string, sopId?: string): Promise<CachedAnswer | null> {
+  try {
+    const normalized = normalizeQuestion(question);
+    const rows = await db.select().from(answerCache).where(scopeCondition(sopId));
+    if (rows.length === 0) return null;
+
+    let match = rows.find(row => row.normalizedQuestion === normalized);
+    if (!match) {
+      const embedding = await getEmbedding(question);
+      let best = SIMILARITY_THRESHOLD;
+      for (const row of rows) {
+        const similarity = cosineSimilarity(embedding, Array.from(decodeEmbedding(row.embedding)));
+        if (similarity >= best) {
+          best = similarity;
+          match = row;
+        }
+      }
+      if (match) {
+        console.log(`[ANSWER CACHE] "${question}" matches cached "${match.question}" (similarity ${best.toFixed(3)})`);
+      }
+    }
+    if (!match) return null;
+
+    await db
+      .update(answerCache)
+      .set({ hits: sql`${answerCache.hits} + 1`, lastHitAt: new Date() })
+      .where(eq(answerCache.id, match.id));
+
+    return {
+      answer: match.answer,
+      confidence: match.confidence / 100,
+      sources: JSON.parse(match.sources),
+      citations: JSON.parse(match.citations),
+      unsupportedClaims: JSON.parse(match.unsupportedClaims),
+      procedure: match.procedure ? JSON.parse(match.procedure) : null,
+    };
+  } catch (error) {
+    console.warn('[ANSWER CACHE] Lookup failed:', error instanceof Error ? error.message : error);
+    return null;
+  }
+}
+
+/**
+ * Store a post-processed answer. Low-confidence answers are skipped, and an existing entry
+ * for the same question and scope is replaced.
+ */
+export async function cacheAnswer(question: string, sopId: string | undefined, result: CachedAnswer): Promise<void> {
+  if (result.confidence < MIN_CONFIDENCE) return;
+
+  try {
+    const normalized = normalizeQuestion(question);
+    const embedding = await getEmbedding(question);
+
+    const replaced = await db
+      .select({ id: answerCache.id })
+      .from(answerCache)
+      .where(and(eq(answerCache.normalizedQuestion, normalized), scopeCondition(sopId)));
+    await deleteEntries(replaced.map(row => row.id));
+
+    const [entry] = await db
+      .insert(answerCache)
+      .values({
+        question,
+        normalizedQuestion: normalized,
+        scopeSopId: sopId ?? null,
+        embedding: encodeEmbedding(embedding),
+        answer: result.answer,
+        confidence: Math.round(result.confidence * 100),
+        sources: JSON.stringify(result.sources),
+        citations: JSON.stringify(result.citations),
+        unsupportedClaims: JSON.stringify(result.unsupportedClaims),
+        procedure: result.procedure ? JSON.stringify(result.procedure) : null,
+      })
+      .returning({ id: answerCache.id });
+
+    const sopIds = new Set(result.sources.map(source => source.sopId));
+    if (sopId) sopIds.add(sopId);
+    if (sopIds.size > 0) {
+      await db.insert(answerCacheSOPs).values(Array.from(sopIds, id => ({ cacheId: entry.id, sopId: id })));
+    }
+
+    await evictLeastRecentlyUsed();
+  } catch (error) {
+    console.warn('[ANSWER CACHE] Failed to store answer:', error instanceof Error ? error.message : error);
+  }
+}
+
+async function deleteEntries(ids: number[]): Promise<void> {
+  if (ids.length === 0) return;
+  await db.delete(answerCacheSOPs).where(inArray(answerCacheSOPs.cacheId, ids));
+  await db.delete(answerCache).where(inArray(answerCache.id, ids));
+}
+
+async function evictLeastRecentlyUsed(): Promise<void> {
+  const keep = db
+    .select({ id: answerCache.id })
+    .from(answerCache)
+    .orderBy(desc(sql`coalesce(${answerCache.lastHitAt}, ${answerCache.createdAt})`), desc(answerCache.id))
+    .limit(MAX_ENTRIES);
+  const evicted = await db.select({ id: answerCache.id }).from(answerCache).where(notInArray(answerCache.id, keep));
+  await deleteEntries(evicted.map(row => row.id));
+}
+
+/**
+ * Drop cached answers that drew on any of the given SOPs. Answers without sources go too,
+ * since a changed SOP may now answer them. Returns how many entries were removed.
+ */
+export async function invalidateAnswersForSOPs(sopIds: string[]): Promise<number> {
+  if (sopIds.length === 0) return 0;
+
+  const linked = await db
+    .selectDistinct({ id: answerCacheSOPs.cacheId })
+    .from(answerCacheSOPs)
+    .where(inArray(answerCacheSOPs.sopId, sopIds));
+  const unlinked = await db
+    .select({ id: answerCache.id })
+    .from(answerCache)
+    .where(notInArray(answerCache.id, db.select({ id: answerCacheSOPs.cacheId }).from(answerCacheSOPs)));
+
+  const ids = [...linked, ...unlinked].map(row => row.id);
+  await deleteEntries(ids);
+  if (ids.length > 0) {
+    console.log(`[ANSWER CACHE] Invalidated ${ids.length} answers for ${sopIds.length} changed SOP(s)`);
+  }
+  return ids.length;
+}
+
+/**
+ * Remove every cached answer. Returns how many were removed.
+ */
+export async function clearAnswerCache(): Promise<number> {
+  await db.delete(answerCacheSOPs);
+  const removed = await db.delete(answerCache).returning({ id: answerCache.id });
+  console.log(`[ANSWER CACHE] Cleared ${removed.length} answers`);
+  return removed.length;
+}
+
+export async function getAnswerCacheStats(): Promise<AnswerCacheStats> {
+  const [totals] = await db
+    .select({ entries: sql<number>`count(*)`, hits: sql<number>`coalesce(sum(${answerCache.hits}), 0)` })
+    .from(answerCache);
+  const topQuestions = await db
+    .select({ question: answerCache.question, hits: answerCache.hits })
+    .from(answerCache)
+    .orderBy(desc(answerCache.hits), desc(answerCache.id))
+    .limit(10);
+
+  return { entries: totals.entries, hits: totals.hits, topQuestions };
+}
@@ -0,0 +1,136 @@
+/**
+ * Local lexical (BM25) index
+ * Complements vector search for exact domain terms like "FOT", "CAN", "OTM" and "MICR",
+ * which embeddings tend to blur together.
+ */
+
+export interface LexicalDocument {
+  id: string;
+  text: string;
+  metadata: Record<string, unknown>;
+}
+
+export interface LexicalHit {
+  id: string;
+  score: number;
+  document: LexicalDocument;
+}
+
+export interface BM25Index {
+  documents: LexicalDocument[];
+  termFrequencies: Map<string, number>[];
+  documentLengths: number[];
+  documentFrequency: Map<string, number>;
+  averageLength: number;
+}
+
+// Standard Okapi BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'can', 'do', 'does', 'for', 'from',
+  'how', 'i', 'in', 'is', 'it', 'me', 'my', 'of', 'on', 'or', 'our', 'should', 'that',
+  'the', 'this', 'to', 'was', 'we', 'what', 'when', 'where', 'which', 'who', 'why',
+  'will', 'with', 'you', 'your',
+]);
+
+// All-caps tokens are domain acronyms ("CAN", "OTM") and are kept even if they collide with a stop word
+const ACRONYM_PATTERN = /^[A-Z][A-Z0-9]{1,5}$/;
+
+function normalizeTerm(term: string): string {
+  const lower = term.toLowerCase();
+  // Light plural folding so "orders" matches "order"
+  if (lower.length > 4 && lower.endsWith('s') && !lower.endsWith('ss')) {
+    return lower.slice(0, -1);
+  }
+  return lower;
+}
+
+export function tokenize(text: string): string[] {
+  const rawTokens = text.match(/[A-Za-z0-9]+/g) || [];
+  const tokens: string[] = [];
+
+  for (const raw of rawTokens) {
+    const isAcronym = ACRONYM_PATTERN.test(raw);
+    const lower = raw.toLowerCase();
+    if (!isAcronym && (STOP_WORDS.has(lower) || lower.length < 2)) {
+      continue;
+    }
+    tokens.push(normalizeTerm(raw));
+  }
+
+  return tokens;
+}
+
+export function buildBM25Index(documents: LexicalDocument[]): BM25Index {
+  const termFrequencies: Map<string, number>[] = [];
+  const documentLengths: number[] = [];
+  const documentFrequency = new Map<string, number>();
+
+  for (const doc of documents) {
+    const tokens = tokenize(doc.text);
+    const tf = new Map<string, number>();
+    tokens.forEach(token => tf.set(token, (tf.get(token) || 0) + 1));
+
+    tf.forEach((_, term) => {
+      documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1);
+    });
+
+    termFrequencies.push(tf);
+    documentLengths.push(tokens.length);
+  }
+
+  const totalLength = documentLengths.reduce((a, b) => a + b, 0);
+
+  return {
+    documents,
+    termFrequencies,
+    documentLengths,
+    documentFrequency,
+    averageLength: documents.length > 0 ? totalLength / documents.length : 0,
+  };
+}
+
+/**
+ * Score every document against the query and return the top hits (score > 0).
+ * `filter` restricts the search to documents whose metadata matches, e.g. { sopId }.
+ */
+export function searchBM25(
+  index: BM25Index,
+  query: string,
+  limit: number = 10,
+  filter?: Record<string, string>
+): LexicalHit[] {
+  const queryTerms = Array.from(new Set(tokenize(query)));
+  if (queryTerms.length === 0 || index.documents.length === 0) {
+    return [];
+  }
+
+  const n = index.documents.length;
+  const hits: LexicalHit[] = [];
+
+  index.documents.forEach((doc, i) => {
+    if (filter && Object.entries(filter).some(([key, value]) => doc.metadata[key] !== value)) {
+      return;
+    }
+
+    const tf = index.termFrequencies[i];
+    const lengthNorm = 1 - B + B * (index.documentLengths[i] / (index.averageLength || 1));
+    let score = 0;
+
+    for (const term of queryTerms) {
+      const freq = tf.get(term);
+      if (!freq) continue;
+      const df = index.documentFrequency.get(term) || 0;
+      const idf = Math.log(1 + (n - df + 0.5) / (df + 0.5));
+      score += idf * (freq * (K1 + 1)) / (freq + K1 * lengthNorm);
+    }
+
+    if (score > 0) {
+      hits.push({ id: doc.id, score, document: doc });
+    }
+  });
+
+  return hits.sort((a, b) => b.score - a.score).slice(0, limit);
+}
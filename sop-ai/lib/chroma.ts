@@ -1,19 +1,25 @@
-import { ChromaClient } from 'chromadb';
 import * as fs from 'fs';
-import * as os from 'os';
 import * as path from 'path';
-import { exec } from 'child_process';
-import { promisify } from 'util';
 import { db, indexedSOPs } from './db';
 import { eq } from 'drizzle-orm';
-import { LLM_OPTIONS, buildPrompt } from './promptConstants';
+import { buildPrompt } from './promptConstants';
+import { getLLMResponse, streamLLMResponse, getEmbedding, getEmbeddings, type ChatMessage } from './llm';
 import { buildRAGContext, formatAcronymContext } from './contextBuilder';
-
-const execAsync = promisify(exec);
-
-const CHROMA_URL = process.env.CHROMA_URL || 'http://localhost:8000';
-const OLLAMA_URL = process.env.OLLAMA_URL || 'http://localhost:11434';
-const COLLECTION_NAME = 'sop-documents';
+import { collectConfidenceSignals, scoreConfidence, type ConfidenceSignals } from './confidence';
+import { buildCitedContext, extractCitations, type Citation, type CitationRef } from './citations';
+import { type ConversationTurn } from './conversation';
+import { hybridSearch, invalidateLexicalIndex, collectSources, type SOPSource, type RetrievedDocument } from './retrieval';
+import { chunkSOPDocuments, chunkMetadata } from './chunker';
+import { filterExcludedSOPs } from './sopLifecycle';
+import { recordSOPVersions, getCurrentVersions, getSOPVersionSources } from './sopVersions';
+import type { SOPDocument } from '../scripts/parse-sop';
+import { parseRegisteredDocuments, markDocumentsIndexed, markDocumentsFailed, sourceKey } from './documents';
+import { hashChunk, loadManifest, recordIndexedChunks, removeManifestEntries } from './indexManifest';
+import { saveSOPEntries } from './sopStore';
+import { getAcronymMap } from './acronyms';
+import { clearAnswerCache, invalidateAnswersForSOPs } from './answerCache';
+import { findProcedure, type SOPProcedure } from './procedure';
+import { getVectorStore, SOP_COLLECTION, ACRONYM_COLLECTION, type VectorHit, type VectorMetadata, type VectorRecord } from './vectorStore';
 
 // Path resolution helpers
 // Find SOP Excel file
@@ -60,366 +66,378 @@ function findTemplateDir(): string | null {
   return null;
 }
 
-// Debug: Print configuration on module load
-console.log(`[CONFIG] OLLAMA_URL: ${OLLAMA_URL}`);
-console.log(`[CONFIG] CHROMA_URL: ${CHROMA_URL}`);
-console.log(`[CONFIG] OLLAMA_URL env var: ${process.env.OLLAMA_URL || 'not set'}`);
+export interface SOPQueryResult {
+  answer: string;
+  confidence: number;
+  sources: SOPSource[];
+  // Inline [n] markers in the answer, resolved to SOP steps
+  citations: Citation[];
+  // What the confidence was computed from; absent when no answer was generated
+  signals?: ConfidenceSignals;
+  // Chunks the answer was generated from, for verifying it
+  retrieved?: RetrievedDocument[];
+  // Steps of the SOP a "how do I" question strongly matched, straight from sop-entries.json
+  procedure?: SOPProcedure | null;
+}
 
-let chromaClient: ChromaClient | null = null;
+// Events emitted by querySOPsStream, in order: sources, token*, done
+export type SOPStreamEvent =
+  | { type: 'sources'; sources: SOPSource[] }
+  | { type: 'token'; token: string }
+  | {
+    type: 'done';
+    answer: string;
+    confidence: number;
+    sources: SOPSource[];
+    citations: Citation[];
+    signals?: ConfidenceSignals;
+    retrieved?: RetrievedDocument[];
+    procedure?: SOPProcedure | null;
+  };
 
-export function getChromaClient(): ChromaClient {
-  if (!chromaClient) {
-    chromaClient = new ChromaClient({ path: CHROMA_URL });
-  }
-  return chromaClient;
+export interface SOPQueryOptions {
+  // Prior turns of the conversation, oldest first, included in the prompt
+  history?: ConversationTurn[];
+  // Standalone rewrite of a follow-up question, used for retrieval instead of the raw question
+  retrievalQuery?: string;
+  signal?: AbortSignal;
 }
 
-async function getEmbeddingViaCLI(text: string): Promise<number[]> {
-  const tmpFile = path.join(os.tmpdir(), `ollama-embed-${Date.now()}.json`);
-
-  try {
-    console.log(`[DEBUG] Using temp file method for embedding (text length: ${text.length})`);
+type PreparedQuery =
+  | { ready: false; result: SOPQueryResult }
+  | {
+    ready: true;
+    messages: ChatMessage[];
+    results: RetrievedDocument[];
+    // Plain retrieved text the answer is checked against
+    groundingContext: string;
+    sources: SOPSource[];
+    citationRefs: CitationRef[];
+    versions: Map<string, number>;
+  };
 
-    // Write payload to temp file (avoids all shell escaping issues)
-    const payload = JSON.stringify({
-      model: 'nomic-embed-text:latest',
-      prompt: text,
-    });
+// Retrieval + prompt construction shared by the blocking and streaming query paths.
+// Returns ready: false with a canned result when there is nothing to send to the LLM.
+async function prepareSOPQuery(question: string, filterSopId?: string, options: SOPQueryOptions = {}): Promise<PreparedQuery> {
+  const retrievalQuery = options.retrievalQuery || question;
 
-    fs.writeFileSync(tmpFile, payload);
+  if ((await getVectorStore().count(SOP_COLLECTION)) === 0) {
+    return {
+      ready: false,
+      result: {
+        answer: "SOP index is empty. Please rebuild the index from the admin dashboard.",
+        confidence: 0.0,
+        sources: [],
+        citations: [],
+      },
+    };
+  }
 
-    const command = `curl -s http://localhost:11434/api/embeddings -d @${tmpFile}`;
+  // Hybrid retrieval: vector search fused with the lexical index
+  const results = await hybridSearch(retrievalQuery, { nResults: 5, filterSopId });
 
-    console.log(`[DEBUG] curl command: curl -s http://localhost:11434/api/embeddings -d @${tmpFile}`);
+  if (filterSopId) {
+    console.log(`[RAG] Scoped query for SOP ID: ${filterSopId}`);
+  }
 
-    const { stdout, stderr } = await execAsync(command, {
-      maxBuffer: 10 * 1024 * 1024,
-      timeout: 60000,
-    });
+  if (results.length === 0) {
+    return {
+      ready: false,
+      result: {
+        answer: "No relevant SOPs found for this question.",
+        confidence: 0.0,
+        sources: [],
+        citations: [],
+      },
+    };
+  }
 
-    if (stderr) {
-      console.log(`[DEBUG] curl stderr: ${stderr}`);
-    }
+  // Extract relevant SOP content
+  const relevantDocs = results.map(r => r.content);
 
-    const trimmed = stdout.trim();
-    if (!trimmed) {
-      throw new Error('Empty output from curl');
-    }
+  // Build context from relevant SOP chunks, one numbered line per step for inline citations
+  const { context, refs: citationRefs } = buildCitedContext(results);
 
-    const result = JSON.parse(trimmed);
+  // Build RAG context with acronyms using the ALREADY retrieved documents
+  // This avoids a second redundant vector search
+  const ragContext = await buildRAGContext(retrievalQuery, relevantDocs);
+  const acronymContext = formatAcronymContext(ragContext.relevantAcronyms);
 
-    if (result.error) {
-      throw new Error(`Ollama API error: ${result.error}`);
-    }
+  // Build the chat prompt with grounding instructions; the provider applies its chat template
+  const messages = buildPrompt(acronymContext || '', context, question, options.history);
 
-    if (result.embedding && Array.isArray(result.embedding)) {
-      console.log(`[DEBUG] Got embedding via temp file, length: ${result.embedding.length}`);
-      return result.embedding;
-    }
+  // Map retrieved chunks back to their SOPs and steps (top 3 SOPs), tagged with their current version
+  const sources = collectSources(results, 3);
+  const versions = await getCurrentVersions(Array.from(new Set(citationRefs.map(ref => ref.sopId))));
+  sources.forEach(source => {
+    source.version = versions.get(source.sopId);
+  });
 
-    throw new Error('No embedding in response');
-  } catch (error: any) {
-    console.error(`[ERROR] Temp file embedding failed: ${error.message}`);
-    throw error;
-  } finally {
-    // Clean up temp file
-    try {
-      if (fs.existsSync(tmpFile)) {
-        fs.unlinkSync(tmpFile);
-      }
-    } catch (cleanupError) {
-      // Ignore cleanup errors
-    }
-  }
+  return {
+    ready: true,
+    messages,
+    results,
+    groundingContext: relevantDocs.join('\n\n'),
+    sources,
+    citationRefs,
+    versions,
+  };
 }
 
-export async function getEmbedding(text: string): Promise<number[]> {
-  // Debug: Show exact URL and environment
-  console.log(`[DEBUG] FULL URL: ${OLLAMA_URL}/api/embeddings`);
-  console.log(`[DEBUG] Env check - process.env.OLLAMA_URL: ${process.env.OLLAMA_URL || 'not set'}`);
-  console.log(`[DEBUG] OLLAMA_URL constant: ${OLLAMA_URL}`);
-
-  // Try API with both model name variations
-  const modelNames = ['nomic-embed-text:latest', 'nomic-embed-text'];
-
-  for (const modelName of modelNames) {
-    try {
-      const url = `${OLLAMA_URL}/api/embeddings`;
-      const payload = {
-        model: modelName,
-        prompt: text,
-      };
-
-      console.log(`[DEBUG] Attempting API call:`);
-      console.log(`[DEBUG]   URL: ${url}`);
-      console.log(`[DEBUG]   Model: ${modelName}`);
-      console.log(`[DEBUG]   Text length: ${text.length}`);
-
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => {
-        console.log(`[DEBUG] Fetch timeout triggered for model: ${modelName}`);
-        controller.abort();
-      }, 30000); // 30 second timeout
-
-      console.log(`[DEBUG] Sending fetch request...`);
-      const response = await fetch(url, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(payload),
-        signal: controller.signal,
-      });
-
-      clearTimeout(timeoutId);
-      console.log(`[DEBUG] Fetch completed, status: ${response.status} ${response.statusText}`);
-
-      if (response.ok) {
-        const data = await response.json();
-        if (data.embedding && Array.isArray(data.embedding)) {
-          console.log(`[DEBUG] ✅ Got embedding via API (model: ${modelName}), length: ${data.embedding.length}`);
-          return data.embedding;
-        } else {
-          console.log(`[DEBUG] API response missing embedding field, trying next model name`);
-        }
-      } else {
-        const errorText = await response.text();
-        console.log(`[DEBUG] API response not OK (${response.status}): ${errorText.substring(0, 200)}`);
-        // If 404, try next model name; otherwise break
-        if (response.status !== 404) {
-          break;
-        }
-      }
-    } catch (error: any) {
-      // API failed, try next model name or fall back to CLI
-      if (error.name === 'AbortError') {
-        console.log(`[DEBUG] Embedding API timed out (model: ${modelName}), trying next...`);
-      } else {
-        console.log(`[DEBUG] Embedding API failed (model: ${modelName}): ${error.message}`);
-      }
-      // If this was the last model name, break to fall back to CLI
-      if (modelName === modelNames[modelNames.length - 1]) {
-        break;
-      }
-    }
+function queryErrorResult(error: unknown): SOPQueryResult {
+  // Fallback if services aren't running
+  if (error instanceof Error && error.message.includes('fetch')) {
+    return {
+      answer: "Unable to connect to Ollama or ChromaDB. Please ensure Docker services are running (docker-compose up -d) and models are pulled.",
+      confidence: 0.0,
+      sources: [],
+      citations: [],
+    };
   }
 
-  // Fallback to CLI method
-  console.log('[DEBUG] All API attempts failed, using CLI method');
-  return getEmbeddingViaCLI(text);
+  return {
+    answer: "An error occurred while querying SOPs. Please try again.",
+    confidence: 0.0,
+    sources: [],
+    citations: [],
+  };
 }
 
-export async function getLLMResponse(prompt: string): Promise<string> {
+export async function querySOPs(question: string, filterSopId?: string, options: SOPQueryOptions = {}): Promise<SOPQueryResult> {
   try {
-    console.log(`[DEBUG] Calling LLM with prompt length: ${prompt.length}`);
-
-    const response = await fetch(`${OLLAMA_URL}/api/generate`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        model: process.env.LLM_MODEL || 'qwen2.5:3b',
-        prompt,
-        stream: false,
-        options: LLM_OPTIONS,
-      }),
-    });
-
-    console.log(`[DEBUG] LLM response status: ${response.status}`);
-
-    if (!response.ok) {
-      const errorBody = await response.text();
-      console.error(`[ERROR] LLM API error: ${response.status} - ${errorBody}`);
-
-      // Fallback to curl method
-      console.log(`[DEBUG] Trying curl fallback for LLM...`);
-      return await getLLMResponseViaCurl(prompt);
+    const prepared = await prepareSOPQuery(question, filterSopId, options);
+    if (!prepared.ready) {
+      return prepared.result;
     }
 
-    const data = await response.json();
-    console.log(`[DEBUG] LLM response received, length: ${data.response?.length || 0}`);
-    return data.response || '';
-  } catch (error: any) {
-    console.error('[ERROR] getLLMResponse failed:', error.message);
-    // Try curl fallback
-    console.log(`[DEBUG] Trying curl fallback for LLM after error...`);
-    return await getLLMResponseViaCurl(prompt);
-  }
-}
-
-async function getLLMResponseViaCurl(prompt: string): Promise<string> {
-  const tmpFile = path.join(os.tmpdir(), `ollama-llm-${Date.now()}.json`);
-
-  try {
-    const payload = JSON.stringify({
-      model: process.env.LLM_MODEL || 'qwen2.5:3b',
-      prompt,
-      stream: false,
-      options: LLM_OPTIONS,
-    });
-
-    fs.writeFileSync(tmpFile, payload);
-
-    const command = `curl -s http://localhost:11434/api/generate -d @${tmpFile}`;
-
-    const { stdout, stderr } = await execAsync(command, {
-      maxBuffer: 50 * 1024 * 1024, // 50MB buffer for large responses
-      timeout: 120000, // 2 minute timeout for LLM
+    const answer = await getLLMResponse(prepared.messages);
+    const signals = await collectConfidenceSignals({
+      question,
+      answer,
+      context: prepared.groundingContext,
+      results: prepared.results,
     });
 
-    if (stderr) {
-      console.log(`[DEBUG] LLM curl stderr: ${stderr}`);
-    }
-
-    const result = JSON.parse(stdout.trim());
-
-    if (result.error) {
-      throw new Error(`Ollama LLM error: ${result.error}`);
-    }
-
-    console.log(`[DEBUG] LLM curl response received, length: ${result.response?.length || 0}`);
-    return result.response || '';
-  } catch (error: any) {
-    console.error(`[ERROR] LLM curl failed: ${error.message}`);
-    throw error;
-  } finally {
-    try {
-      if (fs.existsSync(tmpFile)) {
-        fs.unlinkSync(tmpFile);
-      }
-    } catch { }
+    const confidence = scoreConfidence(signals);
+    return {
+      answer,
+      confidence,
+      signals,
+      sources: prepared.sources,
+      citations: extractCitations(answer, prepared.citationRefs, prepared.versions),
+      retrieved: prepared.results,
+      procedure: findProcedure(options.retrievalQuery || question, prepared.results, {
+        confidence,
+        filterSopId,
+        sources: prepared.sources,
+      }),
+    };
+  } catch (error) {
+    console.error('Error querying SOPs:', error);
+    return queryErrorResult(error);
   }
 }
 
-export async function querySOPs(question: string, filterSopId?: string): Promise<{ answer: string; confidence: number; sources: string[] }> {
+/**
+ * Streaming variant of querySOPs.
+ * Yields the retrieved sources first, then answer tokens as the LLM produces them,
+ * then a final 'done' event carrying the full raw answer and its confidence.
+ */
+export async function* querySOPsStream(
+  question: string,
+  filterSopId?: string,
+  options: SOPQueryOptions = {}
+): AsyncGenerator<SOPStreamEvent> {
+  let prepared: PreparedQuery;
   try {
-    const client = getChromaClient();
-
-    // Check if collection exists
-    const collections = await client.listCollections();
-    const collectionExists = collections.some(c => c.name === COLLECTION_NAME);
+    prepared = await prepareSOPQuery(question, filterSopId, options);
+  } catch (error) {
+    console.error('Error querying SOPs:', error);
+    const result = queryErrorResult(error);
+    yield { type: 'sources', sources: [] };
+    yield { type: 'done', ...result };
+    return;
+  }
 
-    if (!collectionExists) {
-      return {
-        answer: "SOP index is empty. Please rebuild the index from the admin dashboard.",
-        confidence: 0.0,
-        sources: [],
-      };
-    }
+  if (!prepared.ready) {
+    yield { type: 'sources', sources: prepared.result.sources };
+    yield { type: 'done', ...prepared.result };
+    return;
+  }
 
-    const collection = await client.getCollection({ name: COLLECTION_NAME });
+  yield { type: 'sources', sources: prepared.sources };
 
-    // Generate embedding for the question
-    const queryEmbedding = await getEmbedding(question);
+  let answer = '';
+  for await (const token of streamLLMResponse(prepared.messages, options.signal)) {
+    answer += token;
+    yield { type: 'token', token };
+  }
 
-    // Query ChromaDB for similar documents
-    const queryParams: any = {
-      queryEmbeddings: [queryEmbedding],
-      nResults: 5,
-    };
+  const signals = await collectConfidenceSignals({
+    question,
+    answer,
+    context: prepared.groundingContext,
+    results: prepared.results,
+  });
+
+  const confidence = scoreConfidence(signals);
+  yield {
+    type: 'done',
+    answer,
+    confidence,
+    signals,
+    sources: prepared.sources,
+    citations: extractCitations(answer, prepared.citationRefs, prepared.versions),
+    retrieved: prepared.results,
+    procedure: findProcedure(options.retrievalQuery || question, prepared.results, {
+      confidence,
+      filterSopId,
+      sources: prepared.sources,
+    }),
+  };
+}
 
-    // Apply filter if provided
-    if (filterSopId) {
-      queryParams.where = { sopId: filterSopId };
-      console.log(`[RAG] Scoped query for SOP ID: ${filterSopId}`);
+/**
+ * Bring the indexed_sops table (one row per source file and category) in line with
+ * the given SOPs. Rows are updated in place rather than truncated; lastIndexed is only
+ * bumped for groups listed in changedGroups ("sourceFile::category" keys).
+ */
+export async function syncIndexedSOPs(
+  docs: { sourceFile: string; category: string }[],
+  changedGroups: Set<string> = new Set()
+): Promise<void> {
+  // Group entries by source file and category
+  const sopGroups = new Map<string, { sourceFile: string; category: string; count: number }>();
+
+  docs.forEach((doc) => {
+    const source = doc.sourceFile || 'Unknown';
+    const category = doc.category || 'General';
+    const key = `${source}::${category}`;
+
+    if (!sopGroups.has(key)) {
+      sopGroups.set(key, { sourceFile: source, category, count: 0 });
     }
-
-    const results = await collection.query(queryParams);
-
-    if (!results.documents || results.documents[0].length === 0) {
-      return {
-        answer: "No relevant SOPs found for this question.",
-        confidence: 0.0,
-        sources: [],
-      };
+    sopGroups.get(key)!.count++;
+  });
+
+  const totalGroups = sopGroups.size;
+  const existingRows = await db.select().from(indexedSOPs);
+  const now = new Date();
+
+  for (const row of existingRows) {
+    const key = `${row.sourceFile}::${row.category || 'General'}`;
+    const group = sopGroups.get(key);
+    if (!group) {
+      await db.delete(indexedSOPs).where(eq(indexedSOPs.id, row.id));
+      continue;
     }
-
-    // Extract relevant SOP content
-    const relevantDocs = (results.documents[0] || []).filter((doc): doc is string => doc !== null);
-    const distances = results.distances?.[0] || [];
-    const metadatas = results.metadatas?.[0] || [];
-
-    // Calculate confidence based on similarity
-    // Using exponential decay to map unbounded distance to 0-1 range
-    // avgDistance 0 -> Confidence 1.0 (Exact match)
-    // avgDistance 0.5 -> Confidence ~0.60
-    // avgDistance 1.0 -> Confidence ~0.37
-    const avgDistance = distances.length > 0
-      ? distances.filter((d): d is number => d != null).reduce((a, b) => a + b, 0) / distances.length
-      : 1;
-
-    const confidence = Math.exp(-avgDistance);
-
-    // Build context from relevant SOPs
-    const context = relevantDocs
-      .map((doc, i) => {
-        const metadata = metadatas[i] || {};
-        const title = metadata.title || 'SOP Entry';
-        return `[${title}]\n${doc}`;
+    await db.update(indexedSOPs)
+      .set({
+        entryCount: group.count,
+        ...(changedGroups.has(key) ? { lastIndexed: now } : {}),
       })
-      .join('\n\n---\n\n');
-
-    // Build RAG context with acronyms using the ALREADY retrieved documents
-    // This avoids a second redundant vector search
-    const ragContext = await buildRAGContext(question, relevantDocs);
-    const acronymContext = formatAcronymContext(ragContext.relevantAcronyms);
+      .where(eq(indexedSOPs.id, row.id));
+    sopGroups.delete(key);
+  }
 
-    // Build optimized prompt with Qwen tokens and grounding instructions
-    const prompt = buildPrompt(acronymContext || '', context, question);
+  for (const group of sopGroups.values()) {
+    await db.insert(indexedSOPs).values({
+      sourceFile: group.sourceFile,
+      category: group.category,
+      entryCount: group.count,
+      lastIndexed: now,
+    });
+  }
 
-    const answer = await getLLMResponse(prompt);
+  console.log(`Tracked ${totalGroups} SOP sources in database`);
+}
 
-    // Extract sources (titles from metadata)
-    const sources = metadatas
-      .map((m: any) => m.title)
-      .filter((t: string) => t)
-      .slice(0, 3); // Limit to top 3 sources
+// "Branch SOPs.docx" -> "branch-sops"
+function sourceSlug(sourceFile: string): string {
+  return path.parse(sourceFile).name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+}
 
-    return {
-      answer,
-      confidence,
-      sources,
-    };
-  } catch (error) {
-    console.error('Error querying SOPs:', error);
+/**
+ * Keep one copy of each source and give every SOP a unique id.
+ * Copies of the same source (see sourceKey; e.g. the default workbook uploaded again) are
+ * one source: the latest copy replaces the earlier ones, so its SOPs become their next
+ * versions. IDs come from titles; repeats within a source are numbered, and an id shared
+ * by different sources stays with the source that owns its version history (or the first
+ * to claim it) while the others get their file name as a suffix, independent of order.
+ */
+async function resolveSOPIds(docs: SOPDocument[]): Promise<SOPDocument[]> {
+  const copies = new Map<string, { copy: string; docs: SOPDocument[] }>();
+  for (const doc of docs) {
+    const key = sourceKey(doc.sourceFile);
+    const copy = `${doc.documentId ?? ''}::${doc.sourceFile}`;
+    const current = copies.get(key);
+    if (current?.copy === copy) {
+      current.docs.push(doc);
+    } else {
+      if (current) console.log(`[INDEX] ${doc.sourceFile} replaces an earlier copy of the same source`);
+      copies.set(key, { copy, docs: [doc] });
+    }
+  }
 
-    // Fallback if services aren't running
-    if (error instanceof Error && error.message.includes('fetch')) {
-      return {
-        answer: "Unable to connect to Ollama or ChromaDB. Please ensure Docker services are running (docker-compose up -d) and models are pulled.",
-        confidence: 0.0,
-        sources: [],
-      };
+  const owners = new Map(Array.from(await getSOPVersionSources(), ([sopId, sourceFile]) => [sopId, sourceKey(sourceFile)]));
+  const pending: { doc: SOPDocument; key: string }[] = [];
+  for (const [key, copy] of copies) {
+    const seen = new Map<string, number>();
+    for (const doc of copy.docs) {
+      const count = seen.get(doc.id) || 0;
+      seen.set(doc.id, count + 1);
+      if (count > 0) doc.id = `${doc.id}-${count + 1}`;
+      pending.push({ doc, key });
     }
+  }
 
-    return {
-      answer: "An error occurred while querying SOPs. Please try again.",
-      confidence: 0.0,
-      sources: [],
-    };
+  const byId = new Map<string, SOPDocument>();
+  const owned = pending.filter(({ doc, key }) => owners.get(doc.id) === key);
+  for (const { doc } of owned) byId.set(doc.id, doc);
+  for (const { doc, key } of pending.filter(entry => !owned.includes(entry))) {
+    if (byId.has(doc.id) || (owners.has(doc.id) && owners.get(doc.id) !== key)) {
+      const base = `${doc.id}-${sourceSlug(doc.sourceFile)}`;
+      doc.id = base;
+      for (let n = 2; byId.has(doc.id); n++) doc.id = `${base}-${n}`;
+    }
+    byId.set(doc.id, doc);
   }
+  return Array.from(byId.values());
 }
 
-export async function rebuildIndex(sopFilePath?: string): Promise<void> {
-  try {
-    const client = getChromaClient();
+export interface RebuildIndexOptions {
+  // Re-parse every uploaded document and re-embed every chunk, even if unchanged
+  full?: boolean;
+  // Aborting stops the rebuild between embedding batches
+  signal?: AbortSignal;
+  // User who started the rebuild, recorded as the uploader of changed non-upload SOPs
+  triggeredBy?: number | null;
+  onProgress?: (progress: { stage: string; processed?: number; total?: number }) => void | Promise<void>;
+}
 
-    // Delete existing collection if it exists
-    try {
-      const collections = await client.listCollections();
-      const existingCollection = collections.find(c => c.name === COLLECTION_NAME);
-      if (existingCollection) {
-        await client.deleteCollection({ name: COLLECTION_NAME });
-        console.log('Deleted existing collection');
-      }
-    } catch (error) {
-      // Collection might not exist, that's okay
-    }
+function throwIfCancelled(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new Error('Index rebuild cancelled');
+  }
+}
 
-    // Create new collection
-    const collection = await client.createCollection({
-      name: COLLECTION_NAME,
-      metadata: { description: 'SOP documents for RAG' },
-    });
+/**
+ * Incrementally sync the vector index with the SOP sources.
+ * Only new or changed chunks (by content hash) are embedded; vectors for chunks that
+ * no longer exist are deleted. The collection is never dropped, so queries keep
+ * working while a rebuild runs.
+ */
+export async function rebuildIndex(sopFilePath?: string, options: RebuildIndexOptions = {}): Promise<void> {
+  // Uploaded documents parsed in this run, marked indexed (or failed) once embedding finishes
+  let uploadedDocuments: { id: number; sopCount: number }[] = [];
+
+  const reportProgress = async (stage: string, processed?: number, total?: number) => {
+    await options.onProgress?.({ stage, processed, total });
+  };
 
-    console.log('Created new ChromaDB collection');
+  try {
+    await reportProgress('Parsing SOP files');
+    const store = getVectorStore();
 
     // Parse SOP files - both Excel and Word documents
     const { parseSOPFile, parseSOPDirectory } = await import('../scripts/parse-sop');
@@ -443,127 +461,141 @@ export async function rebuildIndex(sopFilePath?: string): Promise<void> {
       allDocs.push(...fileDocs);
     }
 
-    // Process Word documents from template_sample folder
+    // Process Word, PDF and Markdown/HTML documents from template_sample folder
     const templateSamplePath = findTemplateDir();
     if (templateSamplePath) {
-      console.log(`Processing Word documents from: ${templateSamplePath}`);
+      console.log(`Processing SOP documents from: ${templateSamplePath}`);
       const dirDocs = await parseSOPDirectory(templateSamplePath);
       allDocs.push(...dirDocs);
     } else {
       console.warn('Template sample folder not found in any location');
     }
 
+    // Process files uploaded through the admin UI
+    const uploaded = await parseRegisteredDocuments(parseSOPFile, { reparse: options.full });
+    allDocs.push(...uploaded.docs);
+    uploadedDocuments = uploaded.parsed;
+
+    allDocs.splice(0, allDocs.length, ...await resolveSOPIds(allDocs));
+
+    // SOPs an admin disabled or deleted stay out of the index
+    const kept = await filterExcludedSOPs(allDocs);
+    if (kept.length < allDocs.length) {
+      console.log(`[INDEX] Skipping ${allDocs.length - kept.length} disabled or deleted SOPs`);
+      allDocs.splice(0, allDocs.length, ...kept);
+    }
+
     console.log(`Parsed ${allDocs.length} total SOP documents.`);
+    throwIfCancelled(options.signal);
 
     // --- NEW: Save Structured Data for Knowledge Base UI ---
+    // Keep every revision before the structured store is overwritten
+    await recordSOPVersions(allDocs, uploaded.uploaders, options.triggeredBy ?? null);
+
     console.log('[INDEX] Saving structured SOP data to sop_data/sop-entries.json...');
-    const dataDir = path.join(process.cwd(), 'sop_data');
-    if (!fs.existsSync(dataDir)) {
-      fs.mkdirSync(dataDir, { recursive: true });
-    }
-    fs.writeFileSync(path.join(dataDir, 'sop-entries.json'), JSON.stringify(allDocs, null, 2));
+    saveSOPEntries(allDocs);
+    invalidateLexicalIndex();
     // --------------------------------------------------------
 
-    console.log('Generating embeddings for vector search...');
+    // Embed overlapping step windows rather than whole SOPs so long procedures
+    // don't dilute similarity and results can point at specific steps
+    const chunks = chunkSOPDocuments(allDocs);
+    const currentIds = new Set(chunks.map(c => c.id));
+
+    // Whatever is actually in the collection is the source of truth for deletions,
+    // so vectors from older index layouts are cleaned up too
+    const existingRecords = await store.get(SOP_COLLECTION);
+    const existing = existingRecords.map(record => record.id);
+    const existingIds = new Set(existing);
+    const manifest = options.full ? new Map<string, string>() : await loadManifest();
+
+    const staleIds = existing.filter(id => !currentIds.has(id));
+    if (staleIds.length > 0) {
+      await store.delete(SOP_COLLECTION, { ids: staleIds });
+    }
+    await removeManifestEntries(Array.from(manifest.keys()).filter(id => !currentIds.has(id)));
+
+    const toEmbed = chunks
+      .map(chunk => ({ chunk, hash: hashChunk(chunk) }))
+      .filter(({ chunk, hash }) => !existingIds.has(chunk.id) || manifest.get(chunk.id) !== hash);
+
+    console.log(`[INDEX] ${chunks.length} chunks: ${toEmbed.length} new or changed, ${chunks.length - toEmbed.length} unchanged, ${staleIds.length} removed`);
+    await reportProgress('Embedding chunks', 0, toEmbed.length);
 
-    // Process entries in batches to avoid overwhelming Ollama
+    // Embed chunks in batches to avoid overwhelming the embedding provider
     const batchSize = 10;
-    const allIds: string[] = [];
-    const allEmbeddings: number[][] = [];
-    const allContentStrings: string[] = [];
-    const allMetadatas: any[] = [];
+    let indexedCount = 0;
+    const failedSOPs = new Set<string>();
+    let embedError = '';
 
-    for (let i = 0; i < allDocs.length; i += batchSize) {
-      const batch = allDocs.slice(i, i + batchSize);
+    for (let i = 0; i < toEmbed.length; i += batchSize) {
+      throwIfCancelled(options.signal);
+      const batch = toEmbed.slice(i, i + batchSize);
       const batchNum = Math.floor(i / batchSize) + 1;
-      const totalBatches = Math.ceil(allDocs.length / batchSize);
+      const totalBatches = Math.ceil(toEmbed.length / batchSize);
       console.log(`[DEBUG] Starting batch ${batchNum}/${totalBatches}`);
 
-      const batchPromises = batch.map(async (doc, idx) => {
-        const globalIdx = i + idx;
-        try {
-          console.log(`[DEBUG] Processing doc ${globalIdx + 1}: ${doc.title}`);
-          const embedding = await getEmbedding(doc.content);
-          if (!embedding || embedding.length === 0) {
-            throw new Error('Empty embedding returned');
-          }
-          console.log(`[DEBUG] Completed entry ${globalIdx + 1}, embedding length: ${embedding.length}`);
-
-          return {
-            id: doc.id || `sop-${globalIdx}`, // Use semantic ID if available
-            embedding,
-            document: doc.content,
-            metadata: {
-              title: doc.title || `SOP Entry ${globalIdx + 1}`,
-              category: doc.category || 'General',
-              sourceFile: doc.sourceFile || 'Unknown',
-              sopId: doc.id // Link back to structured JSON
-            },
-          };
-        } catch (error: any) {
-          console.error(`[ERROR] Failed to process doc ${globalIdx + 1}:`, error.message);
-          return null; // Return null to filter out later
-        }
-      });
-
-      console.log(`[DEBUG] Waiting for batch ${batchNum}...`);
-      const batchResults = await Promise.all(batchPromises);
-
-      batchResults.forEach((result) => {
-        if (result) {
-          allIds.push(result.id);
-          allEmbeddings.push(result.embedding);
-          allContentStrings.push(result.document);
-          allMetadatas.push(result.metadata);
-        }
-      });
+      let batchResults: (typeof batch[number] & { embedding: number[] })[] = [];
+      try {
+        const embeddings = await getEmbeddings(batch.map(({ chunk }) => chunk.content));
+        batchResults = batch.map(({ chunk, hash }, idx) => ({ chunk, hash, embedding: embeddings[idx] }));
+        console.log(`[DEBUG] Completed batch ${batchNum}, embedding length: ${embeddings[0]?.length}`);
+      } catch (error: any) {
+        console.error(`[ERROR] Failed to embed batch ${batchNum} (chunks ${i + 1}-${i + batch.length}):`, error.message);
+        batch.forEach(({ chunk }) => failedSOPs.add(chunk.sopId));
+        embedError = error.message;
+      }
+
+      // Upsert per batch so progress survives a failure part-way through;
+      // failed chunks stay out of the manifest and are retried on the next rebuild
+      if (batchResults.length > 0) {
+        await store.upsert(SOP_COLLECTION, batchResults.map(r => ({
+          id: r.chunk.id,
+          embedding: r.embedding,
+          document: r.chunk.content,
+          metadata: chunkMetadata(r.chunk),
+        })));
+        await recordIndexedChunks(batchResults);
+        indexedCount += batchResults.length;
+      }
+      await reportProgress('Embedding chunks', Math.min(i + batchSize, toEmbed.length), toEmbed.length);
 
       // Small delay to avoid rate limiting
       await new Promise(resolve => setTimeout(resolve, 100));
     }
 
-    // Add all documents to ChromaDB
-    await collection.add({
-      ids: allIds,
-      embeddings: allEmbeddings,
-      documents: allContentStrings,
-      metadatas: allMetadatas,
-    });
-
-    console.log(`Successfully indexed ${allIds.length} SOPs into ChromaDB`);
-
-    // Track indexed SOPs in database
-    // Group entries by source file and category
-    const sopGroups = new Map<string, { category: string; count: number }>();
-
-    allDocs.forEach((doc) => {
-      const source = doc.sourceFile || 'Unknown';
-      const category = doc.category || 'General';
-      const key = `${source}::${category}`;
-
-      if (!sopGroups.has(key)) {
-        sopGroups.set(key, { category, count: 0 });
-      }
-      sopGroups.get(key)!.count++;
-    });
-
-    // Clear existing indexed SOPs
-    await db.delete(indexedSOPs);
-
-    // Insert new indexed SOPs
-    for (const [key, data] of sopGroups.entries()) {
-      const [sourceFile] = key.split('::');
-      await db.insert(indexedSOPs).values({
-        sourceFile,
-        category: data.category,
-        entryCount: data.count,
-        lastIndexed: new Date(),
-      });
+    console.log(`Successfully indexed ${indexedCount} chunks from ${allDocs.length} SOPs into ChromaDB`);
+
+    await reportProgress('Updating SOP registry');
+
+    const changedGroups = new Set(
+      toEmbed.map(({ chunk }) => `${chunk.sourceFile || 'Unknown'}::${chunk.category || 'General'}`)
+    );
+    await syncIndexedSOPs(allDocs, changedGroups);
+
+    // Cached answers drawn from re-embedded or removed chunks are out of date
+    const staleIdSet = new Set(staleIds);
+    await invalidateAnswersForSOPs(Array.from(new Set([
+      ...toEmbed.map(({ chunk }) => chunk.sopId),
+      ...existingRecords
+        .filter(record => staleIdSet.has(record.id))
+        .map(record => String(record.metadata.sopId ?? '')),
+    ])).filter(Boolean));
+
+    // Uploads with chunks that failed to embed are reported as failed, not indexed
+    const failedDocuments = new Set(allDocs
+      .filter(doc => doc.documentId !== undefined && failedSOPs.has(doc.id))
+      .map(doc => doc.documentId as number));
+    await markDocumentsIndexed(uploadedDocuments.filter(d => !failedDocuments.has(d.id)));
+    if (failedDocuments.size > 0) {
+      await markDocumentsFailed(Array.from(failedDocuments), `Embedding failed: ${embedError}`);
     }
-
-    console.log(`Tracked ${sopGroups.size} SOP sources in database`);
   } catch (error) {
     console.error('Error rebuilding index:', error);
+    await markDocumentsFailed(
+      uploadedDocuments.map(d => d.id),
+      error instanceof Error ? error.message : 'Indexing failed'
+    ).catch(() => {});
     throw error;
   }
 }
@@ -581,64 +613,37 @@ export async function indexAcronyms(): Promise<number> {
 
     console.log(`[INDEX] Found ${acronyms.length} acronyms`);
 
-    const client = getChromaClient();
-    const ACRONYM_COLLECTION_NAME = 'sop_acronyms';
-
-    // Delete existing collection if it exists (to avoid embedding function mismatch)
-    const collections = await client.listCollections();
-    const existingCollection = collections.find(c => c.name === ACRONYM_COLLECTION_NAME);
-
-    if (existingCollection) {
-      console.log(`[INDEX] Deleting existing collection "${ACRONYM_COLLECTION_NAME}" to recreate without embedding function...`);
-      try {
-        await client.deleteCollection({ name: ACRONYM_COLLECTION_NAME });
-      } catch (e) {
-        console.warn(`[INDEX] Error deleting collection: ${e}`);
-      }
-    }
-
-    // Create new collection without embedding function (we provide embeddings manually)
-    console.log(`[INDEX] Creating collection "${ACRONYM_COLLECTION_NAME}"...`);
-    const collection = await client.createCollection({
-      name: ACRONYM_COLLECTION_NAME,
-      metadata: { description: 'Financial acronyms for RAG' },
-    });
+    // Start from an empty collection so acronyms removed from the CSV don't linger
+    const store = getVectorStore();
+    console.log(`[INDEX] Recreating collection "${ACRONYM_COLLECTION}"...`);
+    await store.dropCollection(ACRONYM_COLLECTION);
 
     console.log('[INDEX] Generating embeddings and preparing documents...');
 
-    const ids: string[] = [];
-    const embeddings: number[][] = [];
-    const documents: string[] = [];
-    const metadatas: Record<string, string | number | boolean>[] = [];
-
-    for (let i = 0; i < acronyms.length; i++) {
-      const acronym = acronyms[i];
-      const document = `${acronym.abbreviation} stands for ${acronym.fullForm}. ${acronym.abbreviation} means ${acronym.fullForm}. Category: ${acronym.category}`;
-
-      console.log(`[INDEX] Processing ${i + 1}/${acronyms.length}: ${acronym.abbreviation}`);
-
-      const embedding = await getEmbedding(document);
+    const documents = acronyms.map(acronym =>
+      `${acronym.abbreviation} stands for ${acronym.fullForm}. ${acronym.abbreviation} means ${acronym.fullForm}. Category: ${acronym.category}`
+    );
+    const embeddings = await getEmbeddings(documents);
 
-      ids.push(`acronym_${i}`);
-      embeddings.push(embedding);
-      documents.push(document);
-      metadatas.push({
+    const records: VectorRecord[] = acronyms.map((acronym, i) => ({
+      id: `acronym_${i}`,
+      embedding: embeddings[i],
+      document: documents[i],
+      metadata: {
         abbreviation: acronym.abbreviation,
         fullForm: acronym.fullForm,
         category: acronym.category,
         type: 'acronym',
-      });
-    }
+      },
+    }));
 
-    console.log('[INDEX] Upserting to ChromaDB...');
-    await collection.upsert({
-      ids,
-      embeddings,
-      documents,
-      metadatas,
-    });
+    console.log(`[INDEX] Upserting to the ${store.name} vector store...`);
+    await store.upsert(ACRONYM_COLLECTION, records);
 
-    console.log(`[INDEX] Successfully indexed ${acronyms.length} acronyms into ChromaDB`);
+    // Acronym expansions feed every answer
+    await clearAnswerCache();
+
+    console.log(`[INDEX] Successfully indexed ${acronyms.length} acronyms`);
     return acronyms.length;
   } catch (error: any) {
     console.error('[INDEX] Error indexing acronyms:', error.message);
@@ -648,32 +653,18 @@ export async function indexAcronyms(): Promise<number> {
 
 export async function getAcronymStats(): Promise<{ total: number; byCategory: Record<string, number>; lastIndexed: string | null }> {
   try {
-    const client = getChromaClient();
-    const ACRONYM_COLLECTION_NAME = 'sop_acronyms';
-
-    const collections = await client.listCollections();
-    const collectionExists = collections.some(c => c.name === ACRONYM_COLLECTION_NAME);
-
-    if (!collectionExists) {
-      return { total: 0, byCategory: {}, lastIndexed: null };
-    }
-
-    const collection = await client.getCollection({ name: ACRONYM_COLLECTION_NAME });
-    const count = await collection.count();
-
-    const results = await collection.get({ limit: count });
-    const metadatas = results.metadatas || [];
+    const records = await getVectorStore().get(ACRONYM_COLLECTION);
 
     const byCategory: Record<string, number> = {};
-    metadatas.forEach((meta: any) => {
-      const category = meta?.category || 'Uncategorized';
+    records.forEach(({ metadata }) => {
+      const category = String(metadata.category || 'Uncategorized');
       byCategory[category] = (byCategory[category] || 0) + 1;
     });
 
     return {
-      total: count,
+      total: records.length,
       byCategory,
-      lastIndexed: null, // ChromaDB doesn't store timestamps, would need separate tracking
+      lastIndexed: null, // The vector store doesn't keep timestamps, would need separate tracking
     };
   } catch (error: any) {
     console.error('[STATS] Error getting acronym stats:', error.message);
@@ -690,30 +681,17 @@ export interface AcronymResult {
 
 export async function queryAcronyms(query: string, nResults: number = 5): Promise<AcronymResult[]> {
   try {
-    const client = getChromaClient();
-    const ACRONYM_COLLECTION_NAME = 'sop_acronyms';
+    const store = getVectorStore();
 
-    const collections = await client.listCollections();
-    const collectionExists = collections.some(c => c.name === ACRONYM_COLLECTION_NAME);
-
-    if (!collectionExists) {
-      console.log('[ACRONYMS] Collection does not exist');
+    // Skip embedding the query when acronyms were never indexed
+    if ((await store.count(ACRONYM_COLLECTION)) === 0) {
+      console.log('[ACRONYMS] Collection is empty');
       return [];
     }
 
-    const collection = await client.getCollection({ name: ACRONYM_COLLECTION_NAME });
-    const queryEmbedding = await getEmbedding(query);
-
-    const results = await collection.query({
-      queryEmbeddings: [queryEmbedding],
-      nResults,
-    });
-
-    if (!results.metadatas || results.metadatas[0].length === 0) {
-      return [];
-    }
+    const hits = await store.query(ACRONYM_COLLECTION, await getEmbedding(query), { nResults });
 
-    return results.metadatas[0].map((meta: any) => ({
+    return hits.map(({ metadata: meta }) => ({
       abbreviation: String(meta.abbreviation || ''),
       fullForm: String(meta.fullForm || ''),
       category: String(meta.category || ''),
@@ -725,22 +703,129 @@ export async function queryAcronyms(query: string, nResults: number = 5): Promis
   }
 }
 
+// Domain phrasings users mix freely; a query containing one term gets a variant with each alternative
+const DOMAIN_SYNONYMS: string[][] = [
+  ['bank details', 'bank account', 'bank mandate'],
+  ['lumpsum', 'lump sum', 'one-time investment'],
+  ['redemption', 'withdrawal', 'sell units'],
+  ['nominee', 'nomination'],
+  ['update', 'change', 'modify'],
+  ['transmission', 'death of unit holder'],
+  ['mobile number', 'contact details'],
+  ['remittance', 'transfer of funds'],
+];
+
+// Upper bound on variants, each one costs an embedding call and a vector query
+const MAX_QUERY_VARIANTS = 5;
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Produce query variants for retrieval: the original query, acronyms expanded
+ * ("SIP" -> "Systematic Investment Plan"), full forms contracted back to acronyms,
+ * and domain synonym substitutions. The original query is always first.
+ */
 export function expandQuery(query: string): string[] {
-  return [query];
+  const variants: string[] = [query];
+  const addVariant = (variant: string) => {
+    if (variant !== query && !variants.includes(variant)) {
+      variants.push(variant);
+    }
+  };
+
+  const acronymMap = getAcronymMap();
+
+  // Acronyms -> full forms. Only all-caps tokens (or the acronym's own casing, e.g. "Demat")
+  // count, so everyday words like "can" or "pan" are left alone.
+  let expanded = query;
+  const tokens = query.match(/[A-Za-z][A-Za-z0-9/&-]*/g) || [];
+  for (const token of tokens) {
+    const acronym = acronymMap.get(token.toUpperCase());
+    if (!acronym) continue;
+    if (token !== token.toUpperCase() && token !== acronym.abbreviation) continue;
+    expanded = expanded.replace(new RegExp(`(^|[^A-Za-z0-9])${escapeRegExp(token)}(?![A-Za-z0-9])`), `$1${acronym.fullForm}`);
+  }
+  addVariant(expanded);
+
+  // Full forms -> acronyms. Single-word full forms ("Account") are too generic to contract.
+  let contracted = query;
+  acronymMap.forEach(acronym => {
+    if (!acronym.fullForm.includes(' ')) return;
+    const pattern = new RegExp(`\\b${escapeRegExp(acronym.fullForm)}\\b`, 'i');
+    if (pattern.test(contracted)) {
+      contracted = contracted.replace(pattern, acronym.abbreviation);
+    }
+  });
+  addVariant(contracted);
+
+  // Domain synonyms
+  const lowerQuery = query.toLowerCase();
+  for (const group of DOMAIN_SYNONYMS) {
+    const term = group.find(t => new RegExp(`\\b${escapeRegExp(t)}\\b`).test(lowerQuery));
+    if (!term) continue;
+    const pattern = new RegExp(`\\b${escapeRegExp(term)}\\b`, 'i');
+    group
+      .filter(alternative => alternative !== term)
+      .forEach(alternative => addVariant(query.replace(pattern, alternative)));
+  }
+
+  return variants.slice(0, MAX_QUERY_VARIANTS);
 }
 
-export function mergeQueryResults(results: any[], limit: number): { documents: string[]; metadatas: any[]; distances: number[] } {
-  if (results.length === 0) {
-    return { documents: [], metadatas: [], distances: [] };
+/**
+ * Merge vector results from several query variants into one ranking.
+ * Documents are deduplicated by id, keeping their best (smallest) distance;
+ * documents matched by more variants win ties.
+ */
+export function mergeQueryResults(results: VectorHit[][], limit: number): { ids: string[]; documents: string[]; metadatas: VectorMetadata[]; distances: number[] } {
+  const merged = new Map<string, { document: string; metadata: VectorMetadata; distance: number; hits: number }>();
+
+  for (const hits of results) {
+    hits.forEach(({ id, document, metadata, distance }) => {
+      if (document == null) return;
+      const existing = merged.get(id);
+      if (existing) {
+        existing.distance = Math.min(existing.distance, distance);
+        existing.hits++;
+      } else {
+        merged.set(id, { document, metadata, distance, hits: 1 });
+      }
+    });
   }
-  const first = results[0];
+
+  const ranked = Array.from(merged.entries())
+    .sort(([, a], [, b]) => a.distance - b.distance || b.hits - a.hits)
+    .slice(0, limit);
+
   return {
-    documents: first.documents?.[0]?.slice(0, limit) || [],
-    metadatas: first.metadatas?.[0]?.slice(0, limit) || [],
-    distances: first.distances?.[0]?.slice(0, limit) || [],
+    ids: ranked.map(([id]) => id),
+    documents: ranked.map(([, r]) => r.document),
+    metadatas: ranked.map(([, r]) => r.metadata),
+    distances: ranked.map(([, r]) => r.distance),
   };
 }
 
-export function rerankResults(query: string, results: any[]): any[] {
-  return results;
+// Boost per exact acronym from the query ("FOT", "CAN") found verbatim in a result
+const EXACT_TERM_BOOST = 0.25;
+
+/**
+ * Rerank fused results, boosting those that contain the query's acronyms verbatim.
+ * Embeddings handle short all-caps terms poorly, so an exact match is strong evidence.
+ */
+export function rerankResults<T extends { content: string; metadata: Record<string, unknown>; score: number }>(
+  query: string,
+  results: T[]
+): T[] {
+  const acronyms = Array.from(new Set(query.match(/\b[A-Z][A-Z0-9]{1,5}\b/g) || []));
+
+  return results
+    .map(result => {
+      if (acronyms.length === 0) return result;
+      const haystack = `${String(result.metadata.title || '')}\n${result.content}`;
+      const matches = acronyms.filter(acronym => new RegExp(`\\b${acronym}\\b`).test(haystack)).length;
+      return matches > 0 ? { ...result, score: result.score * (1 + EXACT_TERM_BOOST * matches) } : result;
+    })
+    .sort((a, b) => b.score - a.score);
 }
@@ -0,0 +1,162 @@
+/**
+ * Step-level chunking of SOP documents
+ * Splits each SOPDocument into overlapping windows of consecutive steps so that
+ * long procedures don't dilute similarity and answers can point at specific steps.
+ */
+
+import type { SOPDocument, SOPStep } from '../scripts/parse-sop';
+
+export interface SOPChunk {
+  id: string;
+  sopId: string;
+  title: string;
+  category: string;
+  sourceFile: string;
+  // Inclusive step range covered by this chunk (0-0 for SOPs without steps)
+  stepStart: number;
+  stepEnd: number;
+  roles: string;
+  tools: string;
+  // "order:page" pairs for steps from paginated sources (PDF), e.g. "4:2,5:3"
+  stepPages: string;
+  content: string;
+}
+
+// Steps per chunk and how many steps consecutive chunks share
+export const CHUNK_WINDOW = 3;
+export const CHUNK_OVERLAP = 1;
+
+// Single steps longer than this (e.g. whole Word documents) are split by paragraphs
+const MAX_CHUNK_CHARS = 1500;
+
+function formatStep(step: SOPStep): string {
+  let line = `${step.order}. ${step.task}`;
+  if (step.role) line += ` (Role: ${step.role})`;
+  if (step.tools) line += ` [Tools: ${step.tools}]`;
+  return line;
+}
+
+function uniqueJoined(values: string[]): string {
+  return Array.from(new Set(values.map(v => v.trim()).filter(Boolean))).join(', ');
+}
+
+// Split oversized text on paragraph boundaries into pieces of at most maxChars
+function splitLongText(text: string, maxChars: number): string[] {
+  const paragraphs = text.split(/\n\s*\n|\n/).map(p => p.trim()).filter(Boolean);
+  const pieces: string[] = [];
+  let current = '';
+
+  for (const paragraph of paragraphs) {
+    if (current && current.length + paragraph.length + 1 > maxChars) {
+      pieces.push(current);
+      current = '';
+    }
+    if (paragraph.length > maxChars) {
+      for (let i = 0; i < paragraph.length; i += maxChars) {
+        pieces.push(paragraph.substring(i, i + maxChars));
+      }
+      continue;
+    }
+    current = current ? `${current}\n${paragraph}` : paragraph;
+  }
+  if (current) pieces.push(current);
+
+  return pieces;
+}
+
+function makeChunk(doc: SOPDocument, steps: SOPStep[], body: string, suffix: string = ''): SOPChunk {
+  const stepStart = steps.length > 0 ? steps[0].order : 0;
+  const stepEnd = steps.length > 0 ? steps[steps.length - 1].order : 0;
+  const range = stepStart === stepEnd ? `Step ${stepStart}` : `Steps ${stepStart}-${stepEnd}`;
+
+  return {
+    id: `${doc.id}#${stepStart}-${stepEnd}${suffix}`,
+    sopId: doc.id,
+    title: doc.title,
+    category: doc.category,
+    sourceFile: doc.sourceFile,
+    stepStart,
+    stepEnd,
+    roles: uniqueJoined(steps.map(s => s.role)),
+    tools: uniqueJoined(steps.map(s => s.tools)),
+    stepPages: steps.filter(s => s.page !== undefined).map(s => `${s.order}:${s.page}`).join(','),
+    content: steps.length > 0 ? `${doc.title} (${range})\n${body}` : `${doc.title}\n${body}`,
+  };
+}
+
+export function chunkSOPDocument(
+  doc: SOPDocument,
+  windowSize: number = CHUNK_WINDOW,
+  overlap: number = CHUNK_OVERLAP
+): SOPChunk[] {
+  const steps = doc.steps || [];
+
+  if (steps.length === 0) {
+    return [makeChunk(doc, [], doc.content || doc.title)];
+  }
+
+  // A single huge step (unstructured document) is split into text pieces instead
+  if (steps.length === 1 && steps[0].task.length > MAX_CHUNK_CHARS) {
+    const pieces = splitLongText(steps[0].task, MAX_CHUNK_CHARS);
+    return pieces.map((piece, i) => makeChunk(doc, steps, piece, pieces.length > 1 ? `.${i + 1}` : ''));
+  }
+
+  const stride = Math.max(1, windowSize - overlap);
+  const chunks: SOPChunk[] = [];
+
+  for (let start = 0; start < steps.length; start += stride) {
+    const window = steps.slice(start, start + windowSize);
+    chunks.push(makeChunk(doc, window, window.map(formatStep).join('\n')));
+    if (start + windowSize >= steps.length) break;
+  }
+
+  return chunks;
+}
+
+export function chunkSOPDocuments(docs: SOPDocument[]): SOPChunk[] {
+  return docs.flatMap(doc => chunkSOPDocument(doc));
+}
+
+/**
+ * Metadata stored alongside each chunk in the vector and lexical indexes.
+ * Kept to flat scalars since Chroma rejects nested values.
+ */
+export function chunkMetadata(chunk: SOPChunk): Record<string, string | number> {
+  const metadata: Record<string, string | number> = {
+    title: chunk.title,
+    category: chunk.category || 'General',
+    sourceFile: chunk.sourceFile || 'Unknown',
+    sopId: chunk.sopId, // Link back to structured JSON
+    stepStart: chunk.stepStart,
+    stepEnd: chunk.stepEnd,
+    roles: chunk.roles,
+    tools: chunk.tools,
+  };
+  // Only set for PDF sources, so other chunks keep their manifest hashes
+  if (chunk.stepPages) metadata.stepPages = chunk.stepPages;
+  return metadata;
+}
+
+/**
+ * Page of each step in a chunk, from its `stepPages` metadata.
+ */
+export function parseStepPages(value: unknown): Map<number, number> {
+  const pages = new Map<number, number>();
+  for (const pair of String(value || '').split(',')) {
+    const [order, page] = pair.split(':').map(Number);
+    if (order && page) pages.set(order, page);
+  }
+  return pages;
+}
+
+/**
+ * Expand a chunk's metadata back into the list of step numbers it covers.
+ */
+export function stepsInRange(stepStart: number, stepEnd: number): number[] {
+  if (!stepStart) return [];
+  const steps: number[] = [];
+  for (let order = stepStart; order <= stepEnd; order++) {
+    steps.push(order);
+  }
+  return steps;
+}
@@ -0,0 +1,122 @@
+/**
+ * Inline citations
+ * The retrieved context is given to the LLM as numbered lines, one per SOP step, and the
+ * answer cites them as [1], [2]. Markers are resolved back to the SOP and step they name;
+ * markers that match nothing in the context are kept but flagged invalid.
+ */
+
+import { parseStepPages, stepsInRange } from './chunker';
+import type { RetrievedDocument } from './retrieval';
+
+// A numbered line of the context given to the LLM
+export interface CitationRef {
+  marker: number;
+  sopId: string;
+  title: string;
+  steps: number[];
+  pages?: number[]; // Source pages of the cited steps, for PDF SOPs
+}
+
+// A marker found in an answer, resolved against the context it was generated from
+export interface Citation {
+  marker: number;
+  sopId: string | null;
+  title: string | null;
+  steps: number[];
+  pages?: number[];
+  version?: number;
+  // False when the marker doesn't point at anything that was retrieved
+  valid: boolean;
+}
+
+// [1], [2, 3] and [2; 3]; adjacent markers like [1][2] match separately
+export const CITATION_PATTERN = /\[(\d+(?:\s*[,;]\s*\d+)*)\]/g;
+
+// Step lines in chunk content, as written by the chunker: "4. Task (Role: ...)"
+const STEP_LINE = /^(\d+)\.\s+(.*)$/;
+
+/**
+ * Number the retrieved chunks for the prompt. Each step gets its own marker so answers can
+ * cite individual steps; steps repeated across overlapping chunks keep their first marker.
+ * Chunks without step lines (unstructured documents) are cited as a whole.
+ */
+export function buildCitedContext(results: RetrievedDocument[]): { context: string; refs: CitationRef[] } {
+  const refs: CitationRef[] = [];
+  const byStep = new Map<string, number>();
+  const sections: string[] = [];
+
+  const addRef = (sopId: string, title: string, steps: number[], stepPages: Map<number, number>) => {
+    const marker = refs.length + 1;
+    const pages = Array.from(new Set(steps.map(step => stepPages.get(step)).filter((page): page is number => !!page)));
+    refs.push({ marker, sopId, title, steps, ...(pages.length > 0 && { pages }) });
+    return marker;
+  };
+
+  for (const result of results) {
+    const sopId = String(result.metadata.sopId || result.id);
+    const title = String(result.metadata.title || 'SOP Entry');
+    const stepStart = Number(result.metadata.stepStart) || 0;
+    const stepEnd = Number(result.metadata.stepEnd) || 0;
+    const stepPages = parseStepPages(result.metadata.stepPages);
+
+    // First line of chunk content is the "Title (Steps x-y)" header
+    const lines = result.content.split('\n');
+    const body = lines.slice(1);
+    const cited: string[] = [];
+
+    for (const line of body) {
+      const match = line.match(STEP_LINE);
+      const order = match ? parseInt(match[1], 10) : NaN;
+      if (!match || order < stepStart || order > stepEnd) continue;
+
+      const key = `${sopId}:${order}`;
+      if (byStep.has(key)) continue;
+      const marker = addRef(sopId, title, [order], stepPages);
+      byStep.set(key, marker);
+      cited.push(`[${marker}] Step ${order}: ${match[2]}`);
+    }
+
+    if (cited.length === 0) {
+      const marker = addRef(sopId, title, stepsInRange(stepStart, stepEnd), stepPages);
+      cited.push(`[${marker}] ${(body.length > 0 ? body : lines).join('\n')}`);
+    }
+
+    sections.push(`SOP: ${lines[0]}\n${cited.join('\n')}`);
+  }
+
+  return { context: sections.join('\n\n---\n\n'), refs };
+}
+
+/**
+ * Citation markers in an answer, in order of first appearance, resolved against the
+ * numbered context. `versions` tags each cited SOP with the version it was answered from.
+ */
+export function extractCitations(
+  answer: string,
+  refs: CitationRef[],
+  versions: Map<string, number> = new Map()
+): Citation[] {
+  const refsByMarker = new Map(refs.map(ref => [ref.marker, ref]));
+  const seen = new Set<number>();
+  const citations: Citation[] = [];
+
+  for (const match of answer.matchAll(CITATION_PATTERN)) {
+    const markers = match[1].split(/[,;]/).map(m => parseInt(m.trim(), 10));
+    for (const marker of markers) {
+      if (seen.has(marker)) continue;
+      seen.add(marker);
+
+      const ref = refsByMarker.get(marker);
+      citations.push(ref
+        ? { marker, sopId: ref.sopId, title: ref.title, steps: ref.steps, pages: ref.pages, version: versions.get(ref.sopId), valid: true }
+        : { marker, sopId: null, title: null, steps: [], valid: false });
+    }
+  }
+
+  const invalid = citations.filter(c => !c.valid).map(c => c.marker);
+  if (invalid.length > 0) {
+    console.log(`[CITATIONS] Answer cites markers not in the context: ${invalid.join(', ')}`);
+  }
+
+  return citations;
+}
@@ -0,0 +1,263 @@
+/**
+ * Answer confidence
+ * Combines retrieval strength, grounding and decline detection (and optionally an LLM
+ * self-rating) into one score with a logistic model. Weights are fitted against a labeled
+ * question set by scripts/calibrate-confidence.ts; built-in defaults apply until then.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { checkGrounding, isProperDecline } from './groundingCheck';
+import { buildConfidencePrompt } from './promptConstants';
+import { getLLMResponse } from './llm';
+import type { RetrievedDocument } from './retrieval';
+
+export const CALIBRATION_FILE = path.join(process.cwd(), 'data', 'confidence-calibration.json');
+
+// Grounding warnings beyond this many don't lower the score any further
+const MAX_WARNINGS = 5;
+
+export interface ConfidenceSignals {
+  // exp(-distance) of the best vector hit; 0-1, higher is closer
+  retrievalSimilarity: number;
+  // How far the best hit stands out from the runner-up, relative to the runner-up's distance; 0-1
+  retrievalMargin: number;
+  // checkGrounding score; 0-1
+  groundingScore: number;
+  groundingWarnings: number;
+  // The answer says the SOPs don't cover the question
+  declined: boolean;
+  // LLM self-rating, 0-1, when enabled
+  selfRating: number | null;
+}
+
+export interface ConfidenceWeights {
+  bias: number;
+  retrievalSimilarity: number;
+  retrievalMargin: number;
+  groundingScore: number;
+  groundingWarnings: number;
+  declined: number;
+  selfRating: number;
+}
+
+export interface CalibrationFile {
+  weights: ConfidenceWeights;
+  fittedAt: string;
+  samples: number;
+  brierScore: number;
+  expectedCalibrationError: number;
+}
+
+// Hand-tuned starting point: a close, unambiguous hit with a grounded answer scores ~0.85,
+// a decline scores below the unanswered-question threshold
+export const DEFAULT_WEIGHTS: ConfidenceWeights = {
+  bias: -2.0,
+  retrievalSimilarity: 3.0,
+  retrievalMargin: 0.8,
+  groundingScore: 1.5,
+  groundingWarnings: -1.5,
+  declined: -3.0,
+  selfRating: 2.0,
+};
+
+type FeatureName = Exclude<keyof ConfidenceWeights, 'bias'>;
+const FEATURES: FeatureName[] = [
+  'retrievalSimilarity',
+  'retrievalMargin',
+  'groundingScore',
+  'groundingWarnings',
+  'declined',
+  'selfRating',
+];
+
+let cachedWeights: { mtime: number; weights: ConfidenceWeights } | null = null;
+
+/**
+ * Calibrated weights from data/confidence-calibration.json, or the defaults if the
+ * calibration script hasn't been run. Re-read whenever the file changes.
+ */
+export function loadConfidenceWeights(): ConfidenceWeights {
+  try {
+    if (!fs.existsSync(CALIBRATION_FILE)) return DEFAULT_WEIGHTS;
+    const mtime = fs.statSync(CALIBRATION_FILE).mtimeMs;
+    if (cachedWeights && cachedWeights.mtime === mtime) return cachedWeights.weights;
+
+    const calibration = JSON.parse(fs.readFileSync(CALIBRATION_FILE, 'utf-8')) as CalibrationFile;
+    const weights = { ...DEFAULT_WEIGHTS, ...calibration.weights };
+    cachedWeights = { mtime, weights };
+    return weights;
+  } catch (error) {
+    console.error('[CONFIDENCE] Failed to load calibration, using defaults:', error);
+    return DEFAULT_WEIGHTS;
+  }
+}
+
+/**
+ * Retrieval signals from the fused results. Lexical-only hits have no distance, so a
+ * result set without any vector hit counts as a weak match.
+ */
+export function retrievalSignals(results: RetrievedDocument[]): Pick<ConfidenceSignals, 'retrievalSimilarity' | 'retrievalMargin'> {
+  const distances = results
+    .map(r => r.distance)
+    .filter((d): d is number => d != null)
+    .sort((a, b) => a - b);
+
+  if (distances.length === 0) {
+    return { retrievalSimilarity: 0, retrievalMargin: 0 };
+  }
+
+  const [best, runnerUp] = distances;
+  const margin = runnerUp === undefined || runnerUp <= 0
+    ? 1
+    : Math.max(0, Math.min(1, (runnerUp - best) / runnerUp));
+
+  return { retrievalSimilarity: Math.exp(-best), retrievalMargin: margin };
+}
+
+// Self-rating is an extra LLM call per answer, so it's opt-in
+export function isSelfRatingEnabled(): boolean {
+  return process.env.CONFIDENCE_SELF_RATING === 'true';
+}
+
+/**
+ * Ask the LLM to rate the answer (buildConfidencePrompt). Returns null if the reply
+ * isn't a number in 0-1 or the call fails.
+ */
+export async function rateAnswer(question: string, answer: string, context: string): Promise<number | null> {
+  try {
+    const reply = await getLLMResponse(buildConfidencePrompt(question, answer, context));
+    const match = reply.match(/\d*\.?\d+/);
+    const rating = match ? parseFloat(match[0]) : NaN;
+    return rating >= 0 && rating <= 1 ? rating : null;
+  } catch (error) {
+    console.error('[CONFIDENCE] Self-rating failed:', error);
+    return null;
+  }
+}
+
+/**
+ * Gather every signal for a generated answer.
+ */
+export async function collectConfidenceSignals(options: {
+  question: string;
+  answer: string;
+  context: string;
+  results: RetrievedDocument[];
+  selfRate?: boolean;
+}): Promise<ConfidenceSignals> {
+  const { question, answer, context, results, selfRate = isSelfRatingEnabled() } = options;
+  const grounding = checkGrounding(answer, context);
+  const declined = isProperDecline(answer);
+
+  if (!grounding.isGrounded && !declined) {
+    console.log('[CONFIDENCE] Grounding warnings:', grounding.warnings);
+  }
+
+  return {
+    ...retrievalSignals(results),
+    groundingScore: grounding.confidence,
+    groundingWarnings: grounding.warnings.length,
+    declined,
+    selfRating: selfRate && !declined ? await rateAnswer(question, answer, context) : null,
+  };
+}
+
+/**
+ * Feature vector for the logistic model. The self-rating is centred so a missing rating
+ * contributes nothing.
+ */
+export function confidenceFeatures(signals: ConfidenceSignals): Record<FeatureName, number> {
+  return {
+    retrievalSimilarity: signals.retrievalSimilarity,
+    retrievalMargin: signals.retrievalMargin,
+    groundingScore: signals.groundingScore,
+    groundingWarnings: Math.min(signals.groundingWarnings, MAX_WARNINGS) / MAX_WARNINGS,
+    declined: signals.declined ? 1 : 0,
+    selfRating: signals.selfRating === null ? 0 : signals.selfRating - 0.5,
+  };
+}
+
+const sigmoid = (x: number) => 1 / (1 + Math.exp(-x));
+
+/**
+ * Probability that the answer is correct, 0-1.
+ */
+export function scoreConfidence(signals: ConfidenceSignals, weights: ConfidenceWeights = loadConfidenceWeights()): number {
+  const features = confidenceFeatures(signals);
+  const logit = FEATURES.reduce((sum, name) => sum + weights[name] * features[name], weights.bias);
+  return sigmoid(logit);
+}
+
+export interface LabeledSignals {
+  signals: ConfidenceSignals;
+  // Whether the answer was judged correct
+  correct: boolean;
+}
+
+/**
+ * Fit the logistic weights by gradient descent on log loss, starting from `initial`.
+ * A small L2 penalty keeps weights sane on small label sets.
+ */
+export function fitConfidenceWeights(
+  samples: LabeledSignals[],
+  initial: ConfidenceWeights = DEFAULT_WEIGHTS,
+  options: { iterations?: number; learningRate?: number; l2?: number } = {}
+): ConfidenceWeights {
+  const { iterations = 5000, learningRate = 0.3, l2 = 0.01 } = options;
+  const weights = { ...initial };
+  if (samples.length === 0) return weights;
+
+  const rows = samples.map(sample => ({ x: confidenceFeatures(sample.signals), y: sample.correct ? 1 : 0 }));
+
+  for (let iter = 0; iter < iterations; iter++) {
+    let biasGradient = 0;
+    const gradients = Object.fromEntries(FEATURES.map(name => [name, 0])) as Record<FeatureName, number>;
+
+    for (const { x, y } of rows) {
+      const logit = FEATURES.reduce((sum, name) => sum + weights[name] * x[name], weights.bias);
+      const error = sigmoid(logit) - y;
+      biasGradient += error;
+      FEATURES.forEach(name => {
+        gradients[name] += error * x[name];
+      });
+    }
+
+    weights.bias -= (learningRate * biasGradient) / rows.length;
+    FEATURES.forEach(name => {
+      weights[name] -= learningRate * (gradients[name] / rows.length + l2 * weights[name]);
+    });
+  }
+
+  return weights;
+}
+
+/**
+ * Mean squared error between predicted confidence and outcome (lower is better).
+ */
+export function brierScore(predictions: { confidence: number; correct: boolean }[]): number {
+  if (predictions.length === 0) return 0;
+  return predictions.reduce((sum, p) => sum + (p.confidence - (p.correct ? 1 : 0)) ** 2, 0) / predictions.length;
+}
+
+/**
+ * Average gap between stated confidence and observed accuracy over equal-width bins,
+ * weighted by bin size.
+ */
+export function expectedCalibrationError(predictions: { confidence: number; correct: boolean }[], bins: number = 10): number {
+  if (predictions.length === 0) return 0;
+
+  let total = 0;
+  for (let b = 0; b < bins; b++) {
+    const inBin = predictions.filter(p => {
+      const bin = Math.min(bins - 1, Math.floor(p.confidence * bins));
+      return bin === b;
+    });
+    if (inBin.length === 0) continue;
+
+    const accuracy = inBin.filter(p => p.correct).length / inBin.length;
+    const meanConfidence = inBin.reduce((sum, p) => sum + p.confidence, 0) / inBin.length;
+    total += (inBin.length / predictions.length) * Math.abs(accuracy - meanConfidence);
+  }
+  return total;
+}
@@ -1,8 +1,6 @@
-import { getChromaClient, getEmbedding, expandQuery, mergeQueryResults, rerankResults } from './chroma';
 import { queryAcronyms, type AcronymResult } from './chroma';
 import { getAcronymMap, type Acronym } from './acronyms';
-
-const COLLECTION_NAME = 'sop-documents';
+import { hybridSearch } from './retrieval';
 
 export interface RAGContext {
   sopContext: string[];
@@ -28,45 +26,8 @@ function extractAcronymsFromText(text: string, acronymMap: Map<string, Acronym>)
 
 async function querySOPDocuments(queryText: string, nResults: number = 10): Promise<string[]> {
   try {
-    const client = getChromaClient();
-    
-    const collections = await client.listCollections();
-    const collectionExists = collections.some(c => c.name === COLLECTION_NAME);
-    
-    if (!collectionExists) {
-      return [];
-    }
-    
-    const collection = await client.getCollection({ name: COLLECTION_NAME });
-    
-    const queryVariations = expandQuery(queryText);
-    const allQueryResults = await Promise.all(
-      queryVariations.map(async (queryVar) => {
-        const embedding = await getEmbedding(queryVar);
-        const result = await collection.query({
-          queryEmbeddings: [embedding],
-          nResults: 10,
-        });
-        return result;
-      })
-    );
-    
-    const mergedResults = mergeQueryResults(allQueryResults, nResults);
-    
-    if (!mergedResults.documents || mergedResults.documents.length === 0) {
-      return [];
-    }
-    
-    const retrievalResults = mergedResults.documents.map((doc, i) => ({
-      id: `result-${i}`,
-      content: doc,
-      metadata: mergedResults.metadatas[i] || {},
-      similarity: 1 - (mergedResults.distances[i] || 0),
-    }));
-    
-    const rerankedResults = rerankResults(queryText, retrievalResults);
-    
-    return rerankedResults.map(r => r.content);
+    const results = await hybridSearch(queryText, { nResults });
+    return results.map(r => r.content);
   } catch (error: any) {
     console.error('[CONTEXT] Error querying SOP documents:', error.message);
     return [];
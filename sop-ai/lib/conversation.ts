@@ -0,0 +1,279 @@
+/**
+ * Conversation threads for multi-turn chat
+ * Stores turns per thread and rewrites follow-up questions into standalone queries
+ */
+
+import { and, asc, desc, eq, inArray } from 'drizzle-orm';
+import { db, conversationThreads, conversationMessages, answerSources, answerCitations, answerClaims } from './db';
+import { getLLMResponse } from './llm';
+import { buildStandaloneQuestionPrompt } from './promptConstants';
+import type { SOPSource } from './retrieval';
+import type { Citation } from './citations';
+import type { ClaimCheck } from './groundingCheck';
+
+// An answer sentence the grounding verifier couldn't find support for
+export interface UnsupportedClaim {
+  start: number;
+  end: number;
+  text: string;
+}
+
+export interface ConversationTurn {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+// Number of prior messages (user + assistant) passed to the prompt and the rewriter
+export const HISTORY_WINDOW = 6;
+
+// Long assistant answers are truncated so history doesn't crowd out SOP context
+const MAX_TURN_LENGTH = 600;
+
+const MAX_TITLE_LENGTH = 80;
+
+/**
+ * Look up a thread owned by the user. Returns null if it doesn't exist or belongs to someone else.
+ */
+export async function getThread(threadId: number, userId: number) {
+  const result = await db
+    .select()
+    .from(conversationThreads)
+    .where(and(eq(conversationThreads.id, threadId), eq(conversationThreads.userId, userId)))
+    .limit(1);
+  return result[0] || null;
+}
+
+export async function listThreads(userId: number, limit: number = 20) {
+  return db
+    .select()
+    .from(conversationThreads)
+    .where(eq(conversationThreads.userId, userId))
+    .orderBy(desc(conversationThreads.updatedAt))
+    .limit(limit);
+}
+
+/**
+ * All messages of a thread, oldest first; assistant messages carry the SOP sources
+ * (and versions) they were generated from, their inline citations and unsupported claims.
+ */
+export async function getThreadMessages(threadId: number) {
+  const messages = await db
+    .select()
+    .from(conversationMessages)
+    .where(eq(conversationMessages.threadId, threadId))
+    .orderBy(asc(conversationMessages.id));
+
+  const ids = messages.map(m => m.id);
+  const sourceRows = ids.length > 0
+    ? await db.select().from(answerSources).where(inArray(answerSources.messageId, ids)).orderBy(asc(answerSources.id))
+    : [];
+  const citationRows = ids.length > 0
+    ? await db.select().from(answerCitations).where(inArray(answerCitations.messageId, ids)).orderBy(asc(answerCitations.id))
+    : [];
+  const claimRows = ids.length > 0
+    ? await db.select().from(answerClaims).where(inArray(answerClaims.messageId, ids)).orderBy(asc(answerClaims.startOffset))
+    : [];
+
+  return messages.map(message => ({
+    ...message,
+    sources: sourceRows
+      .filter(row => row.messageId === message.id)
+      .map((row): SOPSource => ({
+        sopId: row.sopId,
+        title: row.title,
+        steps: JSON.parse(row.steps),
+        version: row.version ?? undefined,
+      })),
+    citations: citationRows
+      .filter(row => row.messageId === message.id)
+      .map((row): Citation => ({
+        marker: row.marker,
+        sopId: row.sopId,
+        title: row.title,
+        steps: JSON.parse(row.steps),
+        ...(row.pages && { pages: JSON.parse(row.pages) }),
+        version: row.version ?? undefined,
+        valid: row.valid,
+      })),
+    unsupportedClaims: claimRows
+      .filter(row => row.messageId === message.id)
+      .map((row): UnsupportedClaim => ({ start: row.startOffset, end: row.endOffset, text: row.text })),
+  }));
+}
+
+/**
+ * Most recent turns of a thread, oldest first, bounded by HISTORY_WINDOW.
+ */
+export async function getRecentTurns(threadId: number, windowSize: number = HISTORY_WINDOW): Promise<ConversationTurn[]> {
+  const rows = await db
+    .select()
+    .from(conversationMessages)
+    .where(eq(conversationMessages.threadId, threadId))
+    .orderBy(desc(conversationMessages.id))
+    .limit(windowSize);
+
+  return rows.reverse().map(row => ({
+    role: row.role === 'assistant' ? 'assistant' : 'user',
+    content: row.content.length > MAX_TURN_LENGTH
+      ? `${row.content.substring(0, MAX_TURN_LENGTH)}...`
+      : row.content,
+  }));
+}
+
+/**
+ * Rewrite a follow-up ("and who does step 4?") into a standalone question for retrieval.
+ * Without history the question is returned unchanged; on any LLM failure we fall back to it too.
+ */
+export async function rewriteFollowUpQuestion(question: string, history: ConversationTurn[]): Promise<string> {
+  if (history.length === 0) {
+    return question;
+  }
+
+  try {
+    const response = await getLLMResponse(buildStandaloneQuestionPrompt(history, question));
+    const rewritten = response
+      .split('\n')[0]
+      .trim()
+      .replace(/^["']|["']$/g, '');
+
+    // Guard against the model answering instead of rewriting
+    if (!rewritten || rewritten.length > question.length * 4 + 200) {
+      return question;
+    }
+
+    console.log(`[CONVERSATION] Rewrote follow-up: "${question}" -> "${rewritten}"`);
+    return rewritten;
+  } catch (error) {
+    console.error('[CONVERSATION] Follow-up rewrite failed:', error);
+    return question;
+  }
+}
+
+/**
+ * Store a completed question/answer exchange, creating the thread on its first turn.
+ * Returns the thread id the exchange was saved under.
+ */
+export async function saveExchange(options: {
+  userId: number;
+  threadId?: number | null;
+  question: string;
+  standaloneQuestion: string;
+  answer: string;
+  confidence: number;
+  sources?: SOPSource[];
+  citations?: Citation[];
+  unsupportedClaims?: ClaimCheck[];
+}): Promise<number> {
+  const {
+    userId,
+    question,
+    standaloneQuestion,
+    answer,
+    confidence,
+    sources = [],
+    citations = [],
+    unsupportedClaims = [],
+  } = options;
+  const now = new Date();
+
+  let threadId = options.threadId ?? null;
+  if (threadId === null) {
+    const title = question.length > MAX_TITLE_LENGTH
+      ? `${question.substring(0, MAX_TITLE_LENGTH - 3)}...`
+      : question;
+    const inserted = await db
+      .insert(conversationThreads)
+      .values({ userId, title, createdAt: now, updatedAt: now })
+      .returning({ id: conversationThreads.id });
+    threadId = inserted[0].id;
+  } else {
+    await db
+      .update(conversationThreads)
+      .set({ updatedAt: now })
+      .where(eq(conversationThreads.id, threadId));
+  }
+
+  const inserted = await db.insert(conversationMessages).values([
+    {
+      threadId,
+      role: 'user',
+      content: question,
+      standaloneQuestion: standaloneQuestion !== question ? standaloneQuestion : null,
+      createdAt: now,
+    },
+    {
+      threadId,
+      role: 'assistant',
+      content: answer,
+      confidence: Math.round(confidence * 100),
+      createdAt: now,
+    },
+  ]).returning({ id: conversationMessages.id, role: conversationMessages.role });
+
+  const assistantMessage = inserted.find(row => row.role === 'assistant');
+  if (assistantMessage && sources.length > 0) {
+    await db.insert(answerSources).values(sources.map(source => ({
+      messageId: assistantMessage.id,
+      sopId: source.sopId,
+      title: source.title,
+      version: source.version ?? null,
+      steps: JSON.stringify(source.steps),
+    })));
+  }
+  if (assistantMessage && citations.length > 0) {
+    await db.insert(answerCitations).values(citations.map(citation => ({
+      messageId: assistantMessage.id,
+      marker: citation.marker,
+      sopId: citation.sopId,
+      title: citation.title,
+      version: citation.version ?? null,
+      steps: JSON.stringify(citation.steps),
+      pages: citation.pages ? JSON.stringify(citation.pages) : null,
+      valid: citation.valid,
+    })));
+  }
+  if (assistantMessage && unsupportedClaims.length > 0) {
+    await db.insert(answerClaims).values(unsupportedClaims.map(claim => ({
+      messageId: assistantMessage.id,
+      startOffset: claim.start,
+      endOffset: claim.end,
+      text: claim.text,
+      lexicalScore: Math.round(claim.lexicalScore * 100),
+      semanticScore: claim.semanticScore === null ? null : Math.round(claim.semanticScore * 100),
+    })));
+  }
+
+  return threadId;
+}
+
+async function deleteAnswerReferences(threadIds: number[]): Promise<void> {
+  const messages = await db
+    .select({ id: conversationMessages.id })
+    .from(conversationMessages)
+    .where(inArray(conversationMessages.threadId, threadIds));
+  if (messages.length === 0) return;
+  const messageIds = messages.map(m => m.id);
+  await db.delete(answerSources).where(inArray(answerSources.messageId, messageIds));
+  await db.delete(answerCitations).where(inArray(answerCitations.messageId, messageIds));
+  await db.delete(answerClaims).where(inArray(answerClaims.messageId, messageIds));
+}
+
+export async function deleteThread(threadId: number): Promise<void> {
+  await deleteAnswerReferences([threadId]);
+  await db.delete(conversationMessages).where(eq(conversationMessages.threadId, threadId));
+  await db.delete(conversationThreads).where(eq(conversationThreads.id, threadId));
+}
+
+export async function deleteUserThreads(userId: number): Promise<void> {
+  const threads = await db
+    .select({ id: conversationThreads.id })
+    .from(conversationThreads)
+    .where(eq(conversationThreads.userId, userId));
+
+  if (threads.length === 0) return;
+
+  const ids = threads.map(t => t.id);
+  await deleteAnswerReferences(ids);
+  await db.delete(conversationMessages).where(inArray(conversationMessages.threadId, ids));
+  await db.delete(conversationThreads).where(inArray(conversationThreads.id, ids));
+}
@@ -1,8 +1,9 @@
 import { drizzle } from 'drizzle-orm/better-sqlite3';
 import Database from 'better-sqlite3';
-import { sqliteTable, text, integer } from 'drizzle-orm/sqlite-core';
+import { sqliteTable, text, integer, blob, primaryKey } from 'drizzle-orm/sqlite-core';
 
-const sqlite = new Database('sop-ai.db');
+// Overridable so tests and deployments can use another file
+const sqlite = new Database(process.env.DATABASE_PATH || 'sop-ai.db');
 
 // Schema definitions
 export const users = sqliteTable('users', {
@@ -33,6 +34,57 @@ export const recentQuestions = sqliteTable('recent_questions', {
   createdAt: integer('created_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
 });
 
+export const conversationThreads = sqliteTable('conversation_threads', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  userId: integer('user_id').notNull().references(() => users.id),
+  title: text('title').notNull(),
+  createdAt: integer('created_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
+  updatedAt: integer('updated_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
+});
+
+export const conversationMessages = sqliteTable('conversation_messages', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  threadId: integer('thread_id').notNull().references(() => conversationThreads.id),
+  role: text('role').notNull(), // 'user' or 'assistant'
+  content: text('content').notNull(),
+  standaloneQuestion: text('standalone_question'), // user turns: follow-up rewritten for retrieval
+  confidence: integer('confidence'), // assistant turns: 0-100
+  createdAt: integer('created_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
+});
+
+// SOPs an answer was generated from, with the SOP version in effect at the time
+export const answerSources = sqliteTable('answer_sources', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  messageId: integer('message_id').notNull().references(() => conversationMessages.id),
+  sopId: text('sop_id').notNull(),
+  title: text('title').notNull(),
+  version: integer('version'),
+  steps: text('steps').notNull(), // JSON array of step numbers
+});
+
+export const answerCitations = sqliteTable('answer_citations', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  messageId: integer('message_id').notNull().references(() => conversationMessages.id),
+  marker: integer('marker').notNull(),
+  sopId: text('sop_id'), // null for markers that matched nothing in the context
+  title: text('title'),
+  version: integer('version'),
+  steps: text('steps').notNull(), // JSON array of step numbers
+  pages: text('pages'), // JSON array of source page numbers, for PDF SOPs
+  valid: integer('valid', { mode: 'boolean' }).notNull(),
+});
+
+// Answer sentences the grounding verifier found no support for in the retrieved SOPs
+export const answerClaims = sqliteTable('answer_claims', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  messageId: integer('message_id').notNull().references(() => conversationMessages.id),
+  startOffset: integer('start_offset').notNull(),
+  endOffset: integer('end_offset').notNull(),
+  text: text('text').notNull(),
+  lexicalScore: integer('lexical_score').notNull(), // 0-100
+  semanticScore: integer('semantic_score'), // 0-100, null if embeddings were unavailable
+});
+
 export const indexedSOPs = sqliteTable('indexed_sops', {
   id: integer('id').primaryKey({ autoIncrement: true }),
   sourceFile: text('source_file').notNull(),
@@ -41,13 +93,169 @@ export const indexedSOPs = sqliteTable('indexed_sops', {
   lastIndexed: integer('last_indexed', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
 });
 
+// Files uploaded through the admin UI; each is parsed and included in every (re)index
+export const documents = sqliteTable('documents', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  fileName: text('file_name').notNull(), // original name as uploaded
+  storedPath: text('stored_path').notNull(),
+  fileSize: integer('file_size').notNull().default(0),
+  status: text('status').notNull().default('pending'), // 'pending', 'processing', 'indexed', 'needs_review', 'failed' or 'disabled'
+  error: text('error'),
+  sopCount: integer('sop_count').notNull().default(0),
+  uploadedBy: integer('uploaded_by').references(() => users.id),
+  uploadedAt: integer('uploaded_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
+  indexedAt: integer('indexed_at', { mode: 'timestamp' }),
+  review: text('review'), // JSON list of low-confidence OCR text held for admin review
+  reviewedBy: integer('reviewed_by').references(() => users.id),
+  reviewedAt: integer('reviewed_at', { mode: 'timestamp' }),
+  // SOPs last parsed from the file (JSON) and the file's sha256 at the time, so rebuilds
+  // only re-parse (and re-OCR) files that changed
+  fileHash: text('file_hash'),
+  parsed: text('parsed'),
+});
+
+// Background jobs (index rebuilds) with progress, so long work doesn't block requests
+export const jobs = sqliteTable('jobs', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  type: text('type').notNull(), // e.g. 'rebuild-index'
+  status: text('status').notNull().default('queued'), // 'queued', 'running', 'completed', 'failed' or 'cancelled'
+  params: text('params'), // JSON
+  stage: text('stage'), // human-readable description of the current step
+  processed: integer('processed').notNull().default(0),
+  total: integer('total').notNull().default(0),
+  error: text('error'),
+  cancelRequested: integer('cancel_requested', { mode: 'boolean' }).notNull().default(false),
+  createdBy: integer('created_by').references(() => users.id),
+  createdAt: integer('created_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
+  startedAt: integer('started_at', { mode: 'timestamp' }),
+  finishedAt: integer('finished_at', { mode: 'timestamp' }),
+});
+
+// Every distinct revision of each SOP; the current one has no effectiveTo
+export const sopVersions = sqliteTable('sop_versions', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  sopId: text('sop_id').notNull(),
+  version: integer('version').notNull(),
+  title: text('title').notNull(),
+  category: text('category').notNull(),
+  sourceFile: text('source_file').notNull(),
+  steps: text('steps').notNull(), // JSON SOPStep[]
+  contentHash: text('content_hash').notNull(),
+  uploadedBy: integer('uploaded_by').references(() => users.id),
+  effectiveFrom: integer('effective_from', { mode: 'timestamp' }).notNull(),
+  effectiveTo: integer('effective_to', { mode: 'timestamp' }),
+  createdAt: integer('created_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
+});
+
+// SOPs an admin has disabled or deleted; rebuilds skip them so they don't come back.
+// A deletion applies to the content it removed (content_hash), not to the SOP id
+export const sopStatus = sqliteTable('sop_status', {
+  sopId: text('sop_id').primaryKey(),
+  status: text('status').notNull(), // 'disabled' or 'deleted'
+  title: text('title').notNull(),
+  sourceFile: text('source_file').notNull(),
+  documentId: integer('document_id'), // uploaded document the SOP came from, if any
+  contentHash: text('content_hash'),
+  updatedBy: integer('updated_by').references(() => users.id),
+  updatedAt: integer('updated_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
+});
+
+// Content hash of every chunk currently embedded in the vector store, so rebuilds
+// only re-embed what changed
+export const indexManifest = sqliteTable('index_manifest', {
+  chunkId: text('chunk_id').primaryKey(),
+  sopId: text('sop_id').notNull(),
+  contentHash: text('content_hash').notNull(),
+  indexedAt: integer('indexed_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
+});
+
 export const predefinedQuestions = sqliteTable('predefined_questions', {
   id: integer('id').primaryKey({ autoIncrement: true }),
   sourceFile: text('source_file').notNull(),
+  sopId: text('sop_id'), // SOP that answers the question; null if not tied to one
   question: text('question').notNull(),
   category: text('category'),
   createdAt: integer('created_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
 });
 
+// Vectors for the local (VECTOR_STORE=sqlite) backend, one row per record per collection
+export const vectorEmbeddings = sqliteTable('vector_embeddings', {
+  collection: text('collection').notNull(),
+  id: text('id').notNull(),
+  embedding: blob('embedding', { mode: 'buffer' }).notNull(), // Float32 little-endian
+  document: text('document'),
+  metadata: text('metadata'), // JSON object
+}, (table) => [primaryKey({ columns: [table.collection, table.id] })]);
+
+// Embeddings keyed by model and sha256 of the text, consulted before calling the provider
+export const embeddingCache = sqliteTable('embedding_cache', {
+  model: text('model').notNull(), // "<provider>:<embedding model>"
+  textHash: text('text_hash').notNull(),
+  embedding: blob('embedding', { mode: 'buffer' }).notNull(), // Float32 little-endian
+  createdAt: integer('created_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
+}, (table) => [primaryKey({ columns: [table.model, table.textHash] })]);
+
+// Post-processed answers to first-turn questions, reused for repeats and near-duplicates
+export const answerCache = sqliteTable('answer_cache', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  question: text('question').notNull(),
+  normalizedQuestion: text('normalized_question').notNull(),
+  scopeSopId: text('scope_sop_id'), // SOP the question was scoped to, null for all SOPs
+  embedding: blob('embedding', { mode: 'buffer' }).notNull(), // Float32 little-endian
+  answer: text('answer').notNull(),
+  confidence: integer('confidence').notNull(), // 0-100
+  sources: text('sources').notNull(), // JSON SOPSource[]
+  citations: text('citations').notNull(), // JSON Citation[]
+  unsupportedClaims: text('unsupported_claims').notNull(), // JSON ClaimCheck[]
+  procedure: text('procedure'), // JSON SOPProcedure, for "how do I" answers
+  hits: integer('hits').notNull().default(0),
+  createdAt: integer('created_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
+  lastHitAt: integer('last_hit_at', { mode: 'timestamp' }),
+});
+
+// SOPs a cached answer depends on; reindexing any of them drops the answer
+export const answerCacheSOPs = sqliteTable('answer_cache_sops', {
+  cacheId: integer('cache_id').notNull().references(() => answerCache.id),
+  sopId: text('sop_id').notNull(),
+}, (table) => [primaryKey({ columns: [table.cacheId, table.sopId] })]);
+
+// A user working through an SOP's steps, optionally for one transaction (order, folio, ticket...)
+export const sopRuns = sqliteTable('sop_runs', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  sopId: text('sop_id').notNull(),
+  sopVersion: integer('sop_version'), // version the steps were taken from
+  title: text('title').notNull(),
+  steps: text('steps').notNull(), // JSON SOPStep[] as they were when the run started
+  transactionRef: text('transaction_ref'),
+  userId: integer('user_id').notNull().references(() => users.id),
+  status: text('status').notNull(), // 'in_progress', 'completed' or 'abandoned'
+  startedAt: integer('started_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
+  updatedAt: integer('updated_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
+  completedAt: integer('completed_at', { mode: 'timestamp' }),
+});
+
+// Progress on each step of a run; rows exist once a step has been touched
+export const sopRunSteps = sqliteTable('sop_run_steps', {
+  runId: integer('run_id').notNull().references(() => sopRuns.id),
+  stepOrder: integer('step_order').notNull(),
+  completed: integer('completed', { mode: 'boolean' }).notNull().default(false),
+  notes: text('notes'),
+  referenceNumber: text('reference_number'),
+  updatedBy: integer('updated_by').references(() => users.id),
+  updatedAt: integer('updated_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
+  completedAt: integer('completed_at', { mode: 'timestamp' }),
+}, (table) => [primaryKey({ columns: [table.runId, table.stepOrder] })]);
+
+// Audit trail of every change to a run
+export const sopRunEvents = sqliteTable('sop_run_events', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  runId: integer('run_id').notNull().references(() => sopRuns.id),
+  userId: integer('user_id').notNull().references(() => users.id),
+  action: text('action').notNull(), // 'started', 'resumed', 'step_checked', 'step_unchecked', 'step_updated', 'completed', 'abandoned', 'reopened'
+  stepOrder: integer('step_order'),
+  detail: text('detail'), // JSON of the changed fields
+  createdAt: integer('created_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
+});
+
 export const db = drizzle(sqlite);
 
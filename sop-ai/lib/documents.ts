@@ -0,0 +1,248 @@
+/**
+ * Managed document store for uploaded SOP files
+ * Uploads are saved under uploads/ and registered in the documents table;
+ * rebuildIndex parses every registered document and records its ingestion status.
+ * Parsed SOPs are kept with the file's hash, so an unchanged file isn't parsed again.
+ * Scans whose OCR is unsure of some text are held for admin review before indexing.
+ */
+
+import * as fs from 'fs';
+import { createHash } from 'crypto';
+import * as path from 'path';
+import { desc, eq, inArray } from 'drizzle-orm';
+import { db, documents, sopStatus } from './db';
+import type { SOPDocument } from '../scripts/parse-sop';
+import { OCR_REVIEW_CONFIDENCE } from '../scripts/ocr';
+
+export const UPLOAD_DIR = path.join(process.cwd(), 'uploads');
+
+export type DocumentStatus = 'pending' | 'processing' | 'indexed' | 'needs_review' | 'failed' | 'disabled';
+
+// A step whose OCR'd text is likely misread
+export interface OCRReviewItem {
+  sopId: string;
+  title: string;
+  step: number;
+  page?: number;
+  text: string;
+  confidence: number;
+}
+
+export async function registerDocument(options: {
+  fileName: string;
+  storedPath: string;
+  fileSize: number;
+  uploadedBy: number;
+}): Promise<number> {
+  const inserted = await db
+    .insert(documents)
+    .values({ ...options, status: 'pending', uploadedAt: new Date() })
+    .returning({ id: documents.id });
+  return inserted[0].id;
+}
+
+export async function listDocuments() {
+  return db.select().from(documents).orderBy(desc(documents.uploadedAt), desc(documents.id));
+}
+
+async function setStatus(
+  ids: number[],
+  status: DocumentStatus,
+  fields: { error?: string | null; indexedAt?: Date; review?: string | null } = {}
+): Promise<void> {
+  if (ids.length === 0) return;
+  await db
+    .update(documents)
+    .set({ status, ...fields })
+    .where(inArray(documents.id, ids));
+}
+
+export async function getDocument(documentId: number) {
+  const result = await db.select().from(documents).where(eq(documents.id, documentId)).limit(1);
+  return result[0] || null;
+}
+
+/**
+ * Identity of a source file: its name ignoring case, spaces and punctuation, so
+ * "S4 - SOPs - MF Transactions.xlsx" is the same source as "S4_-_SOPs_-_MF_Transactions.xlsx".
+ */
+export function sourceKey(fileName: string): string {
+  return fileName.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '');
+}
+
+/**
+ * Name the parser records as sourceFile for SOPs from this document: the name it was
+ * uploaded under, not the timestamped name it's stored as.
+ */
+export function getDocumentSourceFile(doc: { fileName: string }): string {
+  return doc.fileName;
+}
+
+/**
+ * Disabled documents stay on disk but are left out of the index until re-enabled.
+ */
+export async function setDocumentEnabled(documentId: number, enabled: boolean): Promise<void> {
+  await setStatus([documentId], enabled ? 'pending' : 'disabled', { error: null });
+}
+
+/**
+ * Steps read by OCR with a confidence below OCR_REVIEW_CONFIDENCE.
+ */
+export function findLowConfidenceSteps(docs: SOPDocument[]): OCRReviewItem[] {
+  return docs.flatMap(doc => doc.steps
+    .filter(step => step.ocrConfidence !== undefined && step.ocrConfidence < OCR_REVIEW_CONFIDENCE)
+    .map(step => ({
+      sopId: doc.id,
+      title: doc.title,
+      step: step.order,
+      ...(step.page !== undefined && { page: step.page }),
+      text: step.task,
+      confidence: step.ocrConfidence!,
+    })));
+}
+
+/**
+ * Accept a held document's OCR text so the next rebuild indexes it.
+ * Returns false if the document isn't waiting for review.
+ */
+export async function approveDocumentReview(documentId: number, userId: number): Promise<boolean> {
+  const doc = await getDocument(documentId);
+  if (!doc || doc.status !== 'needs_review') return false;
+
+  await db
+    .update(documents)
+    .set({ status: 'pending', reviewedBy: userId, reviewedAt: new Date() })
+    .where(eq(documents.id, documentId));
+  return true;
+}
+
+/**
+ * Remove the document record and its stored file.
+ */
+export async function deleteDocumentRecord(documentId: number): Promise<void> {
+  const doc = await getDocument(documentId);
+  if (!doc) return;
+
+  await db.delete(documents).where(eq(documents.id, documentId));
+  try {
+    if (fs.existsSync(doc.storedPath)) {
+      fs.unlinkSync(doc.storedPath);
+    }
+  } catch (error) {
+    console.error(`[DOCUMENTS] Failed to remove ${doc.storedPath}:`, error);
+  }
+}
+
+/**
+ * Remove earlier uploads of the same source (see sourceKey) once a newer one is indexed,
+ * so an updated file replaces the old one instead of being indexed alongside it. Until
+ * then the old upload stays indexed, e.g. while the new one fails to parse or waits for
+ * OCR review. Statuses recorded against the old upload's SOPs move to the new one.
+ */
+async function replaceEarlierUploads(documentId: number): Promise<void> {
+  const doc = await getDocument(documentId);
+  if (!doc) return;
+
+  const key = sourceKey(doc.fileName);
+  const earlier = (await listDocuments()).filter(other => other.id < documentId && sourceKey(other.fileName) === key);
+  for (const { id } of earlier) {
+    await db.update(sopStatus).set({ documentId }).where(eq(sopStatus.documentId, id));
+    await deleteDocumentRecord(id);
+  }
+  if (earlier.length > 0) {
+    console.log(`[DOCUMENTS] ${doc.fileName} replaces ${earlier.length} earlier upload(s)`);
+  }
+}
+
+/**
+ * SOPs of a registered document: the ones parsed last time if the file hasn't changed
+ * since (unless `reparse`), otherwise freshly parsed and kept for next time.
+ */
+async function parseDocumentFile(
+  doc: typeof documents.$inferSelect,
+  parseFile: (filePath: string, fileName: string) => Promise<SOPDocument[]>,
+  reparse: boolean
+): Promise<SOPDocument[]> {
+  const fileHash = createHash('sha256').update(fs.readFileSync(doc.storedPath)).digest('hex');
+  if (!reparse && doc.parsed && doc.fileHash === fileHash) {
+    return JSON.parse(doc.parsed) as SOPDocument[];
+  }
+
+  const fileDocs = await parseFile(doc.storedPath, getDocumentSourceFile(doc));
+  await db
+    .update(documents)
+    .set({ fileHash, parsed: JSON.stringify(fileDocs) })
+    .where(eq(documents.id, doc.id));
+  return fileDocs;
+}
+
+/**
+ * Parse every enabled registered document. Documents that fail to parse (or whose file is
+ * missing) are marked failed and skipped so one bad upload doesn't block the rebuild.
+ * Documents with low-confidence OCR text that no admin has approved yet are marked
+ * needs_review and left out until they are.
+ * Documents are parsed oldest first, so a re-uploaded file comes after the one it updates.
+ * Returns the parsed SOPs, the ids of the documents that contributed to them and who
+ * uploaded each source file.
+ */
+export async function parseRegisteredDocuments(
+  parseFile: (filePath: string, fileName: string) => Promise<SOPDocument[]>,
+  options: { reparse?: boolean } = {}
+): Promise<{
+  docs: SOPDocument[];
+  parsed: { id: number; sopCount: number }[];
+  uploaders: Map<string, number | null>;
+}> {
+  const registered = (await listDocuments())
+    .filter(doc => doc.status !== 'disabled')
+    .reverse();
+  const docs: SOPDocument[] = [];
+  const parsed: { id: number; sopCount: number }[] = [];
+  const uploaders = new Map<string, number | null>();
+
+  for (const doc of registered) {
+    await setStatus([doc.id], 'processing', { error: null });
+
+    try {
+      if (!fs.existsSync(doc.storedPath)) {
+        throw new Error('Uploaded file is missing from disk');
+      }
+      const fileDocs = (await parseDocumentFile(doc, parseFile, options.reparse ?? false))
+        .map(sop => ({ ...sop, documentId: doc.id }));
+      if (fileDocs.length === 0) {
+        throw new Error('No SOPs found in file');
+      }
+      const flagged = findLowConfidenceSteps(fileDocs);
+      if (flagged.length > 0 && !doc.reviewedAt) {
+        console.warn(`[DOCUMENTS] Holding ${doc.fileName} for review: ${flagged.length} low-confidence OCR step(s)`);
+        await setStatus([doc.id], 'needs_review', { review: JSON.stringify(flagged) });
+        continue;
+      }
+      docs.push(...fileDocs);
+      parsed.push({ id: doc.id, sopCount: fileDocs.length });
+      uploaders.set(getDocumentSourceFile(doc), doc.uploadedBy);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`[DOCUMENTS] Failed to parse ${doc.fileName}:`, message);
+      await setStatus([doc.id], 'failed', { error: message });
+    }
+  }
+
+  console.log(`[DOCUMENTS] Parsed ${parsed.length}/${registered.length} uploaded documents`);
+  return { docs, parsed, uploaders };
+}
+
+export async function markDocumentsIndexed(parsed: { id: number; sopCount: number }[]): Promise<void> {
+  const now = new Date();
+  for (const { id, sopCount } of parsed) {
+    await db
+      .update(documents)
+      .set({ status: 'indexed', error: null, sopCount, indexedAt: now })
+      .where(eq(documents.id, id));
+    await replaceEarlierUploads(id);
+  }
+}
+
+export async function markDocumentsFailed(ids: number[], error: string): Promise<void> {
+  await setStatus(ids, 'failed', { error });
+}
@@ -0,0 +1,59 @@
+/**
+ * Persistent embedding cache (embedding_cache table)
+ * Vectors are keyed by embedding model and a hash of the text, so re-indexing unchanged
+ * SOPs and repeated questions don't call the embedding provider again. The cache only
+ * saves work: if it can't be read or written, embedding carries on without it.
+ */
+
+import { createHash } from 'crypto';
+import { and, eq, inArray } from 'drizzle-orm';
+import { db, embeddingCache } from './db';
+import { decodeEmbedding, encodeEmbedding } from './vectorStore/sqlite';
+
+// Keys per query, well under SQLite's bound-parameter limit
+const LOOKUP_BATCH_SIZE = 500;
+
+export function hashText(text: string): string {
+  return createHash('sha256').update(text).digest('hex');
+}
+
+/**
+ * Cached vectors for the given text hashes, keyed by hash. Misses are simply absent.
+ */
+export async function getCachedEmbeddings(model: string, hashes: string[]): Promise<Map<string, number[]>> {
+  const found = new Map<string, number[]>();
+  const unique = Array.from(new Set(hashes));
+
+  try {
+    for (let i = 0; i < unique.length; i += LOOKUP_BATCH_SIZE) {
+      const rows = await db
+        .select({ textHash: embeddingCache.textHash, embedding: embeddingCache.embedding })
+        .from(embeddingCache)
+        .where(and(eq(embeddingCache.model, model), inArray(embeddingCache.textHash, unique.slice(i, i + LOOKUP_BATCH_SIZE))));
+      rows.forEach(row => found.set(row.textHash, Array.from(decodeEmbedding(row.embedding))));
+    }
+  } catch (error) {
+    console.warn('[EMBED CACHE] Lookup failed, embedding without the cache:', error instanceof Error ? error.message : error);
+  }
+
+  return found;
+}
+
+export async function cacheEmbeddings(model: string, entries: { hash: string; embedding: number[] }[]): Promise<void> {
+  if (entries.length === 0) return;
+
+  try {
+    const now = new Date();
+    await db
+      .insert(embeddingCache)
+      .values(entries.map(({ hash, embedding }) => ({
+        model,
+        textHash: hash,
+        embedding: encodeEmbedding(embedding),
+        createdAt: now,
+      })))
+      .onConflictDoNothing();
+  } catch (error) {
+    console.warn('[EMBED CACHE] Failed to store embeddings:', error instanceof Error ? error.message : error);
+  }
+}
@@ -3,6 +3,11 @@
  * Validates that LLM responses are grounded in the provided context
  */
 
+import { getEmbeddings } from './llm';
+import { tokenize } from './bm25';
+import { RESPONSE_STARTER } from './promptConstants';
+import { CITATION_PATTERN } from './citations';
+
 export interface GroundingResult {
   isGrounded: boolean;
   confidence: number;
@@ -91,3 +96,172 @@ export function isProperDecline(answer: string): boolean {
   const answerLower = answer.toLowerCase();
   return declinePhrases.some(phrase => answerLower.includes(phrase));
 }
+
+// A claim is supported when the blend of lexical and semantic support reaches this
+const SUPPORT_THRESHOLD = 0.55;
+// Without embeddings (Ollama unavailable), lexical overlap alone must reach this
+const LEXICAL_ONLY_THRESHOLD = 0.5;
+const LEXICAL_WEIGHT = 0.5;
+// Sentences with fewer content words ("See below.") aren't worth checking
+const MIN_CLAIM_TOKENS = 3;
+
+export interface ClaimCheck {
+  text: string;
+  // Character offsets of the claim in the answer
+  start: number;
+  end: number;
+  supported: boolean;
+  // Share of the claim's content words found in the best-matching chunk, 0-1
+  lexicalScore: number;
+  // Best cosine similarity to a retrieved chunk, or null if embeddings were unavailable
+  semanticScore: number | null;
+  // Retrieved chunk that supports the claim best
+  bestChunkId: string | null;
+}
+
+export interface ClaimVerification {
+  claims: ClaimCheck[];
+  unsupported: ClaimCheck[];
+  // Share of checked claims that are supported (1 when there was nothing to check)
+  supportedRatio: number;
+}
+
+/**
+ * Split an answer into checkable claims: one per sentence, list items counting as sentences.
+ * Offsets refer to the original answer so the UI can mark the exact span. Lead-in lines
+ * ending in a colon and decline sentences carry no claim and are left out.
+ */
+export function splitIntoClaims(answer: string): { text: string; start: number; end: number }[] {
+  const claims: { text: string; start: number; end: number }[] = [];
+  // Sentence breaks: end punctuation, whitespace, then a capital (so "Rs. 100" stays whole)
+  const sentenceBreak = /[.!?]+\s+(?=[A-Z"'(])/g;
+  let lineStart = 0;
+
+  const addClaim = (raw: string, offset: number) => {
+    const text = raw.trim();
+    if (!text || isProperDecline(text)) return;
+    const start = offset + raw.indexOf(text);
+    claims.push({ text, start, end: start + text.length });
+  };
+
+  for (const line of answer.split('\n')) {
+    if (line.trim() && !line.trim().endsWith(':')) {
+      // List numbering and bullets aren't part of the claim
+      const marker = line.match(/^\s*(?:\d+[.)]|[-*•])\s+/);
+      const bodyStart = marker ? marker[0].length : 0;
+      const body = line.slice(bodyStart);
+
+      let sentenceStart = 0;
+      for (const match of body.matchAll(sentenceBreak)) {
+        const end = (match.index ?? 0) + match[0].trimEnd().length;
+        addClaim(body.slice(sentenceStart, end), lineStart + bodyStart + sentenceStart);
+        sentenceStart = (match.index ?? 0) + match[0].length;
+      }
+      addClaim(body.slice(sentenceStart), lineStart + bodyStart + sentenceStart);
+    }
+    lineStart += line.length + 1;
+  }
+
+  return claims;
+}
+
+// Words of the claim to look for in the context: no citation markers or preamble
+function claimTokens(text: string): string[] {
+  const stripped = text
+    .replace(CITATION_PATTERN, ' ')
+    .replace(RESPONSE_STARTER.trim(), ' ');
+  return tokenize(stripped);
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / (Math.sqrt(normA) * Math.sqrt(normB)) : 0;
+}
+
+/**
+ * Check every sentence of an answer for support in the retrieved chunks, combining
+ * lexical overlap with embedding similarity. Falls back to lexical overlap alone if
+ * embeddings can't be computed.
+ */
+export async function verifyClaims(
+  answer: string,
+  chunks: { id: string; content: string }[]
+): Promise<ClaimVerification> {
+  const candidates = splitIntoClaims(answer)
+    .map(claim => ({ ...claim, tokens: claimTokens(claim.text) }))
+    .filter(claim => claim.tokens.length >= MIN_CLAIM_TOKENS);
+
+  if (candidates.length === 0 || chunks.length === 0) {
+    return { claims: [], unsupported: [], supportedRatio: 1 };
+  }
+
+  const chunkTokens = chunks.map(chunk => new Set(tokenize(chunk.content)));
+
+  // Most chunks are already cached from indexing; claim sentences are specific to this
+  // answer, so they're embedded without filling the persistent cache
+  let chunkEmbeddings: number[][] | null = null;
+  let claimEmbeddings: number[][] | null = null;
+  try {
+    chunkEmbeddings = await getEmbeddings(chunks.map(chunk => chunk.content));
+    claimEmbeddings = await getEmbeddings(candidates.map(claim => claim.text), { cache: false });
+  } catch (error) {
+    console.error('[GROUNDING] Embeddings unavailable, verifying claims lexically:', error);
+  }
+
+  const claims: ClaimCheck[] = [];
+  for (const [claimIdx, claim] of candidates.entries()) {
+    let lexicalScore = 0;
+    let lexicalBest = 0;
+    for (let i = 0; i < chunkTokens.length; i++) {
+      const overlap = claim.tokens.filter(token => chunkTokens[i].has(token)).length / claim.tokens.length;
+      if (overlap > lexicalScore) {
+        lexicalScore = overlap;
+        lexicalBest = i;
+      }
+    }
+
+    let semanticScore: number | null = null;
+    let semanticBest = lexicalBest;
+    if (chunkEmbeddings && claimEmbeddings) {
+      for (let i = 0; i < chunkEmbeddings.length; i++) {
+        const similarity = cosineSimilarity(claimEmbeddings[claimIdx], chunkEmbeddings[i]);
+        if (semanticScore === null || similarity > semanticScore) {
+          semanticScore = similarity;
+          semanticBest = i;
+        }
+      }
+    }
+
+    const supported = semanticScore === null
+      ? lexicalScore >= LEXICAL_ONLY_THRESHOLD
+      : LEXICAL_WEIGHT * lexicalScore + (1 - LEXICAL_WEIGHT) * semanticScore >= SUPPORT_THRESHOLD;
+
+    claims.push({
+      text: claim.text,
+      start: claim.start,
+      end: claim.end,
+      supported,
+      lexicalScore,
+      semanticScore,
+      bestChunkId: chunks[semanticScore === null ? lexicalBest : semanticBest].id,
+    });
+  }
+
+  const unsupported = claims.filter(claim => !claim.supported);
+  if (unsupported.length > 0) {
+    console.log(`[GROUNDING] ${unsupported.length}/${claims.length} claims unsupported by the retrieved SOPs`);
+  }
+
+  return {
+    claims,
+    unsupported,
+    supportedRatio: (claims.length - unsupported.length) / claims.length,
+  };
+}
@@ -0,0 +1,52 @@
+/**
+ * Index manifest
+ * Tracks a content hash per indexed chunk in SQLite so rebuildIndex can embed only
+ * new or changed chunks and delete vectors for chunks that no longer exist.
+ */
+
+import { createHash } from 'crypto';
+import { inArray } from 'drizzle-orm';
+import { db, indexManifest } from './db';
+import { chunkMetadata, type SOPChunk } from './chunker';
+
+/**
+ * Hash of everything stored in the vector index for a chunk (text and metadata),
+ * so a renamed SOP or reassigned role is re-indexed even if the step text is the same.
+ */
+export function hashChunk(chunk: SOPChunk): string {
+  return createHash('sha256')
+    .update(JSON.stringify({ content: chunk.content, metadata: chunkMetadata(chunk) }))
+    .digest('hex');
+}
+
+export async function loadManifest(): Promise<Map<string, string>> {
+  const rows = await db.select().from(indexManifest);
+  return new Map(rows.map(row => [row.chunkId, row.contentHash]));
+}
+
+export async function recordIndexedChunks(chunks: { chunk: SOPChunk; hash: string }[]): Promise<void> {
+  const now = new Date();
+  for (const { chunk, hash } of chunks) {
+    await db
+      .insert(indexManifest)
+      .values({ chunkId: chunk.id, sopId: chunk.sopId, contentHash: hash, indexedAt: now })
+      .onConflictDoUpdate({
+        target: indexManifest.chunkId,
+        set: { sopId: chunk.sopId, contentHash: hash, indexedAt: now },
+      });
+  }
+}
+
+export async function removeManifestEntries(chunkIds: string[]): Promise<void> {
+  if (chunkIds.length === 0) return;
+  await db.delete(indexManifest).where(inArray(indexManifest.chunkId, chunkIds));
+}
+
+export async function removeManifestEntriesForSOPs(sopIds: string[]): Promise<void> {
+  if (sopIds.length === 0) return;
+  await db.delete(indexManifest).where(inArray(indexManifest.sopId, sopIds));
+}
+
+export async function clearManifest(): Promise<void> {
+  await db.delete(indexManifest);
+}
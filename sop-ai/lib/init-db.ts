@@ -1,7 +1,15 @@
 import Database from 'better-sqlite3';
 import { sql } from 'drizzle-orm';
 
-const sqlite = new Database('sop-ai.db');
+const sqlite = new Database(process.env.DATABASE_PATH || 'sop-ai.db');
+
+// CREATE TABLE IF NOT EXISTS leaves existing tables alone, so columns added later need an ALTER
+function addColumnIfMissing(table: string, column: string, definition: string) {
+  const columns = sqlite.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[];
+  if (!columns.some(c => c.name === column)) {
+    sqlite.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
+}
 
 export async function initDatabase() {
   // Create tables if they don't exist using raw SQL
@@ -36,6 +44,68 @@ export async function initDatabase() {
       FOREIGN KEY (user_id) REFERENCES users(id)
     );
 
+    CREATE TABLE IF NOT EXISTS conversation_threads (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      user_id INTEGER NOT NULL,
+      title TEXT NOT NULL,
+      created_at INTEGER NOT NULL,
+      updated_at INTEGER NOT NULL,
+      FOREIGN KEY (user_id) REFERENCES users(id)
+    );
+
+    CREATE TABLE IF NOT EXISTS conversation_messages (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      thread_id INTEGER NOT NULL,
+      role TEXT NOT NULL,
+      content TEXT NOT NULL,
+      standalone_question TEXT,
+      confidence INTEGER,
+      created_at INTEGER NOT NULL,
+      FOREIGN KEY (thread_id) REFERENCES conversation_threads(id)
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_conversation_messages_thread ON conversation_messages(thread_id);
+
+    CREATE TABLE IF NOT EXISTS answer_sources (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      message_id INTEGER NOT NULL,
+      sop_id TEXT NOT NULL,
+      title TEXT NOT NULL,
+      version INTEGER,
+      steps TEXT NOT NULL,
+      FOREIGN KEY (message_id) REFERENCES conversation_messages(id)
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_answer_sources_message ON answer_sources(message_id);
+
+    CREATE TABLE IF NOT EXISTS answer_citations (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      message_id INTEGER NOT NULL,
+      marker INTEGER NOT NULL,
+      sop_id TEXT,
+      title TEXT,
+      version INTEGER,
+      steps TEXT NOT NULL,
+      pages TEXT,
+      valid INTEGER NOT NULL,
+      FOREIGN KEY (message_id) REFERENCES conversation_messages(id)
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_answer_citations_message ON answer_citations(message_id);
+
+    CREATE TABLE IF NOT EXISTS answer_claims (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      message_id INTEGER NOT NULL,
+      start_offset INTEGER NOT NULL,
+      end_offset INTEGER NOT NULL,
+      text TEXT NOT NULL,
+      lexical_score INTEGER NOT NULL,
+      semantic_score INTEGER,
+      FOREIGN KEY (message_id) REFERENCES conversation_messages(id)
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_answer_claims_message ON answer_claims(message_id);
+
     CREATE TABLE IF NOT EXISTS indexed_sops (
       id INTEGER PRIMARY KEY AUTOINCREMENT,
       source_file TEXT NOT NULL,
@@ -44,15 +114,192 @@ export async function initDatabase() {
       last_indexed INTEGER NOT NULL
     );
 
+    CREATE TABLE IF NOT EXISTS documents (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      file_name TEXT NOT NULL,
+      stored_path TEXT NOT NULL,
+      file_size INTEGER NOT NULL DEFAULT 0,
+      status TEXT NOT NULL DEFAULT 'pending',
+      error TEXT,
+      sop_count INTEGER NOT NULL DEFAULT 0,
+      uploaded_by INTEGER,
+      uploaded_at INTEGER NOT NULL,
+      indexed_at INTEGER,
+      review TEXT,
+      reviewed_by INTEGER,
+      reviewed_at INTEGER,
+      file_hash TEXT,
+      parsed TEXT,
+      FOREIGN KEY (uploaded_by) REFERENCES users(id),
+      FOREIGN KEY (reviewed_by) REFERENCES users(id)
+    );
+
+    CREATE TABLE IF NOT EXISTS jobs (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      type TEXT NOT NULL,
+      status TEXT NOT NULL DEFAULT 'queued',
+      params TEXT,
+      stage TEXT,
+      processed INTEGER NOT NULL DEFAULT 0,
+      total INTEGER NOT NULL DEFAULT 0,
+      error TEXT,
+      cancel_requested INTEGER NOT NULL DEFAULT 0,
+      created_by INTEGER,
+      created_at INTEGER NOT NULL,
+      started_at INTEGER,
+      finished_at INTEGER,
+      FOREIGN KEY (created_by) REFERENCES users(id)
+    );
+
+    CREATE TABLE IF NOT EXISTS sop_versions (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      sop_id TEXT NOT NULL,
+      version INTEGER NOT NULL,
+      title TEXT NOT NULL,
+      category TEXT NOT NULL,
+      source_file TEXT NOT NULL,
+      steps TEXT NOT NULL,
+      content_hash TEXT NOT NULL,
+      uploaded_by INTEGER,
+      effective_from INTEGER NOT NULL,
+      effective_to INTEGER,
+      created_at INTEGER NOT NULL,
+      FOREIGN KEY (uploaded_by) REFERENCES users(id),
+      UNIQUE (sop_id, version)
+    );
+
+    CREATE TABLE IF NOT EXISTS sop_status (
+      sop_id TEXT PRIMARY KEY,
+      status TEXT NOT NULL,
+      title TEXT NOT NULL,
+      source_file TEXT NOT NULL,
+      document_id INTEGER,
+      content_hash TEXT,
+      updated_by INTEGER,
+      updated_at INTEGER NOT NULL,
+      FOREIGN KEY (updated_by) REFERENCES users(id)
+    );
+
+    CREATE TABLE IF NOT EXISTS index_manifest (
+      chunk_id TEXT PRIMARY KEY,
+      sop_id TEXT NOT NULL,
+      content_hash TEXT NOT NULL,
+      indexed_at INTEGER NOT NULL
+    );
+
     CREATE TABLE IF NOT EXISTS predefined_questions (
       id INTEGER PRIMARY KEY AUTOINCREMENT,
       source_file TEXT NOT NULL,
+      sop_id TEXT,
       question TEXT NOT NULL,
       category TEXT,
       created_at INTEGER NOT NULL
     );
+
+    CREATE TABLE IF NOT EXISTS vector_embeddings (
+      collection TEXT NOT NULL,
+      id TEXT NOT NULL,
+      embedding BLOB NOT NULL,
+      document TEXT,
+      metadata TEXT,
+      PRIMARY KEY (collection, id)
+    );
+
+    CREATE TABLE IF NOT EXISTS embedding_cache (
+      model TEXT NOT NULL,
+      text_hash TEXT NOT NULL,
+      embedding BLOB NOT NULL,
+      created_at INTEGER NOT NULL,
+      PRIMARY KEY (model, text_hash)
+    );
+
+    CREATE TABLE IF NOT EXISTS answer_cache (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      question TEXT NOT NULL,
+      normalized_question TEXT NOT NULL,
+      scope_sop_id TEXT,
+      embedding BLOB NOT NULL,
+      answer TEXT NOT NULL,
+      confidence INTEGER NOT NULL,
+      sources TEXT NOT NULL,
+      citations TEXT NOT NULL,
+      unsupported_claims TEXT NOT NULL,
+      procedure TEXT,
+      hits INTEGER NOT NULL DEFAULT 0,
+      created_at INTEGER NOT NULL,
+      last_hit_at INTEGER
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_answer_cache_question ON answer_cache(normalized_question);
+
+    CREATE TABLE IF NOT EXISTS answer_cache_sops (
+      cache_id INTEGER NOT NULL,
+      sop_id TEXT NOT NULL,
+      PRIMARY KEY (cache_id, sop_id),
+      FOREIGN KEY (cache_id) REFERENCES answer_cache(id)
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_answer_cache_sops_sop ON answer_cache_sops(sop_id);
+
+    CREATE TABLE IF NOT EXISTS sop_runs (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      sop_id TEXT NOT NULL,
+      sop_version INTEGER,
+      title TEXT NOT NULL,
+      steps TEXT NOT NULL,
+      transaction_ref TEXT,
+      user_id INTEGER NOT NULL,
+      status TEXT NOT NULL,
+      started_at INTEGER NOT NULL,
+      updated_at INTEGER NOT NULL,
+      completed_at INTEGER,
+      FOREIGN KEY (user_id) REFERENCES users(id)
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_sop_runs_sop ON sop_runs(sop_id);
+    CREATE INDEX IF NOT EXISTS idx_sop_runs_user ON sop_runs(user_id);
+    CREATE INDEX IF NOT EXISTS idx_sop_runs_transaction ON sop_runs(transaction_ref);
+
+    CREATE TABLE IF NOT EXISTS sop_run_steps (
+      run_id INTEGER NOT NULL,
+      step_order INTEGER NOT NULL,
+      completed INTEGER NOT NULL DEFAULT 0,
+      notes TEXT,
+      reference_number TEXT,
+      updated_by INTEGER,
+      updated_at INTEGER NOT NULL,
+      completed_at INTEGER,
+      PRIMARY KEY (run_id, step_order),
+      FOREIGN KEY (run_id) REFERENCES sop_runs(id),
+      FOREIGN KEY (updated_by) REFERENCES users(id)
+    );
+
+    CREATE TABLE IF NOT EXISTS sop_run_events (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      run_id INTEGER NOT NULL,
+      user_id INTEGER NOT NULL,
+      action TEXT NOT NULL,
+      step_order INTEGER,
+      detail TEXT,
+      created_at INTEGER NOT NULL,
+      FOREIGN KEY (run_id) REFERENCES sop_runs(id),
+      FOREIGN KEY (user_id) REFERENCES users(id)
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_sop_run_events_run ON sop_run_events(run_id);
   `);
 
+  addColumnIfMissing('answer_cache', 'procedure', 'TEXT');
+  addColumnIfMissing('answer_citations', 'pages', 'TEXT');
+  addColumnIfMissing('predefined_questions', 'sop_id', 'TEXT');
+  addColumnIfMissing('sop_status', 'content_hash', 'TEXT');
+  addColumnIfMissing('sop_status', 'document_id', 'INTEGER');
+  addColumnIfMissing('documents', 'review', 'TEXT');
+  addColumnIfMissing('documents', 'reviewed_by', 'INTEGER REFERENCES users(id)');
+  addColumnIfMissing('documents', 'reviewed_at', 'INTEGER');
+  addColumnIfMissing('documents', 'file_hash', 'TEXT');
+  addColumnIfMissing('documents', 'parsed', 'TEXT');
+
   console.log('Database tables initialized');
 }
 
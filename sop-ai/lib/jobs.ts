@@ -0,0 +1,233 @@
+/**
+ * Background job queue
+ * Jobs are persisted in SQLite and run one at a time in-process, reporting progress
+ * as they go. Running jobs can be cancelled through an AbortSignal.
+ */
+
+import { and, asc, desc, eq } from 'drizzle-orm';
+import { db, jobs } from './db';
+import { rebuildIndex } from './chroma';
+
+export type JobType = 'rebuild-index';
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface JobProgress {
+  stage: string;
+  processed?: number;
+  total?: number;
+}
+
+export interface RebuildIndexJobParams {
+  sopFilePath?: string;
+  full?: boolean;
+}
+
+type JobRecord = typeof jobs.$inferSelect;
+
+type JobHandler = (
+  params: Record<string, unknown>,
+  context: {
+    signal: AbortSignal;
+    createdBy: number | null;
+    reportProgress: (progress: JobProgress) => Promise<void>;
+  }
+) => Promise<void>;
+
+const handlers: Record<JobType, JobHandler> = {
+  'rebuild-index': async (params, { signal, createdBy, reportProgress }) => {
+    const { sopFilePath, full } = params as RebuildIndexJobParams;
+    await rebuildIndex(sopFilePath, { full, signal, triggeredBy: createdBy, onProgress: reportProgress });
+  },
+};
+
+// Abort controllers for the job currently running in this process
+const runningControllers = new Map<number, AbortController>();
+let workerActive = false;
+// Set when a job is enqueued while the worker is busy, so it re-checks before exiting
+let queueDirty = false;
+let recovered = false;
+
+/**
+ * Jobs left 'running' by a previous server process can never finish; mark them failed.
+ * Queued jobs are kept and picked up by the worker.
+ */
+async function recoverInterruptedJobs(): Promise<void> {
+  if (recovered) return;
+  recovered = true;
+
+  await db
+    .update(jobs)
+    .set({ status: 'failed', error: 'Interrupted by server restart', finishedAt: new Date() })
+    .where(eq(jobs.status, 'running'));
+
+  processQueue().catch((error) => {
+    console.error('[JOBS] Worker error:', error);
+  });
+}
+
+export async function enqueueJob(type: JobType, params: Record<string, unknown>, createdBy?: number): Promise<number> {
+  await recoverInterruptedJobs();
+
+  const inserted = await db
+    .insert(jobs)
+    .values({
+      type,
+      status: 'queued',
+      params: JSON.stringify(params),
+      stage: 'Queued',
+      createdBy,
+      createdAt: new Date(),
+    })
+    .returning({ id: jobs.id });
+
+  const jobId = inserted[0].id;
+  console.log(`[JOBS] Enqueued ${type} job #${jobId}`);
+
+  // Kick the worker without waiting for the job to finish
+  processQueue().catch((error) => {
+    console.error('[JOBS] Worker error:', error);
+  });
+
+  return jobId;
+}
+
+export async function getJob(jobId: number): Promise<JobRecord | null> {
+  await recoverInterruptedJobs();
+  const result = await db.select().from(jobs).where(eq(jobs.id, jobId)).limit(1);
+  return result[0] || null;
+}
+
+export async function listJobs(limit: number = 20): Promise<JobRecord[]> {
+  await recoverInterruptedJobs();
+  return db.select().from(jobs).orderBy(desc(jobs.createdAt), desc(jobs.id)).limit(limit);
+}
+
+/**
+ * A job of this type that hasn't started yet. New requests can reuse it instead of
+ * stacking duplicate rebuilds, since it will pick up their changes when it runs.
+ */
+export async function getQueuedJob(type: JobType): Promise<JobRecord | null> {
+  await recoverInterruptedJobs();
+  const result = await db
+    .select()
+    .from(jobs)
+    .where(and(eq(jobs.type, type), eq(jobs.status, 'queued')))
+    .orderBy(asc(jobs.id))
+    .limit(1);
+  return result[0] || null;
+}
+
+/**
+ * Cancel a queued or running job. Returns false if the job has already finished.
+ */
+export async function cancelJob(jobId: number): Promise<boolean> {
+  const job = await getJob(jobId);
+  if (!job) return false;
+
+  if (job.status === 'queued') {
+    await db
+      .update(jobs)
+      .set({ status: 'cancelled', stage: 'Cancelled', finishedAt: new Date() })
+      .where(eq(jobs.id, jobId));
+    return true;
+  }
+
+  if (job.status === 'running') {
+    await db.update(jobs).set({ cancelRequested: true, stage: 'Cancelling...' }).where(eq(jobs.id, jobId));
+    runningControllers.get(jobId)?.abort();
+    return true;
+  }
+
+  return false;
+}
+
+async function runJob(job: JobRecord): Promise<void> {
+  const controller = new AbortController();
+  runningControllers.set(job.id, controller);
+
+  await db
+    .update(jobs)
+    .set({ status: 'running', stage: 'Starting', startedAt: new Date() })
+    .where(eq(jobs.id, job.id));
+
+  const reportProgress = async (progress: JobProgress) => {
+    if (controller.signal.aborted) return;
+    await db
+      .update(jobs)
+      .set({
+        stage: progress.stage,
+        ...(progress.processed !== undefined ? { processed: progress.processed } : {}),
+        ...(progress.total !== undefined ? { total: progress.total } : {}),
+      })
+      .where(eq(jobs.id, job.id));
+  };
+
+  try {
+    const params = job.params ? JSON.parse(job.params) : {};
+    await handlers[job.type as JobType](params, {
+      signal: controller.signal,
+      createdBy: job.createdBy,
+      reportProgress,
+    });
+
+    await db
+      .update(jobs)
+      .set({ status: 'completed', stage: 'Completed', finishedAt: new Date() })
+      .where(eq(jobs.id, job.id));
+    console.log(`[JOBS] Job #${job.id} completed`);
+  } catch (error) {
+    const cancelled = controller.signal.aborted;
+    await db
+      .update(jobs)
+      .set({
+        status: cancelled ? 'cancelled' : 'failed',
+        stage: cancelled ? 'Cancelled' : 'Failed',
+        error: cancelled ? null : error instanceof Error ? error.message : String(error),
+        finishedAt: new Date(),
+      })
+      .where(eq(jobs.id, job.id));
+    console.error(`[JOBS] Job #${job.id} ${cancelled ? 'cancelled' : 'failed'}:`, error);
+  } finally {
+    runningControllers.delete(job.id);
+  }
+}
+
+// Single worker: runs queued jobs oldest first until the queue is empty
+async function processQueue(): Promise<void> {
+  if (workerActive) {
+    queueDirty = true;
+    return;
+  }
+  workerActive = true;
+
+  try {
+    await recoverInterruptedJobs();
+
+    while (true) {
+      queueDirty = false;
+      const next = await db
+        .select()
+        .from(jobs)
+        .where(eq(jobs.status, 'queued'))
+        .orderBy(asc(jobs.id))
+        .limit(1);
+
+      if (next.length === 0) {
+        if (queueDirty) continue;
+        break;
+      }
+
+      if (!handlers[next[0].type as JobType]) {
+        await db
+          .update(jobs)
+          .set({ status: 'failed', error: `Unknown job type: ${next[0].type}`, finishedAt: new Date() })
+          .where(eq(jobs.id, next[0].id));
+        continue;
+      }
+
+      await runJob(next[0]);
+    }
+  } finally {
+    workerActive = false;
+  }
+}
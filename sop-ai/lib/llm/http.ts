@@ -0,0 +1,57 @@
+/**
+ * HTTP helpers shared by the LLM providers
+ */
+
+export async function postJSON(
+  url: string,
+  body: unknown,
+  options: { headers?: Record<string, string>; signal?: AbortSignal; timeoutMs?: number } = {}
+): Promise<Response> {
+  const signals: AbortSignal[] = [];
+  if (options.signal) signals.push(options.signal);
+  if (options.timeoutMs) signals.push(AbortSignal.timeout(options.timeoutMs));
+
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...options.headers },
+    body: JSON.stringify(body),
+    signal: signals.length > 0 ? AbortSignal.any(signals) : undefined,
+  });
+
+  if (!response.ok) {
+    const errorBody = await response.text().catch(() => '');
+    throw new Error(`LLM API error: ${response.status} - ${errorBody.substring(0, 500)}`);
+  }
+  return response;
+}
+
+/**
+ * Non-empty lines of a streamed response body, as they arrive.
+ */
+export async function* readLines(response: Response): AsyncGenerator<string> {
+  if (!response.body) {
+    throw new Error('LLM API returned an empty stream');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+
+      for (const line of lines) {
+        if (line.trim()) yield line;
+      }
+    }
+    if (buffer.trim()) yield buffer;
+  } finally {
+    reader.releaseLock();
+  }
+}
@@ -0,0 +1,192 @@
+/**
+ * LLM and embedding providers, selected by environment:
+ *   LLM_PROVIDER        ollama (default) | openai | llamacpp | mock
+ *   LLM_MODEL           model name (default qwen2.5:3b)
+ *   LLM_BASE_URL        server URL; Ollama falls back to OLLAMA_URL, llama.cpp to http://localhost:8080/v1
+ *   LLM_API_KEY         bearer token for OpenAI-compatible servers
+ *   LLM_CHAT_TEMPLATE   native | chatml | llama3 | mistral (default chatml for Ollama, native otherwise)
+ *   EMBEDDING_PROVIDER, EMBEDDING_MODEL, EMBEDDING_BASE_URL, EMBEDDING_API_KEY
+ *                       same for embeddings; provider defaults to LLM_PROVIDER, model to nomic-embed-text
+ */
+
+import { LLM_OPTIONS } from '../promptConstants';
+import { cacheEmbeddings, getCachedEmbeddings, hashText } from '../embeddingCache';
+import { createOllamaProvider } from './ollama';
+import { createOpenAICompatibleProvider } from './openai';
+import { createMockProvider } from './mock';
+import type { ChatMessage, ChatTemplateName, GenerationOptions, LLMProvider } from './types';
+
+export type { ChatMessage, ChatTemplateName, GenerationOptions, LLMProvider } from './types';
+
+export type ProviderName = 'ollama' | 'openai' | 'llamacpp' | 'mock';
+
+const PROVIDERS: ProviderName[] = ['ollama', 'openai', 'llamacpp', 'mock'];
+const TEMPLATES: ChatTemplateName[] = ['native', 'chatml', 'llama3', 'mistral'];
+
+const DEFAULT_MODEL = 'qwen2.5:3b';
+const DEFAULT_EMBEDDING_MODEL = 'nomic-embed-text';
+const GENERATION_TIMEOUT_MS = 120000;
+// Texts per provider embedBatch call
+const EMBED_BATCH_SIZE = 32;
+
+interface ProviderSettings {
+  provider: ProviderName;
+  baseUrl: string;
+  apiKey?: string;
+  model: string;
+  embeddingModel: string;
+  template: ChatTemplateName;
+}
+
+function parseProvider(value: string | undefined, variable: string): ProviderName | undefined {
+  if (!value) return undefined;
+  if (!PROVIDERS.includes(value as ProviderName)) {
+    throw new Error(`${variable} must be one of ${PROVIDERS.join(', ')} (got "${value}")`);
+  }
+  return value as ProviderName;
+}
+
+function defaultBaseUrl(provider: ProviderName, env: NodeJS.ProcessEnv): string {
+  switch (provider) {
+    case 'ollama':
+      return env.OLLAMA_URL || 'http://localhost:11434';
+    case 'llamacpp':
+      return 'http://localhost:8080/v1';
+    case 'openai':
+      throw new Error('LLM_BASE_URL is required for the openai provider (e.g. http://localhost:8001/v1)');
+    case 'mock':
+      return '';
+  }
+}
+
+export function getLLMSettings(env: NodeJS.ProcessEnv = process.env): { llm: ProviderSettings; embedding: ProviderSettings } {
+  const provider = parseProvider(env.LLM_PROVIDER, 'LLM_PROVIDER') || 'ollama';
+  const template = (env.LLM_CHAT_TEMPLATE || (provider === 'ollama' ? 'chatml' : 'native')) as ChatTemplateName;
+  if (!TEMPLATES.includes(template)) {
+    throw new Error(`LLM_CHAT_TEMPLATE must be one of ${TEMPLATES.join(', ')} (got "${template}")`);
+  }
+
+  const embeddingModel = env.EMBEDDING_MODEL || DEFAULT_EMBEDDING_MODEL;
+  const llm: ProviderSettings = {
+    provider,
+    baseUrl: (env.LLM_BASE_URL || defaultBaseUrl(provider, env)).replace(/\/+$/, ''),
+    apiKey: env.LLM_API_KEY,
+    model: env.LLM_MODEL || DEFAULT_MODEL,
+    embeddingModel,
+    template,
+  };
+
+  const embeddingProvider = parseProvider(env.EMBEDDING_PROVIDER, 'EMBEDDING_PROVIDER') || provider;
+  const sameServer = embeddingProvider === provider && !env.EMBEDDING_BASE_URL;
+  const embedding: ProviderSettings = {
+    ...llm,
+    provider: embeddingProvider,
+    baseUrl: sameServer
+      ? llm.baseUrl
+      : (env.EMBEDDING_BASE_URL || defaultBaseUrl(embeddingProvider, env)).replace(/\/+$/, ''),
+    apiKey: env.EMBEDDING_API_KEY || env.LLM_API_KEY,
+  };
+
+  return { llm, embedding };
+}
+
+export function createProvider(settings: ProviderSettings): LLMProvider {
+  const { provider, baseUrl, apiKey, model, embeddingModel, template } = settings;
+  switch (provider) {
+    case 'ollama':
+      return createOllamaProvider({ baseUrl, model, embeddingModel, template, timeoutMs: GENERATION_TIMEOUT_MS });
+    case 'openai':
+    case 'llamacpp':
+      return createOpenAICompatibleProvider({
+        name: provider,
+        baseUrl,
+        apiKey,
+        model,
+        embeddingModel,
+        template,
+        timeoutMs: GENERATION_TIMEOUT_MS,
+      });
+    case 'mock':
+      return createMockProvider();
+  }
+}
+
+let llmProvider: LLMProvider | null = null;
+let embeddingProvider: LLMProvider | null = null;
+
+function initProviders(): void {
+  const { llm, embedding } = getLLMSettings();
+  llmProvider = llmProvider || createProvider(llm);
+  embeddingProvider = embeddingProvider || createProvider(embedding);
+  console.log(`[LLM] Generation: ${llm.provider} (${llm.model}, template ${llm.template}) ${llm.baseUrl}`);
+  console.log(`[LLM] Embeddings: ${embedding.provider} (${embedding.embeddingModel}) ${embedding.baseUrl}`);
+}
+
+export function getLLMProvider(): LLMProvider {
+  if (!llmProvider) initProviders();
+  return llmProvider!;
+}
+
+export function getEmbeddingProvider(): LLMProvider {
+  if (!embeddingProvider) initProviders();
+  return embeddingProvider!;
+}
+
+/**
+ * Override the configured providers, e.g. with createMockProvider() in tests.
+ * Passing null goes back to the environment configuration.
+ */
+export function setLLMProviders(llm: LLMProvider | null, embedding: LLMProvider | null = llm): void {
+  llmProvider = llm;
+  embeddingProvider = embedding;
+}
+
+export async function getLLMResponse(messages: ChatMessage[], options: GenerationOptions = {}): Promise<string> {
+  return getLLMProvider().chat(messages, { ...LLM_OPTIONS, ...options });
+}
+
+export function streamLLMResponse(messages: ChatMessage[], signal?: AbortSignal): AsyncGenerator<string> {
+  return getLLMProvider().stream(messages, { ...LLM_OPTIONS, signal });
+}
+
+/**
+ * Embed texts through the embedding cache: cached vectors are reused, each distinct
+ * missing text is embedded once in provider batches, and new vectors are cached.
+ * Pass `cache: false` for one-off text (e.g. sentences of a generated answer) that
+ * shouldn't be stored.
+ */
+export async function getEmbeddings(texts: string[], options: { cache?: boolean } = {}): Promise<number[][]> {
+  const provider = getEmbeddingProvider();
+  const model = `${provider.name}:${provider.embeddingModel}`;
+  const hashes = texts.map(hashText);
+  const vectors = await getCachedEmbeddings(model, hashes);
+
+  const missing = new Map<string, string>();
+  texts.forEach((text, i) => {
+    if (!vectors.has(hashes[i])) missing.set(hashes[i], text);
+  });
+
+  const pending = Array.from(missing.entries());
+  for (let i = 0; i < pending.length; i += EMBED_BATCH_SIZE) {
+    const batch = pending.slice(i, i + EMBED_BATCH_SIZE);
+    const embedded = await provider.embedBatch(batch.map(([, text]) => text));
+    const entries = batch.map(([hash], j) => {
+      if (!embedded[j] || embedded[j].length === 0) {
+        throw new Error(`Empty embedding returned by ${model}`);
+      }
+      return { hash, embedding: embedded[j] };
+    });
+    if (options.cache !== false) await cacheEmbeddings(model, entries);
+    entries.forEach(({ hash, embedding }) => vectors.set(hash, embedding));
+  }
+
+  if (texts.length > 0) {
+    console.log(`[EMBED] ${texts.length} texts: ${texts.length - missing.size} cached, ${missing.size} embedded`);
+  }
+  return hashes.map(hash => vectors.get(hash)!);
+}
+
+export async function getEmbedding(text: string): Promise<number[]> {
+  const [embedding] = await getEmbeddings([text]);
+  return embedding;
+}
@@ -0,0 +1,79 @@
+/**
+ * Deterministic mock provider for development and tests without a model server
+ * Replies are derived from the prompt alone (same input, same output) and embeddings are
+ * hashed bags of words, so similar texts still land close together.
+ */
+
+import { createHash } from 'crypto';
+import { tokenize } from '../bm25';
+import { NO_INFO_RESPONSE } from '../promptConstants';
+import type { ChatMessage, LLMProvider } from './types';
+
+const EMBEDDING_DIMENSIONS = 256;
+
+export type MockResponder = (messages: ChatMessage[]) => string;
+
+/**
+ * Default replies, recognised from the prompts in promptConstants.ts:
+ * RAG questions get the first numbered context line with its citation, follow-up rewrites
+ * echo the follow-up, self-ratings get a fixed score and question generators a fixed list.
+ */
+export const defaultMockResponder: MockResponder = (messages) => {
+  const user = [...messages].reverse().find(m => m.role === 'user')?.content || '';
+
+  const contextLine = user.match(/^\[(\d+)\] (.+)$/m);
+  if (contextLine) {
+    return `${contextLine[2].replace(/[.\s]+$/, '')} [${contextLine[1]}].`;
+  }
+
+  const followUp = user.match(/^Follow-up question: (.+)$/m);
+  if (followUp) return followUp[1];
+
+  if (/reply with only a number/i.test(user)) return '0.8';
+  if (/json array/i.test(user)) return '["What are the steps of this procedure?"]';
+
+  return NO_INFO_RESPONSE;
+};
+
+function hashedEmbedding(text: string): number[] {
+  const vector = new Array(EMBEDDING_DIMENSIONS).fill(0);
+  for (const token of tokenize(text)) {
+    const hash = createHash('md5').update(token).digest();
+    vector[hash.readUInt32BE(0) % EMBEDDING_DIMENSIONS] += hash[4] % 2 === 0 ? 1 : -1;
+  }
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0)) || 1;
+  return vector.map(v => v / norm);
+}
+
+export function createMockProvider(respond: MockResponder = defaultMockResponder): LLMProvider {
+  const provider: LLMProvider = {
+    name: 'mock',
+    embeddingModel: 'hashed-bag-of-words',
+
+    async generate(prompt) {
+      return respond([{ role: 'user', content: prompt }]);
+    },
+
+    async chat(messages) {
+      return respond(messages);
+    },
+
+    async *stream(messages, options = {}) {
+      const reply = respond(messages);
+      for (const token of reply.split(/(?<=\s)/)) {
+        if (options.signal?.aborted) return;
+        yield token;
+      }
+    },
+
+    async embed(text) {
+      return hashedEmbedding(text);
+    },
+
+    async embedBatch(texts) {
+      return texts.map(hashedEmbedding);
+    },
+  };
+
+  return provider;
+}
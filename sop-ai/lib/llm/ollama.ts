@@ -0,0 +1,112 @@
+/**
+ * Ollama provider
+ * With a chat template, prompts are rendered here and sent raw to /api/generate; with the
+ * 'native' template, messages go to /api/chat and Ollama applies the model's own template.
+ */
+
+import { postJSON, readLines } from './http';
+import { renderChatTemplate, withoutPrefill, TEMPLATE_STOP_SEQUENCES } from './templates';
+import type { ChatMessage, ChatTemplateName, GenerationOptions, LLMProvider } from './types';
+
+export interface OllamaConfig {
+  baseUrl: string;
+  model: string;
+  embeddingModel: string;
+  template: ChatTemplateName;
+  timeoutMs: number;
+}
+
+// Parallel requests per embedBatch call
+const EMBED_CONCURRENCY = 4;
+
+function ollamaOptions(options: GenerationOptions, stop: string[]) {
+  return {
+    temperature: options.temperature,
+    top_p: options.topP,
+    repeat_penalty: options.repeatPenalty,
+    num_predict: options.maxTokens,
+    stop: [...stop, ...(options.stop || [])],
+  };
+}
+
+export function createOllamaProvider(config: OllamaConfig): LLMProvider {
+  const { baseUrl, model, embeddingModel, template, timeoutMs } = config;
+  const templateStops = template === 'native' ? [] : TEMPLATE_STOP_SEQUENCES[template];
+
+  const generateRequest = (prompt: string, options: GenerationOptions, stream: boolean) =>
+    postJSON(`${baseUrl}/api/generate`, {
+      model,
+      prompt,
+      raw: true,
+      stream,
+      options: ollamaOptions(options, templateStops),
+    }, { signal: options.signal, timeoutMs: stream ? undefined : timeoutMs });
+
+  const chatRequest = (messages: ChatMessage[], options: GenerationOptions, stream: boolean) =>
+    postJSON(`${baseUrl}/api/chat`, {
+      model,
+      messages: withoutPrefill(messages),
+      stream,
+      options: ollamaOptions(options, []),
+    }, { signal: options.signal, timeoutMs: stream ? undefined : timeoutMs });
+
+  const provider: LLMProvider = {
+    name: 'ollama',
+    embeddingModel,
+
+    async generate(prompt, options = {}) {
+      const data = await (await generateRequest(prompt, options, false)).json();
+      return data.response || '';
+    },
+
+    async chat(messages, options = {}) {
+      if (template !== 'native') {
+        return provider.generate(renderChatTemplate(template, messages), options);
+      }
+      const data = await (await chatRequest(messages, options, false)).json();
+      return data.message?.content || '';
+    },
+
+    // Ollama streams newline-delimited JSON, one { response | message, done } object per chunk
+    async *stream(messages, options = {}) {
+      const response = template === 'native'
+        ? await chatRequest(messages, options, true)
+        : await generateRequest(renderChatTemplate(template, messages), options, true);
+
+      for await (const line of readLines(response)) {
+        const chunk = JSON.parse(line);
+        if (chunk.error) {
+          throw new Error(`Ollama LLM error: ${chunk.error}`);
+        }
+        const text = chunk.response ?? chunk.message?.content;
+        if (text) yield text as string;
+        if (chunk.done) return;
+      }
+    },
+
+    async embed(text) {
+      const response = await postJSON(`${baseUrl}/api/embeddings`, { model: embeddingModel, prompt: text }, { timeoutMs: 30000 });
+      const data = await response.json();
+      if (!Array.isArray(data.embedding)) {
+        throw new Error(`Ollama returned no embedding for model ${embeddingModel}`);
+      }
+      return data.embedding;
+    },
+
+    // /api/embed takes a batch but returns normalized vectors, which would not match an index
+    // built with /api/embeddings, so batches are a few parallel single requests instead
+    async embedBatch(texts) {
+      const embeddings: number[][] = new Array(texts.length);
+      for (let i = 0; i < texts.length; i += EMBED_CONCURRENCY) {
+        const slice = texts.slice(i, i + EMBED_CONCURRENCY);
+        const vectors = await Promise.all(slice.map(text => provider.embed(text)));
+        vectors.forEach((vector, j) => {
+          embeddings[i + j] = vector;
+        });
+      }
+      return embeddings;
+    },
+  };
+
+  return provider;
+}
@@ -0,0 +1,121 @@
+/**
+ * OpenAI-compatible provider (vLLM, llama.cpp server, LM Studio, ...)
+ * With the 'native' template, messages go to /chat/completions and the server applies the
+ * model's template; otherwise prompts are rendered here and sent to /completions.
+ */
+
+import { postJSON, readLines } from './http';
+import { renderChatTemplate, withoutPrefill, TEMPLATE_STOP_SEQUENCES } from './templates';
+import type { ChatMessage, ChatTemplateName, GenerationOptions, LLMProvider } from './types';
+
+export interface OpenAICompatibleConfig {
+  name: string;
+  // Including the /v1 prefix, e.g. http://localhost:8080/v1
+  baseUrl: string;
+  apiKey?: string;
+  model: string;
+  embeddingModel: string;
+  template: ChatTemplateName;
+  timeoutMs: number;
+}
+
+function samplingParams(options: GenerationOptions, stop: string[]) {
+  const allStops = [...stop, ...(options.stop || [])];
+  return {
+    temperature: options.temperature,
+    top_p: options.topP,
+    max_tokens: options.maxTokens,
+    // Not part of the OpenAI API, but understood by vLLM and llama.cpp and ignored elsewhere
+    repetition_penalty: options.repeatPenalty,
+    ...(allStops.length > 0 ? { stop: allStops } : {}),
+  };
+}
+
+export function createOpenAICompatibleProvider(config: OpenAICompatibleConfig): LLMProvider {
+  const { name, baseUrl, apiKey, model, embeddingModel, template, timeoutMs } = config;
+  const headers: Record<string, string> = apiKey ? { Authorization: `Bearer ${apiKey}` } : {};
+  const templateStops = template === 'native' ? [] : TEMPLATE_STOP_SEQUENCES[template];
+
+  const request = (messages: ChatMessage[], options: GenerationOptions, stream: boolean) => {
+    const requestOptions = { headers, signal: options.signal, timeoutMs: stream ? undefined : timeoutMs };
+    if (template === 'native') {
+      return postJSON(`${baseUrl}/chat/completions`, {
+        model,
+        messages: withoutPrefill(messages),
+        stream,
+        ...samplingParams(options, []),
+      }, requestOptions);
+    }
+    return postJSON(`${baseUrl}/completions`, {
+      model,
+      prompt: renderChatTemplate(template, messages),
+      stream,
+      ...samplingParams(options, templateStops),
+    }, requestOptions);
+  };
+
+  const embedRequest = async (input: string[]): Promise<number[][]> => {
+    const response = await postJSON(`${baseUrl}/embeddings`, { model: embeddingModel, input }, { headers, timeoutMs: 30000 });
+    const data = await response.json();
+    const items: { index?: number; embedding?: number[] }[] = data.data || [];
+    // Servers are expected to keep input order, but the index field is authoritative
+    const embeddings = items
+      .map((item, i) => ({ index: item.index ?? i, embedding: item.embedding }))
+      .sort((a, b) => a.index - b.index)
+      .map(item => item.embedding);
+    if (embeddings.length !== input.length || !embeddings.every(Array.isArray)) {
+      throw new Error(`${name} returned no embedding for model ${embeddingModel}`);
+    }
+    return embeddings as number[][];
+  };
+
+  return {
+    name,
+    embeddingModel,
+
+    async generate(prompt, options = {}) {
+      const response = await postJSON(`${baseUrl}/completions`, {
+        model,
+        prompt,
+        stream: false,
+        ...samplingParams(options, templateStops),
+      }, { headers, signal: options.signal, timeoutMs });
+      const data = await response.json();
+      return data.choices?.[0]?.text || '';
+    },
+
+    async chat(messages, options = {}) {
+      const data = await (await request(messages, options, false)).json();
+      const choice = data.choices?.[0];
+      return choice?.message?.content ?? choice?.text ?? '';
+    },
+
+    // Server-sent events: "data: {json}" lines, terminated by "data: [DONE]"
+    async *stream(messages, options = {}) {
+      const response = await request(messages, options, true);
+
+      for await (const line of readLines(response)) {
+        if (!line.startsWith('data:')) continue;
+        const payload = line.slice(5).trim();
+        if (payload === '[DONE]') return;
+
+        const chunk = JSON.parse(payload);
+        if (chunk.error) {
+          throw new Error(`LLM API error: ${chunk.error.message || chunk.error}`);
+        }
+        const choice = chunk.choices?.[0];
+        const text = choice?.delta?.content ?? choice?.text;
+        if (text) yield text as string;
+      }
+    },
+
+    async embed(text) {
+      const [embedding] = await embedRequest([text]);
+      return embedding;
+    },
+
+    async embedBatch(texts) {
+      return texts.length > 0 ? embedRequest(texts) : [];
+    },
+  };
+}
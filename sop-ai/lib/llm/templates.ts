@@ -0,0 +1,78 @@
+/**
+ * Chat templates for backends that take a raw prompt
+ * A trailing assistant message is left open so the model continues it (response priming).
+ */
+
+import type { ChatMessage, ChatTemplateName } from './types';
+
+type RawTemplateName = Exclude<ChatTemplateName, 'native'>;
+
+// Sequences that end the assistant's turn in each template
+export const TEMPLATE_STOP_SEQUENCES: Record<RawTemplateName, string[]> = {
+  chatml: ['<|im_end|>', '<|im_start|>'],
+  llama3: ['<|eot_id|>'],
+  mistral: ['</s>', '[INST]'],
+};
+
+// Split off a trailing assistant message to use as the start of the reply
+function splitPrefill(messages: ChatMessage[]): { turns: ChatMessage[]; prefill: string | null } {
+  const last = messages[messages.length - 1];
+  if (last && last.role === 'assistant') {
+    return { turns: messages.slice(0, -1), prefill: last.content };
+  }
+  return { turns: messages, prefill: null };
+}
+
+// Qwen, Yi and most fine-tunes that use <|im_start|> markers
+function renderChatML(messages: ChatMessage[]): string {
+  const { turns, prefill } = splitPrefill(messages);
+  const body = turns.map(m => `<|im_start|>${m.role}\n${m.content}<|im_end|>\n`).join('');
+  return `${body}<|im_start|>assistant\n${prefill ?? ''}`;
+}
+
+function renderLlama3(messages: ChatMessage[]): string {
+  const { turns, prefill } = splitPrefill(messages);
+  const body = turns
+    .map(m => `<|start_header_id|>${m.role}<|end_header_id|>\n\n${m.content}<|eot_id|>`)
+    .join('');
+  return `<|begin_of_text|>${body}<|start_header_id|>assistant<|end_header_id|>\n\n${prefill ?? ''}`;
+}
+
+// Mistral has no system role: the system prompt is folded into the first instruction
+function renderMistral(messages: ChatMessage[]): string {
+  const { turns, prefill } = splitPrefill(messages);
+  const system = turns.filter(m => m.role === 'system').map(m => m.content).join('\n\n');
+  let pendingSystem = system;
+  let prompt = '<s>';
+
+  for (const message of turns) {
+    if (message.role === 'user') {
+      const content = pendingSystem ? `${pendingSystem}\n\n${message.content}` : message.content;
+      pendingSystem = '';
+      prompt += `[INST] ${content} [/INST]`;
+    } else if (message.role === 'assistant') {
+      prompt += ` ${message.content}</s>`;
+    }
+  }
+
+  return prefill ? `${prompt} ${prefill}` : prompt;
+}
+
+export function renderChatTemplate(template: RawTemplateName, messages: ChatMessage[]): string {
+  switch (template) {
+    case 'chatml':
+      return renderChatML(messages);
+    case 'llama3':
+      return renderLlama3(messages);
+    case 'mistral':
+      return renderMistral(messages);
+  }
+}
+
+/**
+ * Native chat endpoints can't be relied on to continue a trailing assistant message,
+ * so the prefill is dropped and the model writes its reply from scratch.
+ */
+export function withoutPrefill(messages: ChatMessage[]): ChatMessage[] {
+  return splitPrefill(messages).turns;
+}
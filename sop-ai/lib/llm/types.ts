@@ -0,0 +1,40 @@
+/**
+ * LLM provider interface
+ * Prompts are built as chat messages; each provider turns them into whatever its
+ * backend expects (a chat endpoint, or a raw prompt rendered with a chat template).
+ */
+
+export type ChatRole = 'system' | 'user' | 'assistant';
+
+export interface ChatMessage {
+  role: ChatRole;
+  content: string;
+}
+
+export interface GenerationOptions {
+  temperature?: number;
+  topP?: number;
+  repeatPenalty?: number;
+  maxTokens?: number;
+  // Extra stop sequences on top of the chat template's own
+  stop?: string[];
+  signal?: AbortSignal;
+}
+
+// How messages are turned into a prompt. 'native' leaves it to the server's chat endpoint.
+export type ChatTemplateName = 'native' | 'chatml' | 'llama3' | 'mistral';
+
+export interface LLMProvider {
+  readonly name: string;
+  // Model behind embed(); vectors from different models are not comparable
+  readonly embeddingModel: string;
+  // Raw completion of an already-templated prompt
+  generate(prompt: string, options?: GenerationOptions): Promise<string>;
+  // Reply to a conversation. A trailing assistant message is a prefill the reply continues.
+  chat(messages: ChatMessage[], options?: GenerationOptions): Promise<string>;
+  // Same as chat, yielding text as it is generated
+  stream(messages: ChatMessage[], options?: GenerationOptions): AsyncGenerator<string>;
+  embed(text: string): Promise<number[]>;
+  // One vector per text, in order
+  embedBatch(texts: string[]): Promise<number[][]>;
+}
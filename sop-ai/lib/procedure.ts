@@ -0,0 +1,81 @@
+/**
+ * Structured procedure answers
+ * "How do I..." questions that a single SOP clearly answers also get that SOP's steps,
+ * read straight from sop-entries.json with the responsible role, tools and template,
+ * so the UI can show a checklist instead of relying on the LLM's prose.
+ */
+
+import { loadSOPEntries } from './sopStore';
+import type { RetrievedDocument, SOPSource } from './retrieval';
+import type { SOPStep } from '../scripts/parse-sop';
+
+// Questions asking how to carry something out, rather than what/who/when
+const PROCEDURE_QUESTION = /^\s*(how\s+(do|does|can|should|would|to)\b|how\s+is\b.+\b(done|processed|handled)\b|what\s+(are|is)\s+the\s+(steps|process|procedure)\b|(steps|process|procedure)\s+(to|for)\b|walk\s+me\s+through\b)/i;
+
+// How much closer the SOP's best chunk must be than any other SOP's, relative to the other's
+// distance. Relative, because raw distances depend on the embedding model
+const MIN_MARGIN = 0.15;
+// Answer confidence below which the match isn't trusted, however clear the margin
+const MIN_CONFIDENCE = 0.5;
+
+export interface SOPProcedure {
+  sopId: string;
+  title: string;
+  category: string;
+  sourceFile: string;
+  // SOP version the steps were read from
+  version?: number;
+  steps: SOPStep[];
+}
+
+export function isProcedureQuestion(question: string): boolean {
+  return PROCEDURE_QUESTION.test(question);
+}
+
+/**
+ * The one SOP the retrieved chunks clearly point to, or null if none stands out from the rest.
+ * Only vector hits count; a scoped query already names its SOP.
+ */
+export function strongestSOPMatch(results: RetrievedDocument[], filterSopId?: string): string | null {
+  if (filterSopId) return filterSopId;
+
+  const bestBySop = new Map<string, number>();
+  for (const result of results) {
+    const sopId = result.metadata.sopId;
+    if (typeof sopId !== 'string' || !sopId || result.distance === null) continue;
+    bestBySop.set(sopId, Math.min(bestBySop.get(sopId) ?? Infinity, result.distance));
+  }
+
+  const [best, runnerUp] = Array.from(bestBySop.entries()).sort((a, b) => a[1] - b[1]);
+  if (!best) return null;
+  if (runnerUp && runnerUp[1] > 0 && (runnerUp[1] - best[1]) / runnerUp[1] < MIN_MARGIN) return null;
+  return best[0];
+}
+
+/**
+ * The structured procedure to return with an answer, or null when the question isn't
+ * procedural, no single SOP matches strongly, the answer is unconfident, or the SOP has no steps.
+ */
+export function findProcedure(
+  question: string,
+  results: RetrievedDocument[],
+  options: { confidence: number; filterSopId?: string; sources?: SOPSource[] }
+): SOPProcedure | null {
+  if (options.confidence < MIN_CONFIDENCE || !isProcedureQuestion(question)) return null;
+
+  const sopId = strongestSOPMatch(results, options.filterSopId);
+  if (!sopId) return null;
+
+  const doc = loadSOPEntries().find(entry => entry.id === sopId);
+  if (!doc || doc.steps.length === 0) return null;
+
+  console.log(`[PROCEDURE] Returning ${doc.steps.length} steps of "${doc.title}"`);
+  return {
+    sopId: doc.id,
+    title: doc.title,
+    category: doc.category,
+    sourceFile: doc.sourceFile,
+    version: options.sources?.find(source => source.sopId === sopId)?.version,
+    steps: [...doc.steps].sort((a, b) => a.order - b.order),
+  };
+}
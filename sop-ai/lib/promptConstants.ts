@@ -4,14 +4,16 @@
  */
 
 import { type Acronym } from './acronyms';
+import { type ConversationTurn } from './conversation';
+import type { ChatMessage, GenerationOptions } from './llm/types';
 
 // LLM Generation Options - tuned for factual Q&A
-export const LLM_OPTIONS = {
+export const LLM_OPTIONS: GenerationOptions = {
   temperature: 0.3,      // Low for factual accuracy
-  top_p: 0.9,            // Standard nucleus sampling
-  repeat_penalty: 1.1,   // Prevent repetition
-  num_predict: 512,      // Max tokens to generate
-} as const;
+  topP: 0.9,             // Standard nucleus sampling
+  repeatPenalty: 1.1,    // Prevent repetition
+  maxTokens: 512,        // Max tokens to generate
+};
 
 // System prompt for RAG queries
 export const SYSTEM_PROMPT = `You are an expert SOP (Standard Operating Procedure) assistant. Your goal is to provide accurate, actionable answers based strictly on the provided documentation.
@@ -24,7 +26,8 @@ CRITICAL INSTRUCTIONS:
    - For processes/steps: Use numbered lists (1., 2., 3.).
    - For lists of items: Use bullet points.
    - For direct questions: Answer directly and concisely.
-5. NO HALLUCINATIONS: Do not invent steps or policy details. Validating your answer against the context is required.`;
+5. NO HALLUCINATIONS: Do not invent steps or policy details. Validating your answer against the context is required.
+6. CITE YOUR SOURCES: Every line of the "SOP CONTEXT" starts with a number in brackets, e.g. [3]. End each sentence or list item with the number(s) of the lines it is based on, e.g. "... within 2 working days [3]." or "[3][4]". Only use numbers that appear in the context.`;
 
 // Response starter to prime grounded responses
 export const RESPONSE_STARTER = 'Based on the SOP documentation, ';
@@ -32,29 +35,69 @@ export const RESPONSE_STARTER = 'Based on the SOP documentation, ';
 // Fallback response when info isn't available
 export const NO_INFO_RESPONSE = 'This information is not available in the current SOPs.';
 
-// Build the full prompt template
+// Format prior conversation turns for prompt injection
+export function formatConversationHistory(history: ConversationTurn[]): string {
+  return history
+    .map(turn => `${turn.role === 'user' ? 'User' : 'Assistant'}: ${turn.content}`)
+    .join('\n');
+}
+
+// Build the full RAG prompt; the trailing assistant message primes a grounded response
+// (providers using a chat template continue it, native chat endpoints drop it)
 export function buildPrompt(
   acronymContext: string,
   sopContext: string,
-  question: string
-): string {
-  return `<|im_start|>system
-${SYSTEM_PROMPT}
-<|im_end|>
-<|im_start|>user
-=== ACRONYM REFERENCE ===
+  question: string,
+  history: ConversationTurn[] = []
+): ChatMessage[] {
+  const historySection = history.length > 0
+    ? `=== CONVERSATION SO FAR ===
+${formatConversationHistory(history)}
+
+`
+    : '';
+
+  return [
+    { role: 'system', content: SYSTEM_PROMPT },
+    {
+      role: 'user',
+      content: `=== ACRONYM REFERENCE ===
 ${acronymContext || 'No acronyms loaded.'}
 
 === SOP CONTEXT ===
 ${sopContext}
 
-=== QUESTION ===
+${historySection}=== QUESTION ===
 ${question}
 
-Provide your answer based ONLY on the context above:
-<|im_end|>
-<|im_start|>assistant
-${RESPONSE_STARTER}`;
+Provide your answer based ONLY on the context above:`,
+    },
+    { role: 'assistant', content: RESPONSE_STARTER },
+  ];
+}
+
+// Rewrite a follow-up question into a standalone query for retrieval
+export function buildStandaloneQuestionPrompt(
+  history: ConversationTurn[],
+  question: string
+): ChatMessage[] {
+  return [
+    {
+      role: 'system',
+      content: `You rewrite follow-up questions about Standard Operating Procedures into standalone questions.
+Resolve pronouns and references ("it", "that step", "step 4") using the conversation.
+Keep SOP names, acronyms and step numbers exactly as written. Do not answer the question.`,
+    },
+    {
+      role: 'user',
+      content: `Conversation:
+${formatConversationHistory(history)}
+
+Follow-up question: ${question}
+
+Reply with ONLY the standalone question:`,
+    },
+  ];
 }
 
 // Confidence assessment prompt
@@ -62,20 +105,19 @@ export function buildConfidencePrompt(
   question: string,
   answer: string,
   contextSnippet: string
-): string {
-  return `<|im_start|>system
-You evaluate answer quality. Rate from 0.0 to 1.0 only.
-<|im_end|>
-<|im_start|>user
-Question: ${question}
+): ChatMessage[] {
+  return [
+    { role: 'system', content: 'You evaluate answer quality. Rate from 0.0 to 1.0 only.' },
+    {
+      role: 'user',
+      content: `Question: ${question}
 Context: ${contextSnippet.substring(0, 400)}...
 Answer: ${answer.substring(0, 300)}
 
 Rate confidence (0.0-1.0). Consider: Does context support the answer? Is it complete?
-Reply with ONLY a number:
-<|im_end|>
-<|im_start|>assistant
-`;
+Reply with ONLY a number:`,
+    },
+  ];
 }
 
 // Format acronyms for prompt injection
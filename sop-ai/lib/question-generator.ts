@@ -1,7 +1,13 @@
-import { getLLMResponse, querySOPs } from './chroma';
+import { querySOPs } from './chroma';
+import { getLLMResponse } from './llm';
 import { db, predefinedQuestions } from './db';
 import { eq } from 'drizzle-orm';
 
+export interface PredefinedQuestion {
+  question: string;
+  sopId: string | null; // Top source of the validating answer
+}
+
 /**
  * Generate predefined questions for a document that are likely to yield >80% confidence
  * Now includes validation to ensure questions meet the confidence threshold
@@ -10,7 +16,7 @@ export async function generatePredefinedQuestions(
   sourceFile: string,
   documentContent: string[],
   category?: string
-): Promise<string[]> {
+): Promise<PredefinedQuestion[]> {
   try {
     // First, extract high-confidence questions from document structure
     const structureQuestions = extractHighConfidenceQuestions(documentContent, category);
@@ -25,7 +31,7 @@ export async function generatePredefinedQuestions(
     console.log(`Generated ${allQuestions.length} candidate questions for ${sourceFile}`);
     
     // Validate each question - test confidence and only keep those with >80%
-    const validatedQuestions: string[] = [];
+    const validatedQuestions: PredefinedQuestion[] = [];
     const MIN_CONFIDENCE = 0.8; // 80% threshold
     
     for (const question of allQuestions) {
@@ -35,7 +41,7 @@ export async function generatePredefinedQuestions(
         const confidence = result.confidence;
         
         if (confidence >= MIN_CONFIDENCE) {
-          validatedQuestions.push(question);
+          validatedQuestions.push({ question, sopId: result.sources[0]?.sopId ?? null });
           console.log(`✓ Question passed validation (${(confidence * 100).toFixed(1)}%): ${question.substring(0, 60)}...`);
         } else {
           console.log(`✗ Question failed validation (${(confidence * 100).toFixed(1)}%): ${question.substring(0, 60)}...`);
@@ -58,12 +64,12 @@ export async function generatePredefinedQuestions(
       
       for (const question of additionalQuestions) {
         if (validatedQuestions.length >= 8) break;
-        if (validatedQuestions.includes(question)) continue;
+        if (validatedQuestions.some(validated => validated.question === question)) continue;
         
         try {
           const result = await querySOPs(question);
           if (result.confidence >= MIN_CONFIDENCE) {
-            validatedQuestions.push(question);
+            validatedQuestions.push({ question, sopId: result.sources[0]?.sopId ?? null });
             console.log(`✓ Additional question passed: ${question.substring(0, 60)}...`);
           }
         } catch (error) {
@@ -77,7 +83,9 @@ export async function generatePredefinedQuestions(
   } catch (error) {
     console.error(`Error generating questions for ${sourceFile}:`, error);
     // Fallback to structure-based questions (without validation)
-    return extractHighConfidenceQuestions(documentContent, category).slice(0, 5);
+    return extractHighConfidenceQuestions(documentContent, category)
+      .slice(0, 5)
+      .map(question => ({ question, sopId: null }));
   }
 }
 
@@ -189,7 +197,7 @@ Bad examples (too vague):
 Return ONLY a JSON array of question strings, nothing else. Example format:
 ["What is the process for handling SIP orders?", "Who is responsible for validating client KYC documents?"]`;
 
-    const response = await getLLMResponse(prompt);
+    const response = await getLLMResponse([{ role: 'user', content: prompt }]);
 
     // Parse JSON from response
     let questions: string[] = [];
@@ -277,7 +285,7 @@ function extractQuestionsFromText(text: string): string[] {
  */
 export async function storePredefinedQuestions(
   sourceFile: string,
-  questions: string[],
+  questions: PredefinedQuestion[],
   category?: string
 ): Promise<void> {
   try {
@@ -285,9 +293,10 @@ export async function storePredefinedQuestions(
     await db.delete(predefinedQuestions).where(eq(predefinedQuestions.sourceFile, sourceFile));
 
     // Insert new questions
-    for (const question of questions) {
+    for (const { question, sopId } of questions) {
       await db.insert(predefinedQuestions).values({
         sourceFile,
+        sopId,
         question,
         category: category || null,
         createdAt: new Date(),
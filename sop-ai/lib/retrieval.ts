@@ -0,0 +1,184 @@
+/**
+ * Hybrid retrieval
+ * Fuses vector search with a local BM25 index over the same SOP step chunks
+ * using reciprocal rank fusion (RRF).
+ */
+
+import { expandQuery, mergeQueryResults, rerankResults } from './chroma';
+import { getEmbeddings } from './llm';
+import { getVectorStore, SOP_COLLECTION } from './vectorStore';
+import { buildBM25Index, searchBM25, type BM25Index } from './bm25';
+import { loadSOPEntries, getSOPEntriesVersion } from './sopStore';
+import { chunkSOPDocuments, chunkMetadata, stepsInRange, type SOPChunk } from './chunker';
+
+// RRF damping constant; 60 is the value from the original paper and works well without tuning
+const RRF_K = 60;
+
+// How many candidates each retriever contributes before fusion
+const CANDIDATE_MULTIPLIER = 3;
+
+export interface RetrievedDocument {
+  id: string;
+  content: string;
+  metadata: Record<string, unknown>;
+  // Vector distance, or null when the document was only matched lexically
+  distance: number | null;
+  // Fused RRF score (higher is better)
+  score: number;
+}
+
+// An SOP an answer drew on, with the steps of it that were retrieved
+export interface SOPSource {
+  sopId: string;
+  title: string;
+  steps: number[];
+  // SOP version the answer was generated from
+  version?: number;
+}
+
+export interface HybridSearchOptions {
+  nResults?: number;
+  filterSopId?: string;
+}
+
+let lexicalCache: { version: number; index: BM25Index; chunks: Map<string, SOPChunk> } | null = null;
+
+// The lexical index is rebuilt lazily whenever sop-entries.json changes on disk
+function getLexicalIndex(): { index: BM25Index; chunks: Map<string, SOPChunk> } {
+  const version = getSOPEntriesVersion();
+  if (lexicalCache && lexicalCache.version === version) {
+    return lexicalCache;
+  }
+
+  // Same chunking as rebuildIndex so lexical and vector hits share ids
+  const entries = loadSOPEntries();
+  const chunkList = chunkSOPDocuments(entries);
+  const chunks = new Map<string, SOPChunk>();
+  chunkList.forEach(chunk => chunks.set(chunk.id, chunk));
+
+  const index = buildBM25Index(chunkList.map(chunk => ({
+    id: chunk.id,
+    text: chunk.content,
+    metadata: chunkMetadata(chunk),
+  })));
+
+  lexicalCache = { version, index, chunks };
+  console.log(`[RETRIEVAL] Built lexical index over ${chunkList.length} chunks from ${entries.length} SOP documents`);
+  return lexicalCache;
+}
+
+export function invalidateLexicalIndex(): void {
+  lexicalCache = null;
+}
+
+/**
+ * Reciprocal rank fusion: score(d) = sum over rankings of 1 / (k + rank(d)).
+ * Rankings are lists of ids, best first.
+ */
+export function reciprocalRankFusion(rankings: string[][], k: number = RRF_K): Map<string, number> {
+  const scores = new Map<string, number>();
+  rankings.forEach(ranking => {
+    ranking.forEach((id, rank) => {
+      scores.set(id, (scores.get(id) || 0) + 1 / (k + rank + 1));
+    });
+  });
+  return scores;
+}
+
+async function vectorSearch(
+  queryVariations: string[],
+  nCandidates: number,
+  filterSopId?: string
+): Promise<{ ids: string[]; documents: string[]; metadatas: Record<string, unknown>[]; distances: number[] }> {
+  const store = getVectorStore();
+
+  const embeddings = await getEmbeddings(queryVariations);
+  const allQueryResults = await Promise.all(
+    embeddings.map(embedding =>
+      store.query(SOP_COLLECTION, embedding, {
+        nResults: nCandidates,
+        ...(filterSopId ? { where: { sopId: filterSopId } } : {}),
+      })
+    )
+  );
+
+  return mergeQueryResults(allQueryResults, nCandidates);
+}
+
+/**
+ * Retrieve the top SOP chunks for a query from both vector and lexical search.
+ */
+export async function hybridSearch(query: string, options: HybridSearchOptions = {}): Promise<RetrievedDocument[]> {
+  const nResults = options.nResults ?? 5;
+  const nCandidates = nResults * CANDIDATE_MULTIPLIER;
+
+  // Acronym/synonym variants feed both retrievers
+  const queryVariations = expandQuery(query);
+
+  const vector = await vectorSearch(queryVariations, nCandidates, options.filterSopId);
+
+  const lexical = getLexicalIndex();
+  const lexicalHits = searchBM25(
+    lexical.index,
+    queryVariations.join('\n'),
+    nCandidates,
+    options.filterSopId ? { sopId: options.filterSopId } : undefined
+  );
+
+  const fused = reciprocalRankFusion([vector.ids, lexicalHits.map(hit => hit.id)]);
+
+  const candidates = new Map<string, RetrievedDocument>();
+
+  vector.ids.forEach((id, i) => {
+    candidates.set(id, {
+      id,
+      content: vector.documents[i],
+      metadata: vector.metadatas[i] || {},
+      distance: vector.distances[i] ?? null,
+      score: fused.get(id) || 0,
+    });
+  });
+
+  lexicalHits.forEach(hit => {
+    if (candidates.has(hit.id)) return;
+    const chunk = lexical.chunks.get(hit.id);
+    if (!chunk) return;
+    candidates.set(hit.id, {
+      id: hit.id,
+      content: chunk.content,
+      metadata: hit.document.metadata,
+      distance: null,
+      score: fused.get(hit.id) || 0,
+    });
+  });
+
+  const results = rerankResults(query, Array.from(candidates.values()));
+
+  console.log(`[RETRIEVAL] Hybrid search: ${vector.ids.length} vector + ${lexicalHits.length} lexical candidates -> ${Math.min(results.length, nResults)} results`);
+
+  return results.slice(0, nResults);
+}
+
+/**
+ * Group retrieved chunks by SOP, in rank order, with the union of their step ranges.
+ */
+export function collectSources(results: RetrievedDocument[], limit: number = 3): SOPSource[] {
+  const bySop = new Map<string, SOPSource>();
+
+  for (const result of results) {
+    const sopId = result.metadata.sopId;
+    if (typeof sopId !== 'string' || !sopId) continue;
+
+    let source = bySop.get(sopId);
+    if (!source) {
+      if (bySop.size >= limit) continue;
+      source = { sopId, title: String(result.metadata.title || 'SOP Entry'), steps: [] };
+      bySop.set(sopId, source);
+    }
+
+    const steps = stepsInRange(Number(result.metadata.stepStart) || 0, Number(result.metadata.stepEnd) || 0);
+    source.steps = Array.from(new Set([...source.steps, ...steps])).sort((a, b) => a - b);
+  }
+
+  return Array.from(bySop.values());
+}
@@ -0,0 +1,173 @@
+/**
+ * Per-SOP and per-document lifecycle: disable, re-enable, delete and restore.
+ * Removing an SOP takes its vectors out of the vector store, its entry out of sop-entries.json,
+ * its manifest rows, cached answers and predefined questions, without a full rebuild.
+ * Deleting removes the SOP's current content: a later source with different content under
+ * the same title is indexed as usual.
+ */
+
+import { eq, inArray } from 'drizzle-orm';
+import { db, sopStatus, predefinedQuestions } from './db';
+import { syncIndexedSOPs } from './chroma';
+import { getVectorStore, SOP_COLLECTION } from './vectorStore';
+import { loadSOPEntries, saveSOPEntries } from './sopStore';
+import { invalidateLexicalIndex } from './retrieval';
+import { removeManifestEntriesForSOPs } from './indexManifest';
+import { invalidateAnswersForSOPs } from './answerCache';
+import { hashSOPDocument } from './sopVersions';
+import type { SOPDocument } from '../scripts/parse-sop';
+import {
+  getDocument,
+  setDocumentEnabled,
+  deleteDocumentRecord,
+} from './documents';
+
+export type SOPLifecycleStatus = 'disabled' | 'deleted';
+
+/**
+ * The SOPs a rebuild should index: disabled SOPs are left out, and so are deleted ones
+ * whose content hasn't changed since they were deleted. A deleted SOP that comes back with
+ * new content is no longer the one that was deleted, so its status is cleared.
+ */
+export async function filterExcludedSOPs(docs: SOPDocument[]): Promise<SOPDocument[]> {
+  const statuses = new Map((await db.select().from(sopStatus)).map(row => [row.sopId, row]));
+  const kept: SOPDocument[] = [];
+  const replaced: string[] = [];
+
+  for (const doc of docs) {
+    const status = statuses.get(doc.id);
+    if (!status) {
+      kept.push(doc);
+    } else if (status.status === 'deleted' && status.contentHash && status.contentHash !== hashSOPDocument(doc)) {
+      replaced.push(doc.id);
+      kept.push(doc);
+    }
+  }
+
+  if (replaced.length > 0) {
+    await db.delete(sopStatus).where(inArray(sopStatus.sopId, replaced));
+    console.log(`[LIFECYCLE] ${replaced.length} deleted SOP(s) came back with new content`);
+  }
+  return kept;
+}
+
+/**
+ * Disabled and deleted SOPs, for admins to re-enable or restore.
+ */
+export async function listExcludedSOPs() {
+  return db.select().from(sopStatus);
+}
+
+/**
+ * Remove SOPs from every store the index is built from. Returns how many were removed.
+ */
+async function removeSOPsFromIndex(sopIds: string[]): Promise<number> {
+  if (sopIds.length === 0) return 0;
+
+  const entries = loadSOPEntries();
+  const removed = entries.filter(doc => sopIds.includes(doc.id));
+  const remaining = entries.filter(doc => !sopIds.includes(doc.id));
+
+  await getVectorStore().delete(SOP_COLLECTION, { where: { sopId: { $in: sopIds } } });
+
+  await removeManifestEntriesForSOPs(sopIds);
+  await invalidateAnswersForSOPs(sopIds);
+  saveSOPEntries(remaining);
+  invalidateLexicalIndex();
+  await syncIndexedSOPs(remaining);
+
+  // Drop the predefined questions the removed SOPs answer, and the rest of a file's
+  // questions (those not tied to one SOP) once none of its SOPs are left
+  await db.delete(predefinedQuestions).where(inArray(predefinedQuestions.sopId, sopIds));
+  for (const sourceFile of new Set(removed.map(doc => doc.sourceFile))) {
+    if (!remaining.some(entry => entry.sourceFile === sourceFile)) {
+      await db.delete(predefinedQuestions).where(eq(predefinedQuestions.sourceFile, sourceFile));
+    }
+  }
+
+  console.log(`[LIFECYCLE] Removed ${removed.length} SOP(s) from the index`);
+  return removed.length;
+}
+
+/**
+ * Disable or delete a single SOP. Returns false if the SOP isn't currently indexed.
+ * Disabled SOPs stay out of future rebuilds, deleted ones until their content changes;
+ * either can be brought back with enableSOP.
+ */
+export async function setSOPStatus(sopId: string, status: SOPLifecycleStatus, userId: number): Promise<boolean> {
+  const doc = loadSOPEntries().find(entry => entry.id === sopId);
+  if (!doc) return false;
+
+  const now = new Date();
+  const contentHash = hashSOPDocument(doc);
+  await db
+    .insert(sopStatus)
+    .values({
+      sopId,
+      status,
+      title: doc.title,
+      sourceFile: doc.sourceFile,
+      documentId: doc.documentId ?? null,
+      contentHash,
+      updatedBy: userId,
+      updatedAt: now,
+    })
+    .onConflictDoUpdate({
+      target: sopStatus.sopId,
+      set: { status, documentId: doc.documentId ?? null, contentHash, updatedBy: userId, updatedAt: now },
+    });
+
+  await removeSOPsFromIndex([sopId]);
+  return true;
+}
+
+/**
+ * Re-enable a disabled SOP or restore a deleted one. It returns to the index on the next
+ * rebuild if its source still has it.
+ */
+export async function enableSOP(sopId: string): Promise<boolean> {
+  const deleted = await db
+    .delete(sopStatus)
+    .where(eq(sopStatus.sopId, sopId))
+    .returning({ sopId: sopStatus.sopId });
+  return deleted.length > 0;
+}
+
+// By document rather than file name: an upload can share its name with a built-in file
+async function removeDocumentSOPs(documentId: number): Promise<void> {
+  const sopIds = loadSOPEntries()
+    .filter(entry => entry.documentId === documentId)
+    .map(entry => entry.id);
+
+  await removeSOPsFromIndex(sopIds);
+}
+
+/**
+ * Disable an uploaded document: its SOPs leave the index but the file is kept.
+ * Re-enabling marks it pending; it returns to the index on the next rebuild.
+ */
+export async function setUploadedDocumentEnabled(documentId: number, enabled: boolean): Promise<boolean> {
+  const doc = await getDocument(documentId);
+  if (!doc) return false;
+
+  if (!enabled) {
+    await removeDocumentSOPs(documentId);
+  }
+  await setDocumentEnabled(documentId, enabled);
+  return true;
+}
+
+/**
+ * Delete an uploaded document, its stored file and everything indexed from it.
+ */
+export async function deleteUploadedDocument(documentId: number): Promise<boolean> {
+  const doc = await getDocument(documentId);
+  if (!doc) return false;
+
+  await removeDocumentSOPs(documentId);
+  // Statuses recorded against this document's SOPs no longer apply once it's gone
+  await db.delete(sopStatus).where(eq(sopStatus.documentId, documentId));
+
+  await deleteDocumentRecord(documentId);
+  return true;
+}
@@ -0,0 +1,330 @@
+/**
+ * Guided SOP runs
+ * A run is one user working through an SOP's steps, optionally for a specific transaction.
+ * Steps are snapshotted when the run starts so later SOP revisions don't change a run in
+ * progress, and every change is logged in sop_run_events for auditing.
+ */
+
+import { and, asc, desc, eq, isNull, type SQL } from 'drizzle-orm';
+import { db, sopRuns, sopRunSteps, sopRunEvents, users } from './db';
+import { loadSOPEntries } from './sopStore';
+import { getCurrentVersions } from './sopVersions';
+import type { SOPStep } from '../scripts/parse-sop';
+
+export type SOPRunStatus = 'in_progress' | 'completed' | 'abandoned';
+
+export type SOPRunAction =
+  | 'started'
+  | 'resumed'
+  | 'step_checked'
+  | 'step_unchecked'
+  | 'step_updated'
+  | 'completed'
+  | 'abandoned'
+  | 'reopened';
+
+export interface SOPRunStep extends SOPStep {
+  completed: boolean;
+  notes: string | null;
+  referenceNumber: string | null;
+  updatedBy: string | null;
+  completedAt: Date | null;
+}
+
+export interface SOPRunEvent {
+  action: SOPRunAction;
+  stepOrder: number | null;
+  detail: Record<string, unknown> | null;
+  user: string | null;
+  createdAt: Date;
+}
+
+export interface SOPRunSummary {
+  id: number;
+  sopId: string;
+  sopVersion: number | null;
+  title: string;
+  transactionRef: string | null;
+  userId: number;
+  userName: string | null;
+  status: SOPRunStatus;
+  completedSteps: number;
+  totalSteps: number;
+  startedAt: Date;
+  updatedAt: Date;
+  completedAt: Date | null;
+}
+
+export interface SOPRunDetail extends SOPRunSummary {
+  steps: SOPRunStep[];
+  events: SOPRunEvent[];
+}
+
+export interface SOPRunFilters {
+  sopId?: string;
+  userId?: number;
+  transactionRef?: string;
+  status?: SOPRunStatus;
+}
+
+export interface SOPRunStepUpdate {
+  completed?: boolean;
+  notes?: string | null;
+  referenceNumber?: string | null;
+}
+
+async function logEvent(
+  runId: number,
+  userId: number,
+  action: SOPRunAction,
+  stepOrder: number | null = null,
+  detail: Record<string, unknown> | null = null
+): Promise<void> {
+  await db.insert(sopRunEvents).values({
+    runId,
+    userId,
+    action,
+    stepOrder,
+    detail: detail ? JSON.stringify(detail) : null,
+  });
+}
+
+function selectRuns() {
+  return db
+    .select({
+      id: sopRuns.id,
+      sopId: sopRuns.sopId,
+      sopVersion: sopRuns.sopVersion,
+      title: sopRuns.title,
+      steps: sopRuns.steps,
+      transactionRef: sopRuns.transactionRef,
+      userId: sopRuns.userId,
+      userName: users.name,
+      status: sopRuns.status,
+      startedAt: sopRuns.startedAt,
+      updatedAt: sopRuns.updatedAt,
+      completedAt: sopRuns.completedAt,
+    })
+    .from(sopRuns)
+    .leftJoin(users, eq(sopRuns.userId, users.id));
+}
+
+type RunRow = Awaited<ReturnType<typeof selectRuns>>[number];
+
+async function loadRunSteps(row: RunRow): Promise<SOPRunStep[]> {
+  const progress = await db
+    .select({
+      stepOrder: sopRunSteps.stepOrder,
+      completed: sopRunSteps.completed,
+      notes: sopRunSteps.notes,
+      referenceNumber: sopRunSteps.referenceNumber,
+      updatedBy: users.name,
+      completedAt: sopRunSteps.completedAt,
+    })
+    .from(sopRunSteps)
+    .leftJoin(users, eq(sopRunSteps.updatedBy, users.id))
+    .where(eq(sopRunSteps.runId, row.id));
+  const byOrder = new Map(progress.map(p => [p.stepOrder, p]));
+
+  return (JSON.parse(row.steps) as SOPStep[]).map(step => {
+    const p = byOrder.get(step.order);
+    return {
+      ...step,
+      completed: p?.completed ?? false,
+      notes: p?.notes ?? null,
+      referenceNumber: p?.referenceNumber ?? null,
+      updatedBy: p?.updatedBy ?? null,
+      completedAt: p?.completedAt ?? null,
+    };
+  });
+}
+
+function toSummary(row: RunRow, steps: SOPRunStep[]): SOPRunSummary {
+  return {
+    id: row.id,
+    sopId: row.sopId,
+    sopVersion: row.sopVersion,
+    title: row.title,
+    transactionRef: row.transactionRef,
+    userId: row.userId,
+    userName: row.userName,
+    status: row.status as SOPRunStatus,
+    completedSteps: steps.filter(step => step.completed).length,
+    totalSteps: steps.length,
+    startedAt: row.startedAt,
+    updatedAt: row.updatedAt,
+    completedAt: row.completedAt,
+  };
+}
+
+async function findRunRow(runId: number): Promise<RunRow | null> {
+  const rows = await selectRuns().where(eq(sopRuns.id, runId)).limit(1);
+  return rows[0] ?? null;
+}
+
+/**
+ * A run with its steps merged with their progress, and its audit trail oldest first.
+ */
+export async function getSOPRun(runId: number): Promise<SOPRunDetail | null> {
+  const row = await findRunRow(runId);
+  if (!row) return null;
+
+  const steps = await loadRunSteps(row);
+  const events = await db
+    .select({
+      action: sopRunEvents.action,
+      stepOrder: sopRunEvents.stepOrder,
+      detail: sopRunEvents.detail,
+      user: users.name,
+      createdAt: sopRunEvents.createdAt,
+    })
+    .from(sopRunEvents)
+    .leftJoin(users, eq(sopRunEvents.userId, users.id))
+    .where(eq(sopRunEvents.runId, runId))
+    .orderBy(asc(sopRunEvents.id));
+
+  return {
+    ...toSummary(row, steps),
+    steps,
+    events: events.map(event => ({
+      ...event,
+      action: event.action as SOPRunAction,
+      detail: event.detail ? JSON.parse(event.detail) : null,
+    })),
+  };
+}
+
+/**
+ * Runs matching all given filters, most recently updated first.
+ */
+export async function listSOPRuns(filters: SOPRunFilters = {}): Promise<SOPRunSummary[]> {
+  const conditions: SQL[] = [];
+  if (filters.sopId) conditions.push(eq(sopRuns.sopId, filters.sopId));
+  if (filters.userId !== undefined) conditions.push(eq(sopRuns.userId, filters.userId));
+  if (filters.transactionRef) conditions.push(eq(sopRuns.transactionRef, filters.transactionRef));
+  if (filters.status) conditions.push(eq(sopRuns.status, filters.status));
+
+  const rows = await selectRuns()
+    .where(conditions.length > 0 ? and(...conditions) : undefined)
+    .orderBy(desc(sopRuns.updatedAt), desc(sopRuns.id));
+
+  const summaries: SOPRunSummary[] = [];
+  for (const row of rows) {
+    summaries.push(toSummary(row, await loadRunSteps(row)));
+  }
+  return summaries;
+}
+
+/**
+ * Start a run of an SOP, or resume the user's unfinished run of it for the same transaction.
+ * Returns null if the SOP isn't indexed or has no steps to run.
+ */
+export async function startSOPRun(
+  sopId: string,
+  userId: number,
+  transactionRef: string | null = null
+): Promise<{ run: SOPRunDetail; resumed: boolean } | null> {
+  const existing = await db
+    .select({ id: sopRuns.id })
+    .from(sopRuns)
+    .where(and(
+      eq(sopRuns.sopId, sopId),
+      eq(sopRuns.userId, userId),
+      eq(sopRuns.status, 'in_progress'),
+      transactionRef ? eq(sopRuns.transactionRef, transactionRef) : isNull(sopRuns.transactionRef)
+    ))
+    .orderBy(desc(sopRuns.updatedAt))
+    .limit(1);
+  if (existing[0]) {
+    await logEvent(existing[0].id, userId, 'resumed');
+    return { run: (await getSOPRun(existing[0].id))!, resumed: true };
+  }
+
+  const doc = loadSOPEntries().find(entry => entry.id === sopId);
+  if (!doc || doc.steps.length === 0) return null;
+
+  const versions = await getCurrentVersions([sopId]);
+  const [run] = await db
+    .insert(sopRuns)
+    .values({
+      sopId,
+      sopVersion: versions.get(sopId) ?? null,
+      title: doc.title,
+      steps: JSON.stringify([...doc.steps].sort((a, b) => a.order - b.order)),
+      transactionRef,
+      userId,
+      status: 'in_progress',
+    })
+    .returning({ id: sopRuns.id });
+
+  await logEvent(run.id, userId, 'started', null, transactionRef ? { transactionRef } : null);
+  console.log(`[SOP RUNS] User ${userId} started run ${run.id} of ${sopId}${transactionRef ? ` for ${transactionRef}` : ''}`);
+  return { run: (await getSOPRun(run.id))!, resumed: false };
+}
+
+/**
+ * Tick a step off (or back on) and/or record its notes and reference number.
+ * Returns false if the run has no such step.
+ */
+export async function updateSOPRunStep(
+  runId: number,
+  userId: number,
+  stepOrder: number,
+  update: SOPRunStepUpdate
+): Promise<boolean> {
+  const row = await findRunRow(runId);
+  if (!row || !(JSON.parse(row.steps) as SOPStep[]).some(step => step.order === stepOrder)) {
+    return false;
+  }
+
+  const [current] = await db
+    .select()
+    .from(sopRunSteps)
+    .where(and(eq(sopRunSteps.runId, runId), eq(sopRunSteps.stepOrder, stepOrder)));
+
+  const now = new Date();
+  const completed = update.completed ?? current?.completed ?? false;
+  const values = {
+    completed,
+    notes: update.notes !== undefined ? update.notes : current?.notes ?? null,
+    referenceNumber: update.referenceNumber !== undefined ? update.referenceNumber : current?.referenceNumber ?? null,
+    updatedBy: userId,
+    updatedAt: now,
+    completedAt: completed ? (current?.completed ? current.completedAt : now) : null,
+  };
+
+  await db
+    .insert(sopRunSteps)
+    .values({ runId, stepOrder, ...values })
+    .onConflictDoUpdate({ target: [sopRunSteps.runId, sopRunSteps.stepOrder], set: values });
+  await db.update(sopRuns).set({ updatedAt: now }).where(eq(sopRuns.id, runId));
+
+  if (update.completed !== undefined && update.completed !== (current?.completed ?? false)) {
+    await logEvent(runId, userId, update.completed ? 'step_checked' : 'step_unchecked', stepOrder);
+  }
+  const changed: Record<string, unknown> = {};
+  if (update.notes !== undefined && update.notes !== (current?.notes ?? null)) changed.notes = update.notes;
+  if (update.referenceNumber !== undefined && update.referenceNumber !== (current?.referenceNumber ?? null)) {
+    changed.referenceNumber = update.referenceNumber;
+  }
+  if (Object.keys(changed).length > 0) {
+    await logEvent(runId, userId, 'step_updated', stepOrder, changed);
+  }
+
+  return true;
+}
+
+/**
+ * Complete, abandon or reopen a run.
+ */
+export async function setSOPRunStatus(runId: number, userId: number, status: SOPRunStatus): Promise<void> {
+  const now = new Date();
+  await db
+    .update(sopRuns)
+    .set({ status, updatedAt: now, completedAt: status === 'completed' ? now : null })
+    .where(eq(sopRuns.id, runId));
+
+  const action: SOPRunAction = status === 'in_progress' ? 'reopened' : status;
+  await logEvent(runId, userId, action);
+  console.log(`[SOP RUNS] Run ${runId} ${action} by user ${userId}`);
+}
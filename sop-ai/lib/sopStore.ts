@@ -0,0 +1,44 @@
+/**
+ * Structured SOP store (sop_data/sop-entries.json)
+ * Written on every index rebuild and read by the knowledge base UI and lexical search
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type { SOPDocument } from '../scripts/parse-sop';
+
+export function getSOPEntriesPath(): string {
+  return path.join(process.cwd(), 'sop_data', 'sop-entries.json');
+}
+
+export function loadSOPEntries(): SOPDocument[] {
+  const dataPath = getSOPEntriesPath();
+  if (!fs.existsSync(dataPath)) {
+    return [];
+  }
+
+  try {
+    return JSON.parse(fs.readFileSync(dataPath, 'utf-8'));
+  } catch (error) {
+    console.error('[SOP STORE] Failed to read sop-entries.json:', error);
+    return [];
+  }
+}
+
+export function saveSOPEntries(docs: SOPDocument[]): void {
+  const dataPath = getSOPEntriesPath();
+  const dataDir = path.dirname(dataPath);
+  if (!fs.existsSync(dataDir)) {
+    fs.mkdirSync(dataDir, { recursive: true });
+  }
+  fs.writeFileSync(dataPath, JSON.stringify(docs, null, 2));
+}
+
+// Modification time of the store, used to invalidate in-memory indexes built from it
+export function getSOPEntriesVersion(): number {
+  try {
+    return fs.statSync(getSOPEntriesPath()).mtimeMs;
+  } catch {
+    return 0;
+  }
+}
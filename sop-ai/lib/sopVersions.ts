@@ -0,0 +1,236 @@
+/**
+ * SOP version history
+ * Every distinct revision of an SOPDocument is kept in sop_versions with its effective
+ * dates and uploader, so updated uploads never silently overwrite the old content.
+ */
+
+import { createHash } from 'crypto';
+import { and, desc, eq, inArray, isNull } from 'drizzle-orm';
+import { db, sopVersions, users } from './db';
+import type { SOPDocument, SOPStep } from '../scripts/parse-sop';
+
+export interface StepChange {
+  type: 'added' | 'removed' | 'changed';
+  before?: SOPStep;
+  after?: SOPStep;
+  // Fields that differ for 'changed' steps
+  fields: Array<'task' | 'role' | 'tools' | 'template'>;
+}
+
+export interface SOPVersionDiff {
+  titleChanged: boolean;
+  categoryChanged: boolean;
+  changes: StepChange[];
+  unchangedCount: number;
+}
+
+// Only what a reader of the SOP would see; order numbers alone don't make a new version
+export function hashSOPDocument(doc: SOPDocument): string {
+  return createHash('sha256')
+    .update(JSON.stringify({
+      title: doc.title,
+      category: doc.category,
+      steps: doc.steps.map(({ task, role, tools, template }) => ({ task, role, tools, template })),
+    }))
+    .digest('hex');
+}
+
+/**
+ * Record a new version for every SOP whose content changed since its latest version.
+ * The previous version's effective period ends when the new one starts; SOPs that are
+ * no longer present have their current version closed, and reopen it if they return
+ * unchanged.
+ * `uploaders` maps a source file to the user who uploaded it; other sources fall back
+ * to `defaultUploader` (whoever triggered the rebuild).
+ */
+export async function recordSOPVersions(
+  docs: SOPDocument[],
+  uploaders: Map<string, number | null> = new Map(),
+  defaultUploader: number | null = null
+): Promise<number> {
+  const now = new Date();
+  const current = await db.select().from(sopVersions).where(isNull(sopVersions.effectiveTo));
+  const currentBySop = new Map(current.map(v => [v.sopId, v]));
+  let created = 0;
+
+  for (const doc of docs) {
+    const hash = hashSOPDocument(doc);
+    const latest = currentBySop.get(doc.id);
+    currentBySop.delete(doc.id);
+
+    if (latest && latest.contentHash === hash) continue;
+
+    if (latest) {
+      await db.update(sopVersions).set({ effectiveTo: now }).where(eq(sopVersions.id, latest.id));
+    }
+
+    const previous = latest || (await db
+      .select({ id: sopVersions.id, version: sopVersions.version, contentHash: sopVersions.contentHash })
+      .from(sopVersions)
+      .where(eq(sopVersions.sopId, doc.id))
+      .orderBy(desc(sopVersions.version))
+      .limit(1))[0];
+
+    // An SOP that comes back unchanged (e.g. re-enabled) resumes its retired version
+    if (!latest && previous?.contentHash === hash) {
+      await db.update(sopVersions).set({ effectiveTo: null }).where(eq(sopVersions.id, previous.id));
+      continue;
+    }
+
+    await db.insert(sopVersions).values({
+      sopId: doc.id,
+      version: (previous?.version || 0) + 1,
+      title: doc.title,
+      category: doc.category,
+      sourceFile: doc.sourceFile,
+      steps: JSON.stringify(doc.steps),
+      contentHash: hash,
+      uploadedBy: uploaders.get(doc.sourceFile) ?? defaultUploader,
+      effectiveFrom: now,
+      createdAt: now,
+    });
+    created++;
+  }
+
+  // Whatever is left was removed from the sources
+  const retired = Array.from(currentBySop.values()).map(v => v.id);
+  if (retired.length > 0) {
+    await db.update(sopVersions).set({ effectiveTo: now }).where(inArray(sopVersions.id, retired));
+  }
+
+  console.log(`[VERSIONS] Recorded ${created} new SOP version(s), retired ${retired.length}`);
+  return created;
+}
+
+/**
+ * Source file of each SOP's latest version, current or retired: the source that owns the id.
+ */
+export async function getSOPVersionSources(): Promise<Map<string, string>> {
+  const rows = await db
+    .select({ sopId: sopVersions.sopId, sourceFile: sopVersions.sourceFile })
+    .from(sopVersions)
+    .orderBy(sopVersions.version);
+  return new Map(rows.map(row => [row.sopId, row.sourceFile]));
+}
+
+/**
+ * Current version number of each SOP, for tagging answers.
+ */
+export async function getCurrentVersions(sopIds: string[]): Promise<Map<string, number>> {
+  if (sopIds.length === 0) return new Map();
+  const rows = await db
+    .select({ sopId: sopVersions.sopId, version: sopVersions.version })
+    .from(sopVersions)
+    .where(and(inArray(sopVersions.sopId, sopIds), isNull(sopVersions.effectiveTo)));
+  return new Map(rows.map(row => [row.sopId, row.version]));
+}
+
+export async function listSOPVersions(sopId: string) {
+  return db
+    .select({
+      version: sopVersions.version,
+      title: sopVersions.title,
+      sourceFile: sopVersions.sourceFile,
+      effectiveFrom: sopVersions.effectiveFrom,
+      effectiveTo: sopVersions.effectiveTo,
+      uploadedBy: users.name,
+    })
+    .from(sopVersions)
+    .leftJoin(users, eq(sopVersions.uploadedBy, users.id))
+    .where(eq(sopVersions.sopId, sopId))
+    .orderBy(desc(sopVersions.version));
+}
+
+export async function getSOPVersion(sopId: string, version: number) {
+  const rows = await db
+    .select()
+    .from(sopVersions)
+    .where(and(eq(sopVersions.sopId, sopId), eq(sopVersions.version, version)))
+    .limit(1);
+  if (!rows[0]) return null;
+  return { ...rows[0], steps: JSON.parse(rows[0].steps) as SOPStep[] };
+}
+
+const normalizeTask = (task: string) => task.toLowerCase().replace(/\s+/g, ' ').trim();
+
+function changedFields(before: SOPStep, after: SOPStep): StepChange['fields'] {
+  const fields: StepChange['fields'] = [];
+  if (normalizeTask(before.task) !== normalizeTask(after.task)) fields.push('task');
+  if (before.role.trim() !== after.role.trim()) fields.push('role');
+  if (before.tools.trim() !== after.tools.trim()) fields.push('tools');
+  if (before.template.trim() !== after.template.trim()) fields.push('template');
+  return fields;
+}
+
+/**
+ * Step-level diff between two versions.
+ * Steps are aligned on identical task text (longest common subsequence), so inserting a
+ * step doesn't mark every later step as changed. Unaligned steps between two anchors are
+ * paired up as 'changed'; any surplus is 'added' or 'removed'.
+ */
+export function diffSOPSteps(
+  before: { title: string; category: string; steps: SOPStep[] },
+  after: { title: string; category: string; steps: SOPStep[] }
+): SOPVersionDiff {
+  const a = before.steps;
+  const b = after.steps;
+
+  // LCS table over normalized task text
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = normalizeTask(a[i].task) === normalizeTask(b[j].task)
+        ? lcs[i + 1][j + 1] + 1
+        : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const changes: StepChange[] = [];
+  let unchangedCount = 0;
+  let pendingRemoved: SOPStep[] = [];
+  let pendingAdded: SOPStep[] = [];
+
+  const flush = () => {
+    const paired = Math.min(pendingRemoved.length, pendingAdded.length);
+    for (let k = 0; k < paired; k++) {
+      changes.push({
+        type: 'changed',
+        before: pendingRemoved[k],
+        after: pendingAdded[k],
+        fields: changedFields(pendingRemoved[k], pendingAdded[k]),
+      });
+    }
+    pendingRemoved.slice(paired).forEach(step => changes.push({ type: 'removed', before: step, fields: [] }));
+    pendingAdded.slice(paired).forEach(step => changes.push({ type: 'added', after: step, fields: [] }));
+    pendingRemoved = [];
+    pendingAdded = [];
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && normalizeTask(a[i].task) === normalizeTask(b[j].task)) {
+      flush();
+      const fields = changedFields(a[i], b[j]);
+      if (fields.length > 0) {
+        changes.push({ type: 'changed', before: a[i], after: b[j], fields });
+      } else {
+        unchangedCount++;
+      }
+      i++;
+      j++;
+    } else if (j < b.length && (i >= a.length || lcs[i][j + 1] >= lcs[i + 1][j])) {
+      pendingAdded.push(b[j++]);
+    } else {
+      pendingRemoved.push(a[i++]);
+    }
+  }
+  flush();
+
+  return {
+    titleChanged: before.title !== after.title,
+    categoryChanged: before.category !== after.category,
+    changes,
+    unchangedCount,
+  };
+}
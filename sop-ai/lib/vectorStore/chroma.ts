@@ -0,0 +1,90 @@
+/**
+ * Chroma backend
+ * Embeddings are always supplied by the app, so collections are created without an
+ * embedding function.
+ */
+
+import type { ChromaClient, Collection, Where } from 'chromadb';
+import type { StoredVector, VectorMetadata, VectorStore } from './types';
+
+// Compared by name so it also matches when the ESM and CJS builds of chromadb are both loaded
+function isNotFound(error: unknown): boolean {
+  return error instanceof Error && error.name === 'ChromaNotFoundError';
+}
+
+export function createChromaVectorStore(client: ChromaClient): VectorStore {
+  // null when the collection doesn't exist
+  const openCollection = async (name: string): Promise<Collection | null> => {
+    try {
+      return await client.getCollection({ name });
+    } catch (error) {
+      if (isNotFound(error)) return null;
+      throw error;
+    }
+  };
+
+  const toStored = (id: string, document: string | null | undefined, metadata: unknown): StoredVector => ({
+    id,
+    document: document ?? null,
+    metadata: (metadata || {}) as VectorMetadata,
+  });
+
+  return {
+    name: 'chroma',
+
+    async upsert(name, records) {
+      if (records.length === 0) return;
+      const collection = await client.getOrCreateCollection({ name });
+      await collection.upsert({
+        ids: records.map(r => r.id),
+        embeddings: records.map(r => r.embedding),
+        documents: records.map(r => r.document),
+        metadatas: records.map(r => r.metadata),
+      });
+    },
+
+    async delete(name, { ids, where }) {
+      if (ids?.length === 0) return;
+      const collection = await openCollection(name);
+      if (!collection) return;
+      await collection.delete({ ids, where: where as Where | undefined });
+    },
+
+    async query(name, embedding, { nResults, where }) {
+      const collection = await openCollection(name);
+      if (!collection) return [];
+
+      const result = await collection.query({
+        queryEmbeddings: [embedding],
+        nResults,
+        where: where as Where | undefined,
+      });
+      const ids = result.ids[0] || [];
+      return ids.map((id, i) => ({
+        ...toStored(id, result.documents[0]?.[i], result.metadatas[0]?.[i]),
+        distance: result.distances[0]?.[i] ?? Number.POSITIVE_INFINITY,
+      }));
+    },
+
+    async get(name, options = {}) {
+      const collection = await openCollection(name);
+      if (!collection) return [];
+
+      const result = await collection.get({ where: options.where as Where | undefined, limit: options.limit });
+      return result.ids.map((id, i) => toStored(id, result.documents[i], result.metadatas[i]));
+    },
+
+    async count(name) {
+      const collection = await openCollection(name);
+      return collection ? collection.count() : 0;
+    },
+
+    async dropCollection(name) {
+      try {
+        await client.deleteCollection({ name });
+      } catch (error) {
+        if (!isNotFound(error)) throw error;
+      }
+    },
+  };
+}
@@ -0,0 +1,51 @@
+/**
+ * Vector store selection:
+ *   VECTOR_STORE   chroma (default) | sqlite
+ *   CHROMA_URL     Chroma server for the chroma backend (default http://localhost:8000)
+ * The sqlite backend keeps vectors in sop-ai.db, so small deployments need no Chroma container.
+ * Switching backends needs a full re-index (npm run index -- --full).
+ */
+
+import { ChromaClient } from 'chromadb';
+import { createChromaVectorStore } from './chroma';
+import { createSQLiteVectorStore } from './sqlite';
+import type { VectorStore } from './types';
+
+export type { FieldCondition, StoredVector, VectorHit, VectorMetadata, VectorRecord, VectorStore, WhereFilter } from './types';
+
+export const SOP_COLLECTION = 'sop-documents';
+export const ACRONYM_COLLECTION = 'sop_acronyms';
+
+export type VectorStoreName = 'chroma' | 'sqlite';
+
+export function getVectorStoreName(env: NodeJS.ProcessEnv = process.env): VectorStoreName {
+  const name = env.VECTOR_STORE || 'chroma';
+  if (name !== 'chroma' && name !== 'sqlite') {
+    throw new Error(`VECTOR_STORE must be chroma or sqlite (got "${name}")`);
+  }
+  return name;
+}
+
+let vectorStore: VectorStore | null = null;
+
+export function getVectorStore(): VectorStore {
+  if (!vectorStore) {
+    if (getVectorStoreName() === 'sqlite') {
+      vectorStore = createSQLiteVectorStore();
+      console.log('[VECTORS] Using the local SQLite vector store');
+    } else {
+      const chromaUrl = process.env.CHROMA_URL || 'http://localhost:8000';
+      vectorStore = createChromaVectorStore(new ChromaClient({ path: chromaUrl }));
+      console.log(`[VECTORS] Using Chroma at ${chromaUrl}`);
+    }
+  }
+  return vectorStore;
+}
+
+/**
+ * Override the configured store, e.g. with an in-memory fake in tests.
+ * Passing null goes back to the environment configuration.
+ */
+export function setVectorStore(store: VectorStore | null): void {
+  vectorStore = store;
+}
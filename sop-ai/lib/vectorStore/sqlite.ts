@@ -0,0 +1,143 @@
+/**
+ * Local backend: vectors live in the app's SQLite database (vector_embeddings table)
+ * Queries are exact brute-force scans of the collection, which is plenty for the few
+ * thousand chunks a single team's SOPs produce and needs no separate server.
+ */
+
+import { and, eq, inArray, sql } from 'drizzle-orm';
+import { db, vectorEmbeddings } from '../db';
+import type { FieldCondition, StoredVector, VectorMetadata, VectorStore, WhereFilter } from './types';
+
+// Delete/insert in slices to stay under SQLite's bound-parameter limit
+const BATCH_SIZE = 200;
+
+export function encodeEmbedding(embedding: number[]): Buffer {
+  return Buffer.from(new Float32Array(embedding).buffer);
+}
+
+export function decodeEmbedding(buffer: Buffer): Float32Array {
+  // Copy so the array is aligned regardless of the buffer's offset
+  const bytes = new Uint8Array(buffer);
+  return new Float32Array(bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength));
+}
+
+function squaredL2(a: number[], b: Float32Array): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    const diff = a[i] - (b[i] ?? 0);
+    sum += diff * diff;
+  }
+  return sum;
+}
+
+function matchesCondition(value: unknown, condition: FieldCondition): boolean {
+  if (typeof condition !== 'object') return value === condition;
+  if ('$eq' in condition) return value === condition.$eq;
+  if ('$ne' in condition) return value !== condition.$ne;
+  if ('$in' in condition) return condition.$in.some(v => v === value);
+  return !condition.$nin.some(v => v === value);
+}
+
+export function matchesWhere(metadata: VectorMetadata, where?: WhereFilter): boolean {
+  if (!where) return true;
+  if ('$and' in where && Array.isArray(where.$and)) return where.$and.every(w => matchesWhere(metadata, w));
+  if ('$or' in where && Array.isArray(where.$or)) return where.$or.some(w => matchesWhere(metadata, w));
+  return Object.entries(where as Record<string, FieldCondition>)
+    .every(([field, condition]) => matchesCondition(metadata[field], condition));
+}
+
+function parseMetadata(json: string | null): VectorMetadata {
+  return json ? JSON.parse(json) : {};
+}
+
+export function createSQLiteVectorStore(): VectorStore {
+  const loadRows = (collection: string) =>
+    db.select().from(vectorEmbeddings).where(eq(vectorEmbeddings.collection, collection));
+
+  const deleteIds = async (collection: string, ids: string[]) => {
+    for (let i = 0; i < ids.length; i += BATCH_SIZE) {
+      await db
+        .delete(vectorEmbeddings)
+        .where(and(eq(vectorEmbeddings.collection, collection), inArray(vectorEmbeddings.id, ids.slice(i, i + BATCH_SIZE))));
+    }
+  };
+
+  const store: VectorStore = {
+    name: 'sqlite',
+
+    async upsert(collection, records) {
+      for (let i = 0; i < records.length; i += BATCH_SIZE) {
+        await db
+          .insert(vectorEmbeddings)
+          .values(records.slice(i, i + BATCH_SIZE).map(record => ({
+            collection,
+            id: record.id,
+            embedding: encodeEmbedding(record.embedding),
+            document: record.document,
+            metadata: JSON.stringify(record.metadata),
+          })))
+          .onConflictDoUpdate({
+            target: [vectorEmbeddings.collection, vectorEmbeddings.id],
+            set: {
+              embedding: sql`excluded.embedding`,
+              document: sql`excluded.document`,
+              metadata: sql`excluded.metadata`,
+            },
+          });
+      }
+    },
+
+    async delete(collection, { ids, where }) {
+      if (!ids && !where) {
+        throw new Error('Vector store delete needs ids or a where filter');
+      }
+      if (ids?.length === 0) return;
+
+      const targetIds = where
+        ? (await store.get(collection, { where })).map(record => record.id).filter(id => !ids || ids.includes(id))
+        : ids!;
+      await deleteIds(collection, targetIds);
+    },
+
+    async query(collection, embedding, { nResults, where }) {
+      const rows = await loadRows(collection);
+      return rows
+        .map(row => ({ row, metadata: parseMetadata(row.metadata) }))
+        .filter(({ metadata }) => matchesWhere(metadata, where))
+        .map(({ row, metadata }) => ({
+          id: row.id,
+          document: row.document,
+          metadata,
+          distance: squaredL2(embedding, decodeEmbedding(row.embedding)),
+        }))
+        .sort((a, b) => a.distance - b.distance)
+        .slice(0, nResults);
+    },
+
+    async get(collection, options = {}) {
+      const rows = await db
+        .select({ id: vectorEmbeddings.id, document: vectorEmbeddings.document, metadata: vectorEmbeddings.metadata })
+        .from(vectorEmbeddings)
+        .where(eq(vectorEmbeddings.collection, collection));
+
+      const records: StoredVector[] = rows
+        .map(row => ({ id: row.id, document: row.document, metadata: parseMetadata(row.metadata) }))
+        .filter(record => matchesWhere(record.metadata, options.where));
+      return options.limit !== undefined ? records.slice(0, options.limit) : records;
+    },
+
+    async count(collection) {
+      const [row] = await db
+        .select({ count: sql<number>`count(*)` })
+        .from(vectorEmbeddings)
+        .where(eq(vectorEmbeddings.collection, collection));
+      return row?.count ?? 0;
+    },
+
+    async dropCollection(collection) {
+      await db.delete(vectorEmbeddings).where(eq(vectorEmbeddings.collection, collection));
+    },
+  };
+
+  return store;
+}
@@ -0,0 +1,52 @@
+/**
+ * Vector store interface shared by the Chroma and local SQLite backends
+ */
+
+export type MetadataValue = string | number | boolean;
+export type VectorMetadata = Record<string, MetadataValue>;
+
+// Chroma's where syntax, limited to what both backends support
+export type FieldCondition =
+  | MetadataValue
+  | { $eq: MetadataValue }
+  | { $ne: MetadataValue }
+  | { $in: MetadataValue[] }
+  | { $nin: MetadataValue[] };
+
+export type WhereFilter =
+  | { $and: WhereFilter[] }
+  | { $or: WhereFilter[] }
+  | Record<string, FieldCondition>;
+
+export interface VectorRecord {
+  id: string;
+  embedding: number[];
+  document: string;
+  metadata: VectorMetadata;
+}
+
+export interface StoredVector {
+  id: string;
+  document: string | null;
+  metadata: VectorMetadata;
+}
+
+export interface VectorHit extends StoredVector {
+  // Squared L2 distance to the query embedding (Chroma's default space); lower is closer
+  distance: number;
+}
+
+/**
+ * Collections are created on first write. Reads from a collection that doesn't exist
+ * behave as if it were empty, so callers don't need to check first.
+ */
+export interface VectorStore {
+  name: string;
+  upsert(collection: string, records: VectorRecord[]): Promise<void>;
+  // Removes records matching the given ids and/or metadata filter
+  delete(collection: string, filter: { ids?: string[]; where?: WhereFilter }): Promise<void>;
+  query(collection: string, embedding: number[], options: { nResults: number; where?: WhereFilter }): Promise<VectorHit[]>;
+  get(collection: string, options?: { where?: WhereFilter; limit?: number }): Promise<StoredVector[]>;
+  count(collection: string): Promise<number>;
+  dropCollection(collection: string): Promise<void>;
+}
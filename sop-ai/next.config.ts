@@ -5,6 +5,10 @@ const nextConfig: NextConfig = {
   compress: true,
   poweredByHeader: false,
   reactStrictMode: true,
+
+  // pdf.js and tesseract.js load workers, WASM and language data from their own packages
+  // at runtime, so they can't be bundled
+  serverExternalPackages: ['pdfjs-dist', '@napi-rs/canvas', 'tesseract.js', '@tesseract.js-data/eng'],
   
   // Standalone output for Docker deployments
   output: 'standalone',
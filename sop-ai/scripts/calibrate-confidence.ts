@@ -0,0 +1,111 @@
+/**
+ * Fit the answer confidence model against the labeled question set
+ * Runs every question in data/confidence-labels.json through the full RAG pipeline, judges
+ * each answer against its label and fits the weights in lib/confidence.ts.
+ * Run with: npm run calibrate-confidence [-- --dry-run]
+ * Requires Ollama and ChromaDB with a built index. Set CONFIDENCE_SELF_RATING=true to
+ * include the LLM self-rating signal.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { querySOPs, type SOPQueryResult } from '../lib/chroma';
+import {
+  CALIBRATION_FILE,
+  loadConfidenceWeights,
+  fitConfidenceWeights,
+  scoreConfidence,
+  brierScore,
+  expectedCalibrationError,
+  type CalibrationFile,
+  type LabeledSignals,
+} from '../lib/confidence';
+
+const LABELS_FILE = path.join(process.cwd(), 'data', 'confidence-labels.json');
+
+interface LabeledQuestion {
+  question: string;
+  expected: 'answer' | 'decline';
+  // SOP the answer must draw on
+  sopId?: string;
+  // Phrases the answer must contain (case-insensitive)
+  keywords?: string[];
+}
+
+// Confidence means "the user got a correct answer from the SOPs", so out-of-scope questions
+// are negatives whether the assistant declines (and gets logged as unanswered) or answers anyway
+function isCorrect(label: LabeledQuestion, result: SOPQueryResult): boolean {
+  if (label.expected === 'decline' || result.signals?.declined) return false;
+
+  if (label.sopId) {
+    const usedSOP = result.sources.some(s => s.sopId === label.sopId)
+      || result.citations.some(c => c.valid && c.sopId === label.sopId);
+    if (!usedSOP) return false;
+  }
+
+  const answer = result.answer.toLowerCase();
+  return (label.keywords || []).every(keyword => answer.includes(keyword.toLowerCase()));
+}
+
+async function main() {
+  const dryRun = process.argv.includes('--dry-run');
+  const { questions } = JSON.parse(fs.readFileSync(LABELS_FILE, 'utf-8')) as { questions: LabeledQuestion[] };
+
+  console.log('='.repeat(50));
+  console.log(`CONFIDENCE CALIBRATION (${questions.length} labeled questions)`);
+  console.log('='.repeat(50));
+
+  const samples: LabeledSignals[] = [];
+  for (const label of questions) {
+    const result = await querySOPs(label.question);
+    if (!result.signals) {
+      console.log(`  skipped (no answer generated): ${label.question}`);
+      continue;
+    }
+    const correct = isCorrect(label, result);
+    samples.push({ signals: result.signals, correct });
+    const declined = result.signals.declined ? ' (declined)' : '';
+    console.log(`  ${correct ? '✓' : '✗'} ${(result.confidence * 100).toFixed(0).padStart(3)}%  ${label.question}${declined}`);
+  }
+
+  if (samples.length < 5) {
+    console.error('\nFAILED: too few answered questions to calibrate. Are Ollama and ChromaDB running?');
+    process.exit(1);
+  }
+
+  const current = loadConfidenceWeights();
+  const fitted = fitConfidenceWeights(samples, current);
+  const evaluate = (weights: typeof current) => {
+    const predictions = samples.map(s => ({ confidence: scoreConfidence(s.signals, weights), correct: s.correct }));
+    return { brier: brierScore(predictions), ece: expectedCalibrationError(predictions) };
+  };
+  const before = evaluate(current);
+  const after = evaluate(fitted);
+
+  console.log('\n' + '='.repeat(50));
+  console.log(`Accuracy:       ${samples.filter(s => s.correct).length}/${samples.length}`);
+  console.log(`Brier score:    ${before.brier.toFixed(4)} -> ${after.brier.toFixed(4)}`);
+  console.log(`Calibration ECE: ${before.ece.toFixed(4)} -> ${after.ece.toFixed(4)}`);
+  console.log('Fitted weights:', fitted);
+
+  if (dryRun) {
+    console.log('Dry run: calibration not saved');
+  } else {
+    const calibration: CalibrationFile = {
+      weights: fitted,
+      fittedAt: new Date().toISOString(),
+      samples: samples.length,
+      brierScore: after.brier,
+      expectedCalibrationError: after.ece,
+    };
+    fs.writeFileSync(CALIBRATION_FILE, JSON.stringify(calibration, null, 2));
+    console.log(`Saved calibration to ${CALIBRATION_FILE}`);
+  }
+  console.log('='.repeat(50));
+  process.exit(0);
+}
+
+main().catch((error) => {
+  console.error('FAILED:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
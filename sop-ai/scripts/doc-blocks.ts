@@ -0,0 +1,424 @@
+/**
+ * Word 97-2003 (.doc) block reader
+ * Reads the binary Word format out of its OLE container (via cfb): the piece table gives the
+ * main document text, paragraph properties give heading styles, list membership and table
+ * rows, and character runs give bold. The result is the same blocks the HTML reader produces,
+ * so a .doc parses like the .docx it would be saved as.
+ */
+
+import * as CFB from 'cfb';
+import type { HTMLBlock, HTMLListItem } from './html-blocks';
+
+const WORD_IDENT = 0xa5ec;
+const OLE_SIGNATURE = Buffer.from([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1]);
+// Word 97 is nFib 0xC1; older versions use an incompatible FIB
+const MIN_NFIB = 0xc0;
+const FKP_SIZE = 512;
+
+// FibRgFcLcb97 entries (fc/lcb pairs) this reader uses
+const FC_STSHF = 1;
+const FC_PLCF_BTE_CHPX = 12;
+const FC_PLCF_BTE_PAPX = 13;
+const FC_CLX = 33;
+const FC_PLF_LST = 73;
+const FC_PLF_LFO = 74;
+
+const SPRM_P_ILVL = 0x260a;
+const SPRM_P_ILFO = 0x460b;
+const SPRM_P_IN_TABLE = 0x2416;
+const SPRM_P_TTP = 0x2417;
+const SPRM_P_OUT_LVL = 0x2640;
+const SPRM_P_TABLE_DEPTH = 0x6649;
+const SPRM_C_BOLD = 0x0835;
+const SPRM_T_DEF_TABLE = 0xd608;
+// Operand size by spra (the top three bits of a sprm); 6 is variable-length
+const SPRA_SIZES = [1, 1, 2, 4, 2, 2, 0, 3];
+// Built-in style identifiers 1-9 are "heading 1"-"heading 9" in every language
+const MAX_HEADING_STI = 9;
+const NFC_BULLET = 23;
+const NFC_NONE = 255;
+// 8-bit ("compressed") text is Windows-1252
+const CP1252 = new TextDecoder('windows-1252').decode(Uint8Array.from({ length: 256 }, (_, i) => i));
+
+interface Style {
+  sti: number;
+  base: number;
+  paragraph: Map<number, number>;
+  character: Map<number, number>;
+}
+
+interface PropertyRun {
+  fcStart: number;
+  fcEnd: number;
+  istd: number;
+  sprms: Map<number, number>;
+}
+
+interface Paragraph {
+  text: string;
+  mark: string; // '\r' paragraph end, '\x07' table cell or row end, '\x0c' page or section break
+  bold: boolean;
+  heading?: number;
+  list?: { ilfo: number; ilvl: number };
+  inTable: boolean;
+  rowEnd: boolean;
+}
+
+function readSprms(data: Buffer, start: number, end: number): Map<number, number> {
+  const sprms = new Map<number, number>();
+  let offset = start;
+  while (offset + 2 <= end) {
+    const sprm = data.readUInt16LE(offset);
+    offset += 2;
+    const spra = sprm >> 13;
+    let size = SPRA_SIZES[spra];
+    if (spra === 6) {
+      if (offset >= end) break;
+      size = sprm === SPRM_T_DEF_TABLE ? data.readUInt16LE(offset) + 1 : data[offset] + 1;
+    }
+    if (offset + size > end) break;
+    if (size === 1) sprms.set(sprm, data[offset]);
+    else if (size === 2) sprms.set(sprm, data.readUInt16LE(offset));
+    else if (size === 4) sprms.set(sprm, data.readInt32LE(offset));
+    offset += size;
+  }
+  return sprms;
+}
+
+function fibEntry(fib: Buffer, index: number): { fc: number; lcb: number } {
+  const csw = fib.readUInt16LE(32);
+  const cslw = fib.readUInt16LE(34 + csw * 2);
+  const countOffset = 36 + csw * 2 + cslw * 4;
+  if (index >= fib.readUInt16LE(countOffset)) return { fc: 0, lcb: 0 };
+  const offset = countOffset + 2 + index * 8;
+  return { fc: fib.readUInt32LE(offset), lcb: fib.readUInt32LE(offset + 4) };
+}
+
+function readStyles(table: Buffer, fc: number, lcb: number): Style[] {
+  if (lcb === 0) return [];
+  const cbStshi = table.readUInt16LE(fc);
+  const cstd = table.readUInt16LE(fc + 2);
+  const cbStdBase = table.readUInt16LE(fc + 4);
+  const styles: Style[] = [];
+
+  let offset = fc + 2 + cbStshi;
+  for (let istd = 0; istd < cstd && offset + 2 <= fc + lcb; istd++) {
+    const cbStd = table.readUInt16LE(offset);
+    const std = offset + 2;
+    offset = std + cbStd;
+    if (cbStd === 0) continue;
+
+    const style: Style = {
+      sti: table.readUInt16LE(std) & 0x0fff,
+      base: table.readUInt16LE(std + 2) >> 4,
+      paragraph: new Map(),
+      character: new Map(),
+    };
+    styles[istd] = style;
+    const stk = table.readUInt16LE(std + 2) & 0x000f;
+    // After the name (length-prefixed UTF-16 plus a terminator) come the UPXs, each word-aligned
+    let upx = std + cbStdBase;
+    upx += 2 + table.readUInt16LE(upx) * 2 + 2;
+    const align = () => { upx += (upx - std) % 2; };
+    align();
+    if (stk === 1 && upx + 2 <= offset) {
+      const cbUpx = table.readUInt16LE(upx);
+      style.paragraph = readSprms(table, upx + 4, Math.min(upx + 2 + cbUpx, offset));
+      upx += 2 + cbUpx;
+      align();
+    }
+    if ((stk === 1 || stk === 2) && upx + 2 <= offset) {
+      const cbUpx = table.readUInt16LE(upx);
+      style.character = readSprms(table, upx + 2, Math.min(upx + 2 + cbUpx, offset));
+    }
+  }
+  return styles;
+}
+
+// A property from the style or, failing that, the styles it's based on
+function styleProperty(styles: Style[], istd: number, kind: 'paragraph' | 'character', sprm: number): number | undefined {
+  for (let depth = 0; depth < 10 && styles[istd]; depth++) {
+    const value = styles[istd][kind].get(sprm);
+    if (value !== undefined) return value;
+    istd = styles[istd].base;
+  }
+  return undefined;
+}
+
+function readPropertyRuns(
+  word: Buffer,
+  table: Buffer,
+  { fc, lcb }: { fc: number; lcb: number },
+  kind: 'paragraph' | 'character'
+): PropertyRun[] {
+  const runs: PropertyRun[] = [];
+  const count = (lcb - 4) / 8;
+  for (let i = 0; i < count; i++) {
+    const page = (table.readUInt32LE(fc + (count + 1) * 4 + i * 4) & 0x3fffff) * FKP_SIZE;
+    if (page + FKP_SIZE > word.length) continue;
+    const crun = word[page + FKP_SIZE - 1];
+    for (let j = 0; j < crun; j++) {
+      const run: PropertyRun = {
+        fcStart: word.readUInt32LE(page + j * 4),
+        fcEnd: word.readUInt32LE(page + (j + 1) * 4),
+        istd: 0,
+        sprms: new Map(),
+      };
+      if (kind === 'character') {
+        const at = word[page + (crun + 1) * 4 + j] * 2;
+        if (at > 0) run.sprms = readSprms(word, page + at + 1, page + at + 1 + word[page + at]);
+      } else {
+        // BxPap entries are 13 bytes: a word offset to the PapxInFkp, then an unused PHE
+        const at = word[page + (crun + 1) * 4 + j * 13] * 2;
+        if (at > 0) {
+          const cb = word[page + at];
+          const start = cb === 0 ? page + at + 2 : page + at + 1;
+          const size = cb === 0 ? word[page + at + 1] * 2 : cb * 2 - 1;
+          run.istd = word.readUInt16LE(start);
+          run.sprms = readSprms(word, start + 2, start + size);
+        }
+      }
+      runs.push(run);
+    }
+  }
+  return runs.sort((a, b) => a.fcStart - b.fcStart);
+}
+
+function runAt(runs: PropertyRun[], fc: number): PropertyRun | undefined {
+  let low = 0;
+  let high = runs.length - 1;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (fc < runs[mid].fcStart) high = mid - 1;
+    else if (fc >= runs[mid].fcEnd) low = mid + 1;
+    else return runs[mid];
+  }
+  return undefined;
+}
+
+// Whether each list (by 1-based ilfo) numbers its items, by the number format of its first level
+function readListNumbering(table: Buffer, fib: Buffer): Map<number, boolean> {
+  const lists = fibEntry(fib, FC_PLF_LST);
+  const overrides = fibEntry(fib, FC_PLF_LFO);
+  const numbered = new Map<number, boolean>();
+  if (lists.lcb === 0 || overrides.lcb === 0) return numbered;
+
+  // LSTFs (28 bytes) are followed by each list's LVLs: 1 for a simple list, 9 otherwise
+  const listCount = table.readUInt16LE(lists.fc);
+  const firstLevel = new Map<number, number>();
+  let lvl = lists.fc + 2 + listCount * 28;
+  for (let i = 0; i < listCount && lvl + 28 <= table.length; i++) {
+    const lstf = lists.fc + 2 + i * 28;
+    firstLevel.set(table.readInt32LE(lstf), table[lvl + 4]);
+    const levels = table[lstf + 26] & 0x01 ? 1 : 9;
+    for (let level = 0; level < levels && lvl + 28 <= table.length; level++) {
+      lvl += 28 + table[lvl + 24] + table[lvl + 25];
+      lvl += 2 + table.readUInt16LE(lvl) * 2;
+    }
+  }
+
+  const overrideCount = table.readInt32LE(overrides.fc);
+  for (let i = 0; i < overrideCount; i++) {
+    const nfc = firstLevel.get(table.readInt32LE(overrides.fc + 4 + i * 16));
+    numbered.set(i + 1, nfc !== NFC_BULLET && nfc !== NFC_NONE);
+  }
+  return numbered;
+}
+
+function readParagraphs(word: Buffer, table: Buffer): Paragraph[] {
+  const ccpText = word.readUInt32LE(36 + word.readUInt16LE(32) * 2 + 3 * 4);
+  const styles = readStyles(table, fibEntry(word, FC_STSHF).fc, fibEntry(word, FC_STSHF).lcb);
+  const paragraphRuns = readPropertyRuns(word, table, fibEntry(word, FC_PLCF_BTE_PAPX), 'paragraph');
+  const characterRuns = readPropertyRuns(word, table, fibEntry(word, FC_PLCF_BTE_CHPX), 'character');
+
+  // The piece table (after any Prc property blocks in the Clx) maps text positions to the file
+  const clx = fibEntry(word, FC_CLX);
+  const clxEnd = clx.fc + clx.lcb;
+  let offset = clx.fc;
+  while (offset < clxEnd && table[offset] === 0x01) offset += 3 + table.readUInt16LE(offset + 1);
+  if (offset >= clxEnd) throw new Error('Word document is damaged (invalid piece table)');
+  if (table[offset] !== 0x02) throw new Error('Word document has no readable text (missing piece table)');
+  const pieceCount = (table.readUInt32LE(offset + 1) - 4) / 12;
+  const plcPcd = offset + 5;
+
+  const paragraphs: Paragraph[] = [];
+  let text = '';
+  let boldChars = 0;
+  let plainChars = 0;
+  // Field codes: the instructions (before \x14) are hidden, the result (after it) is shown
+  const fields: ('code' | 'result')[] = [];
+
+  const endParagraph = (mark: string, fc: number) => {
+    const run = runAt(paragraphRuns, fc);
+    const istd = run?.istd ?? 0;
+    const property = (sprm: number) => run?.sprms.get(sprm) ?? styleProperty(styles, istd, 'paragraph', sprm);
+    const sti = styles[istd]?.sti ?? 0;
+    const outline = property(SPRM_P_OUT_LVL);
+    const ilfo = property(SPRM_P_ILFO) ?? 0;
+
+    paragraphs.push({
+      text: text.replace(/\s+/g, ' ').trim(),
+      mark,
+      bold: boldChars > 0 && plainChars === 0,
+      heading: sti >= 1 && sti <= MAX_HEADING_STI ? sti : outline !== undefined && outline < 9 ? outline + 1 : undefined,
+      list: ilfo > 0 && ilfo < 0xf000 ? { ilfo, ilvl: property(SPRM_P_ILVL) ?? 0 } : undefined,
+      inTable: mark === '\x07' || Boolean(property(SPRM_P_IN_TABLE)) || (property(SPRM_P_TABLE_DEPTH) ?? 0) > 0,
+      rowEnd: Boolean(property(SPRM_P_TTP)),
+    });
+    text = '';
+    boldChars = plainChars = 0;
+  };
+
+  for (let i = 0; i < pieceCount; i++) {
+    const cpStart = table.readUInt32LE(plcPcd + i * 4);
+    const cpEnd = Math.min(table.readUInt32LE(plcPcd + (i + 1) * 4), ccpText);
+    const fcValue = table.readUInt32LE(plcPcd + (pieceCount + 1) * 4 + i * 8 + 2);
+    const compressed = (fcValue & 0x40000000) !== 0;
+    const fcStart = compressed ? (fcValue & 0x3fffffff) / 2 : fcValue;
+    const width = compressed ? 1 : 2;
+
+    for (let cp = cpStart; cp < cpEnd; cp++) {
+      const fc = fcStart + (cp - cpStart) * width;
+      if (fc + width > word.length) break;
+      const char = compressed ? CP1252[word[fc]] : word.toString('utf16le', fc, fc + 2);
+
+      if (char === '\x13') { fields.push('code'); continue; }
+      if (char === '\x14') { if (fields.length > 0) fields[fields.length - 1] = 'result'; continue; }
+      if (char === '\x15') { fields.pop(); continue; }
+      if (char === '\r' || char === '\x07' || char === '\x0c') {
+        endParagraph(char, fc);
+        continue;
+      }
+      if (fields.includes('code')) continue;
+
+      let visible = char;
+      if (char === '\t' || char === '\x0b' || char === '\xa0') visible = ' ';
+      else if (char === '\x1e') visible = '-';
+      else if (char < ' ') visible = '';
+      if (!visible) continue;
+
+      text += visible;
+      if (visible.trim()) {
+        const run = runAt(characterRuns, fc);
+        const bold = run?.sprms.get(SPRM_C_BOLD);
+        const styleBold = styleProperty(styles, runAt(paragraphRuns, fc)?.istd ?? 0, 'character', SPRM_C_BOLD) === 1;
+        // 0x80 keeps the style's value, 0x81 inverts it
+        const isBold = bold === undefined || bold === 0x80 ? styleBold : bold === 0x81 ? !styleBold : bold === 1;
+        if (isBold) boldChars++;
+        else plainChars++;
+      }
+    }
+  }
+  if (text.trim()) endParagraph('\r', -1);
+
+  return paragraphs;
+}
+
+function toBlocks(paragraphs: Paragraph[], numbered: Map<number, boolean>): HTMLBlock[] {
+  const blocks: HTMLBlock[] = [];
+  let rows: string[][] = [];
+  let cells: string[] = [];
+  let cell: string[] = [];
+  let list: { ordered: boolean; items: HTMLListItem[]; open: HTMLListItem[] } | null = null;
+
+  const flushTable = () => {
+    if (cells.length > 0 || cell.length > 0) rows.push([...cells, ...(cell.length > 0 ? [cell.join(' ')] : [])]);
+    const filled = rows.filter(row => row.some(text => text !== ''));
+    if (filled.length > 0) blocks.push({ type: 'table', rows: filled });
+    rows = [];
+    cells = [];
+    cell = [];
+  };
+  const flushList = () => {
+    if (list) blocks.push({ type: 'list', ordered: list.ordered, items: list.items });
+    list = null;
+  };
+
+  for (const paragraph of paragraphs) {
+    if (paragraph.inTable) {
+      flushList();
+      if (paragraph.rowEnd) {
+        rows.push(cells);
+        cells = [];
+      } else if (paragraph.mark === '\x07') {
+        cells.push([...cell, paragraph.text].filter(Boolean).join(' '));
+        cell = [];
+      } else {
+        cell.push(paragraph.text);
+      }
+      continue;
+    }
+    flushTable();
+    if (!paragraph.text) continue;
+
+    if (paragraph.list && paragraph.heading === undefined) {
+      const { ilfo, ilvl } = paragraph.list;
+      if (!list) list = { ordered: numbered.get(ilfo) ?? true, items: [], open: [] };
+      const item: HTMLListItem = { text: paragraph.text, children: [] };
+      // Nest under the closest open item at a shallower level
+      const level = Math.min(ilvl, list.open.length);
+      if (level === 0) list.items.push(item);
+      else list.open[level - 1].children.push(item);
+      list.open = [...list.open.slice(0, level), item];
+      continue;
+    }
+    flushList();
+
+    if (paragraph.heading !== undefined) {
+      blocks.push({ type: 'heading', level: paragraph.heading, text: paragraph.text });
+    } else {
+      blocks.push({ type: 'paragraph', text: paragraph.text, bold: paragraph.bold });
+    }
+  }
+  flushTable();
+  flushList();
+
+  return blocks;
+}
+
+/**
+ * Headings, paragraphs, lists and tables of a Word 97-2003 document's main text.
+ * Throws with a reason an admin can act on for files that aren't a readable .doc.
+ */
+export function docToBlocks(data: Buffer): HTMLBlock[] {
+  if (!data.subarray(0, OLE_SIGNATURE.length).equals(OLE_SIGNATURE)) {
+    throw new Error('Not a Word 97-2003 document. Open it in Word and save it as .docx');
+  }
+
+  let container: CFB.CFB$Container;
+  try {
+    container = CFB.read(data, { type: 'buffer' });
+  } catch (error) {
+    throw new Error(`Word document is damaged: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  const stream = (name: string) => {
+    const entry = CFB.find(container, name);
+    return entry ? Buffer.from(entry.content) : null;
+  };
+
+  const word = stream('WordDocument');
+  if (!word || word.length < 0x200 || word.readUInt16LE(0) !== WORD_IDENT) {
+    throw new Error('Not a Word document (no WordDocument stream). Excel and other Office files must use their own extensions');
+  }
+  if (word.readUInt16LE(2) < MIN_NFIB) {
+    throw new Error('Word 6.0/95 documents are not supported. Open the file in Word and save it as .docx');
+  }
+  const flags = word.readUInt16LE(0x0a);
+  if (flags & 0x0100) {
+    throw new Error('Word document is password-protected. Remove the password and upload it again');
+  }
+  const table = stream(flags & 0x0200 ? '1Table' : '0Table');
+  if (!table) {
+    throw new Error('Word document is damaged (table stream missing)');
+  }
+
+  try {
+    return toBlocks(readParagraphs(word, table), readListNumbering(table, word));
+  } catch (error) {
+    // Offsets that run past the end of a stream mean a corrupt or truncated file
+    if (error instanceof RangeError) {
+      throw new Error('Word document is damaged or truncated');
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,238 @@
+/**
+ * HTML block reader
+ * Reduces the HTML that document converters emit (mammoth's Word output, rendered
+ * Markdown) to the structure SOP parsing cares about: headings, paragraphs, lists and
+ * tables, with inline formatting flattened to plain text. Links and images can be kept as
+ * inline Markdown (`[text](href)`, `![alt](src)`) for sources whose steps point somewhere.
+ * Tolerates the usual unclosed tags but is not a general-purpose HTML parser.
+ */
+
+export interface HTMLListItem {
+  text: string;
+  children: HTMLListItem[];
+}
+
+// Set by the PDF/OCR reader: `page` is the page the block starts on, `confidence` the lowest
+// OCR confidence (0-100) of its text, and `rowConfidence` the same for each table row
+export type HTMLBlock = (
+  | { type: 'heading'; level: number; text: string }
+  | { type: 'paragraph'; text: string; bold: boolean }
+  | { type: 'list'; ordered: boolean; items: HTMLListItem[] }
+  | { type: 'table'; rows: string[][]; rowConfidence?: (number | undefined)[] }
+) & { page?: number; confidence?: number };
+
+export interface HTMLBlockOptions {
+  links?: boolean; // Keep links and images as inline Markdown instead of flattening them
+}
+
+interface HTMLElement {
+  tag: string;
+  attrs: Record<string, string>;
+  children: HTMLNode[];
+}
+
+type HTMLNode = HTMLElement | string;
+
+const VOID_TAGS = new Set(['br', 'img', 'hr', 'meta', 'link', 'input', 'col', 'source', 'wbr']);
+const SKIPPED_TAGS = new Set(['script', 'style', 'head', 'template', 'noscript']);
+const BLOCK_TAGS = new Set([
+  'html', 'body', 'main', 'article', 'section', 'header', 'footer', 'nav', 'aside', 'div', 'blockquote',
+  'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'p', 'pre', 'ul', 'ol', 'li', 'dl', 'dt', 'dd',
+  'table', 'thead', 'tbody', 'tfoot', 'tr', 'td', 'th', 'caption', 'figure', 'figcaption',
+]);
+const BOLD_TAGS = new Set(['strong', 'b']);
+// Only these attributes are kept, for links and images
+const KEPT_ATTRIBUTES = new Set(['href', 'src', 'alt']);
+
+// Opening one of these closes an open element of the listed kinds, as browsers do
+const IMPLICIT_CLOSE: Record<string, string[]> = {
+  li: ['li'],
+  dt: ['dt', 'dd'],
+  dd: ['dt', 'dd'],
+  tr: ['td', 'th', 'tr'],
+  td: ['td', 'th'],
+  th: ['td', 'th'],
+};
+
+const ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ',
+  ndash: '–', mdash: '—', lsquo: '‘', rsquo: '’', ldquo: '“', rdquo: '”',
+  hellip: '…', bull: '•', middot: '·', copy: '©', reg: '®', trade: '™',
+};
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return Number.isFinite(code) ? String.fromCodePoint(code) : match;
+    }
+    return ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  for (const [, name, doubleQuoted, singleQuoted, bare] of source.matchAll(/([a-zA-Z][\w:-]*)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+))/g)) {
+    const key = name.toLowerCase();
+    if (KEPT_ATTRIBUTES.has(key)) attrs[key] = decodeEntities(doubleQuoted ?? singleQuoted ?? bare).trim();
+  }
+  return attrs;
+}
+
+function parseTree(html: string): HTMLElement {
+  const root: HTMLElement = { tag: 'root', attrs: {}, children: [] };
+  const stack: HTMLElement[] = [root];
+  const top = () => stack[stack.length - 1];
+  const tokens = html
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<!doctype[^>]*>/gi, '')
+    .matchAll(/<(\/?)([a-zA-Z][a-zA-Z0-9]*)\b([^>]*?)(\/?)>|[^<]+|</g);
+
+  let skipping: string | null = null;
+  for (const [token, closing, rawTag, rawAttrs, selfClosing] of tokens) {
+    if (!rawTag) {
+      if (!skipping) top().children.push(decodeEntities(token));
+      continue;
+    }
+
+    const tag = rawTag.toLowerCase();
+    if (skipping) {
+      if (closing && tag === skipping) skipping = null;
+      continue;
+    }
+
+    if (closing) {
+      const index = stack.map(el => el.tag).lastIndexOf(tag);
+      if (index > 0) stack.length = index;
+      continue;
+    }
+
+    if (SKIPPED_TAGS.has(tag)) {
+      if (!selfClosing) skipping = tag;
+      continue;
+    }
+
+    const closes = IMPLICIT_CLOSE[tag] ?? [];
+    while (stack.length > 1 && (closes.includes(top().tag) || (top().tag === 'p' && BLOCK_TAGS.has(tag)))) {
+      const closed = stack.pop()!;
+      if (tag === 'tr' && closed.tag === 'tr') break;
+    }
+
+    const element: HTMLElement = { tag, attrs: tag === 'a' || tag === 'img' ? parseAttributes(rawAttrs) : {}, children: [] };
+    top().children.push(element);
+    if (!VOID_TAGS.has(tag) && !selfClosing) stack.push(element);
+  }
+
+  return root;
+}
+
+// Brackets and parentheses would end the Markdown link early
+function markdownLink(text: string, url: string, image = false): string {
+  const label = text.replace(/\s+/g, ' ').replace(/[[\]]/g, '').trim();
+  const target = url.replace(/\s/g, '%20').replace(/\(/g, '%28').replace(/\)/g, '%29');
+  return `${image ? '!' : ''}[${label}](${target})`;
+}
+
+function rawText(node: HTMLNode, options: HTMLBlockOptions): string {
+  if (typeof node === 'string') return node;
+  if (node.tag === 'br') return '\n';
+  if (options.links && node.tag === 'img' && node.attrs.src) return markdownLink(node.attrs.alt ?? '', node.attrs.src, true);
+  const inner = node.children.map(child => rawText(child, options)).join('');
+  if (options.links && node.tag === 'a' && node.attrs.href && inner.trim()) {
+    // A linked image is shown as the image; its link is dropped
+    return /^\s*!\[[^\]]*\]\([^)]*\)\s*$/.test(inner) ? inner : markdownLink(inner, node.attrs.href);
+  }
+  return BLOCK_TAGS.has(node.tag) ? ` ${inner} ` : inner;
+}
+
+function textOf(nodes: HTMLNode[], options: HTMLBlockOptions): string {
+  return nodes.map(node => rawText(node, options)).join('').replace(/\s+/g, ' ').trim();
+}
+
+// True if all of the element's visible text is inside <strong>/<b>
+function isBold(nodes: HTMLNode[], insideBold = false): boolean {
+  return nodes.every(node => {
+    if (typeof node === 'string') return insideBold || node.trim() === '';
+    return isBold(node.children, insideBold || BOLD_TAGS.has(node.tag));
+  });
+}
+
+function listItems(list: HTMLElement, options: HTMLBlockOptions): HTMLListItem[] {
+  const items: HTMLListItem[] = [];
+  for (const child of list.children) {
+    if (typeof child === 'string') continue;
+    if (child.tag === 'li') {
+      const nested = child.children.filter(
+        (node): node is HTMLElement => typeof node !== 'string' && (node.tag === 'ul' || node.tag === 'ol')
+      );
+      items.push({
+        text: textOf(child.children.filter(node => !nested.includes(node as HTMLElement)), options),
+        children: nested.flatMap(nestedList => listItems(nestedList, options)),
+      });
+    } else if ((child.tag === 'ul' || child.tag === 'ol') && items.length > 0) {
+      // A list nested directly in a list belongs to the item before it
+      items[items.length - 1].children.push(...listItems(child, options));
+    }
+  }
+  return items;
+}
+
+function tableRows(element: HTMLElement, options: HTMLBlockOptions, rows: string[][] = []): string[][] {
+  for (const child of element.children) {
+    if (typeof child === 'string') continue;
+    if (child.tag === 'tr') {
+      const cells = child.children
+        .filter((cell): cell is HTMLElement => typeof cell !== 'string' && (cell.tag === 'td' || cell.tag === 'th'))
+        .map(cell => textOf(cell.children, options));
+      if (cells.some(cell => cell !== '')) rows.push(cells);
+    } else if (child.tag !== 'table') {
+      tableRows(child, options, rows);
+    }
+  }
+  return rows;
+}
+
+function collectBlocks(nodes: HTMLNode[], blocks: HTMLBlock[], options: HTMLBlockOptions): void {
+  let loose: HTMLNode[] = [];
+  const flushLoose = () => {
+    const text = textOf(loose, options);
+    if (text) blocks.push({ type: 'paragraph', text, bold: isBold(loose) });
+    loose = [];
+  };
+
+  for (const node of nodes) {
+    if (typeof node === 'string' || !BLOCK_TAGS.has(node.tag)) {
+      loose.push(node);
+      continue;
+    }
+    flushLoose();
+
+    const heading = node.tag.match(/^h([1-6])$/);
+    if (heading) {
+      // Headings become SOP titles and categories, so they stay plain text
+      const text = textOf(node.children, {});
+      if (text) blocks.push({ type: 'heading', level: Number(heading[1]), text });
+    } else if (node.tag === 'p' || node.tag === 'pre' || node.tag === 'dt' || node.tag === 'dd') {
+      const text = textOf(node.children, options);
+      if (text) blocks.push({ type: 'paragraph', text, bold: isBold(node.children) });
+    } else if (node.tag === 'ul' || node.tag === 'ol') {
+      const items = listItems(node, options);
+      if (items.length > 0) blocks.push({ type: 'list', ordered: node.tag === 'ol', items });
+    } else if (node.tag === 'table') {
+      const rows = tableRows(node, options);
+      if (rows.length > 0) blocks.push({ type: 'table', rows });
+    } else {
+      collectBlocks(node.children, blocks, options);
+    }
+  }
+  flushLoose();
+}
+
+/**
+ * Headings, paragraphs, lists and tables of an HTML document, in document order.
+ */
+export function htmlToBlocks(html: string, options: HTMLBlockOptions = {}): HTMLBlock[] {
+  const blocks: HTMLBlock[] = [];
+  collectBlocks(parseTree(html).children, blocks, options);
+  return blocks;
+}
@@ -1,5 +1,5 @@
 /**
- * Script to index acronyms from CSV into ChromaDB
+ * Script to index acronyms from CSV into the vector store
  * Run with: npm run index-acronyms or npx tsx scripts/index-acronyms.ts
  */
 
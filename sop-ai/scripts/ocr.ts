@@ -0,0 +1,64 @@
+/**
+ * Offline OCR for scanned SOPs
+ * Runs tesseract.js with the English model bundled in @tesseract.js-data/eng, so nothing is
+ * downloaded at runtime. Returns words with their positions and confidence so the caller can
+ * rebuild lines and tables and flag text the engine wasn't sure about.
+ */
+
+import { createWorker, OEM, type Worker } from 'tesseract.js';
+import engData from '@tesseract.js-data/eng';
+
+// Steps read with a confidence (0-100) below this are held for admin review
+export const OCR_REVIEW_CONFIDENCE = 70;
+
+export interface OCRWord {
+  text: string;
+  x0: number;
+  x1: number;
+  confidence: number;
+}
+
+export interface OCRLine {
+  words: OCRWord[];
+  // Top and bottom of the line in image pixels
+  y0: number;
+  y1: number;
+}
+
+/**
+ * Recognize the text lines of each image with one worker, in order. Pass `dpi` when it's
+ * known (rendered PDF pages); otherwise tesseract estimates it.
+ */
+export async function recognizeImages(images: Buffer[], dpi?: number): Promise<OCRLine[][]> {
+  if (images.length === 0) return [];
+
+  const worker: Worker = await createWorker(engData.code, OEM.LSTM_ONLY, {
+    langPath: engData.langPath,
+    gzip: engData.gzip,
+    cacheMethod: 'none',
+  });
+
+  try {
+    if (dpi) await worker.setParameters({ user_defined_dpi: String(dpi) });
+    const pages: OCRLine[][] = [];
+    for (const image of images) {
+      const { data } = await worker.recognize(image, { rotateAuto: true }, { blocks: true });
+      const lines: OCRLine[] = [];
+      for (const block of data.blocks ?? []) {
+        for (const paragraph of block.paragraphs) {
+          for (const line of paragraph.lines) {
+            const words = line.words
+              .filter(word => word.text.trim() !== '')
+              .map(word => ({ text: word.text, x0: word.bbox.x0, x1: word.bbox.x1, confidence: word.confidence }));
+            if (words.length > 0) lines.push({ words, y0: line.bbox.y0, y1: line.bbox.y1 });
+          }
+        }
+      }
+      pages.push(lines);
+    }
+    console.log(`[OCR] Recognized ${pages.length} page(s)`);
+    return pages;
+  } finally {
+    await worker.terminate();
+  }
+}
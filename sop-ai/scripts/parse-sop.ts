@@ -3,13 +3,18 @@ import * as XLSX from 'xlsx';
 import * as fs from 'fs';
 import * as path from 'path';
 import mammoth from 'mammoth';
+import { marked } from 'marked';
+import { htmlToBlocks, type HTMLBlock, type HTMLListItem } from './html-blocks';
+import { docToBlocks } from './doc-blocks';
 
 export interface SOPStep {
   order: number;
-  task: string;
+  task: string; // Markdown and HTML sources keep links and images as inline Markdown
   role: string;
   tools: string;
   template: string;
+  page?: number; // Page the step starts on, for PDF sources
+  ocrConfidence?: number; // Lowest OCR confidence (0-100) of the step's text, for scanned sources
 }
 
 export interface SOPDocument {
@@ -19,6 +24,16 @@ export interface SOPDocument {
   sourceFile: string;
   steps: SOPStep[];
   content: string; // Flattened content for vector search linkage
+  documentId?: number; // Uploaded document the SOP came from, set when indexing uploads
+}
+
+// Column indexes of an SOP step table, -1 where the column is missing
+export interface StepColumns {
+  sn: number;
+  task: number;
+  who: number;
+  tool: number;
+  template: number;
 }
 
 // Convert "I", "A", "1" columns to semantics
@@ -26,7 +41,32 @@ function cleanStr(val: any): string {
   return String(val || '').trim();
 }
 
-export function parseSOPExcel(filePath: string): SOPDocument[] {
+function toSOPId(title: string): string {
+  return title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+}
+
+function formatSOPContent(steps: SOPStep[]): string {
+  return steps.map(s =>
+    `${s.order}. ${s.task} (Role: ${s.role}) [Tools: ${s.tools}]`
+  ).join('\n');
+}
+
+/**
+ * Map a header row (S N / Tasks / Who / Tools / Template) onto column indexes.
+ */
+export function mapStepColumns(headers: string[]): StepColumns {
+  const colMap = { sn: -1, task: -1, who: -1, tool: -1, template: -1 };
+  headers.map(h => cleanStr(h).toLowerCase()).forEach((cell, idx) => {
+    if (cell.includes('s n') || cell === 'sn') colMap.sn = idx;
+    if (cell.includes('task') || cell.includes('what')) colMap.task = idx;
+    if (cell.includes('who')) colMap.who = idx;
+    if (cell.includes('tool')) colMap.tool = idx;
+    if (cell.includes('template') || cell.includes('nfp')) colMap.template = idx;
+  });
+  return colMap;
+}
+
+export function parseSOPExcel(filePath: string, fileName = path.basename(filePath)): SOPDocument[] {
   console.log(`Reading Excel file: ${filePath}`);
 
   if (!fs.existsSync(filePath)) {
@@ -36,7 +76,6 @@ export function parseSOPExcel(filePath: string): SOPDocument[] {
   const fileBuffer = fs.readFileSync(filePath);
   const workbook = XLSX.read(fileBuffer, { type: 'buffer' });
   const documents: SOPDocument[] = [];
-  const fileName = path.basename(filePath);
 
   workbook.SheetNames.forEach((sheetName) => {
     console.log(`Processing sheet: ${sheetName}`);
@@ -48,7 +87,7 @@ export function parseSOPExcel(filePath: string): SOPDocument[] {
 
     // Find header row index to identify columns
     let headerRowIndex = -1;
-    let colMap = { sn: -1, task: -1, who: -1, tool: -1, template: -1 };
+    let colMap: StepColumns = mapStepColumns([]);
 
     for (let i = 0; i < Math.min(10, rows.length); i++) {
       const row = rows[i];
@@ -57,13 +96,7 @@ export function parseSOPExcel(filePath: string): SOPDocument[] {
 
       if (rowStr.some(c => c.includes('tasks') || c.includes('what'))) {
         headerRowIndex = i;
-        rowStr.forEach((cell, idx) => {
-          if (cell.includes('s n') || cell === 'sn') colMap.sn = idx;
-          if (cell.includes('task') || cell.includes('what')) colMap.task = idx;
-          if (cell.includes('who')) colMap.who = idx;
-          if (cell.includes('tool')) colMap.tool = idx;
-          if (cell.includes('template') || cell.includes('nfp')) colMap.template = idx;
-        });
+        colMap = mapStepColumns(rowStr);
         break;
       }
     }
@@ -93,7 +126,7 @@ export function parseSOPExcel(filePath: string): SOPDocument[] {
         // New SOP
         const title = taskVal;
         // Generate clean ID
-        const id = title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+        const id = toSOPId(title);
 
         const newDoc: SOPDocument = {
           id,
@@ -127,47 +160,373 @@ export function parseSOPExcel(filePath: string): SOPDocument[] {
 
     // Finalize content strings
     documents.forEach(doc => {
-      doc.content = doc.steps.map(s =>
-        `${s.order}. ${s.task} (Role: ${s.role}) [Tools: ${s.tools}]`
-      ).join('\n');
+      doc.content = formatSOPContent(doc.steps);
     });
   });
 
   return documents;
 }
 
-export async function parseSOPWord(filePath: string): Promise<SOPDocument[]> {
+export interface SOPBlockOptions {
+  sourceFile: string;
+  title: string; // For content before the first heading, or a document without headings
+  category: string; // Used until a heading above the SOP titles names one
+  defaults?: Partial<Defaults>; // Role, tools and template for steps that don't name their own
+}
+
+// Bold-only paragraphs this short are treated as headings in documents without heading styles
+const MAX_HEADING_LENGTH = 150;
+// Bold lines like "If SIP is started with FOT, then use" introduce a branch of the SOP above
+const SUB_HEADING = /^(if|when|in case)\b|:$/i;
+const NUMBERED_LINE = /^(?:step\s*)?\d{1,3}\s*[.):]\s+(\S.*)$/i;
+const BULLET_LINE = /^[•\-–*]\s+(\S.*)$/;
+const LABEL_LINE = /^(who|role|responsibility|owner|tools?|systems?|templates?|nfp)\s*[:–-]\s*(\S.*)$/i;
+// Scanned SOP pages, read with OCR
+export const IMAGE_EXTENSIONS = ['.png', '.jpg', '.jpeg', '.tif', '.tiff'];
+// SOPs authored in a wiki
+export const MARKUP_EXTENSIONS = ['.md', '.markdown', '.html', '.htm'];
+// Folders whose name says nothing about the SOPs in them
+const GENERIC_FOLDERS = new Set(['template_sample', 'uploads', 'data', 'sops', 'sop_data']);
+
+type Defaults = Pick<SOPStep, 'role' | 'tools' | 'template'>;
+
+interface SOPEntry extends Defaults {
+  kind: 'step' | 'paragraph' | 'heading';
+  task: string;
+  page?: number;
+  confidence?: number;
+}
+
+interface SOPDraft {
+  title: string;
+  category: string;
+  entries: SOPEntry[];
+  defaults: Defaults;
+}
+
+function emptyDefaults(): Defaults {
+  return { role: '', tools: '', template: '' };
+}
+
+// The step field a "Who:"/"Tools:"/"Template:" label or front-matter key sets
+function labelField(label: string): keyof Defaults | null {
+  const key = label.toLowerCase();
+  if (/^(tools?|systems?)$/.test(key)) return 'tools';
+  if (/^(templates?|nfp)$/.test(key)) return 'template';
+  if (/^(who|role|responsibility|owner)$/.test(key)) return 'role';
+  return null;
+}
+
+function listItemText(item: HTMLListItem): string {
+  if (item.children.length === 0) return item.text;
+  const children = item.children.map(listItemText).join('; ');
+  if (!item.text) return children;
+  return item.text.endsWith(':') ? `${item.text} ${children}` : `${item.text}: ${children}`;
+}
+
+function stepLine(text: string): string | null {
+  const match = text.match(NUMBERED_LINE) || text.match(BULLET_LINE);
+  return match ? match[1] : null;
+}
+
+function stepColumns(rows: string[][]): StepColumns | null {
+  const colMap = mapStepColumns(rows[0]);
+  return colMap.task === -1 ? null : colMap;
+}
+
+function isStepBlock(block: HTMLBlock): boolean {
+  if (block.type === 'list') return true;
+  if (block.type === 'table') return stepColumns(block.rows) !== null;
+  return block.type === 'paragraph' && stepLine(block.text) !== null;
+}
+
+// Word documents often use bold paragraphs instead of heading styles
+function withHeadings(blocks: HTMLBlock[]): HTMLBlock[] {
+  if (blocks.some(block => block.type === 'heading')) return blocks;
+  return blocks.map(block =>
+    block.type === 'paragraph' && block.bold && block.text.length <= MAX_HEADING_LENGTH && !stepLine(block.text)
+      ? { type: 'heading', level: SUB_HEADING.test(block.text) ? 2 : 1, text: block.text }
+      : block
+  );
+}
+
+// The shallowest heading level that has steps under it titles the SOPs; shallower
+// headings name categories and deeper ones are sections within an SOP
+function sopHeadingLevel(blocks: HTMLBlock[]): number | null {
+  const levels: number[] = [];
+  const withSteps: number[] = [];
+  let current: number | null = null;
+  for (const block of blocks) {
+    if (block.type === 'heading') {
+      current = block.level;
+      levels.push(block.level);
+    } else if (current !== null && isStepBlock(block)) {
+      withSteps.push(current);
+    }
+  }
+  if (levels.length === 0) return null;
+  return Math.min(...(withSteps.length > 0 ? withSteps : levels));
+}
+
+function addBlock(draft: SOPDraft, block: HTMLBlock): void {
+  const push = (kind: SOPEntry['kind'], task: string, values: Partial<Defaults> = {}, confidence = block.confidence) => {
+    if (task) draft.entries.push({ kind, task, ...emptyDefaults(), ...values, page: block.page, confidence });
+  };
+
+  if (block.type === 'paragraph') {
+    const label = block.text.match(LABEL_LINE);
+    if (label) {
+      draft.defaults[labelField(label[1])!] = label[2];
+      return;
+    }
+    const step = stepLine(block.text);
+    push(step ? 'step' : 'paragraph', step ?? block.text);
+  } else if (block.type === 'list') {
+    block.items.forEach(item => push('step', listItemText(item)));
+  } else if (block.type === 'table') {
+    const colMap = stepColumns(block.rows);
+    if (!colMap) {
+      block.rows.forEach(row => push('paragraph', row.filter(Boolean).join(' | ')));
+      return;
+    }
+    block.rows.slice(1).forEach((row, i) => push('step', cleanStr(row[colMap.task]), {
+      role: cleanStr(row[colMap.who]),
+      tools: cleanStr(row[colMap.tool]),
+      template: cleanStr(row[colMap.template]),
+    }, block.rowConfidence?.[i + 1] ?? block.confidence));
+  }
+}
+
+function finishSOP(draft: SOPDraft, sourceFile: string): SOPDocument | null {
+  // Prose only becomes steps when the section has no list or table steps
+  const hasSteps = draft.entries.some(entry => entry.kind === 'step');
+  const steps: SOPStep[] = draft.entries
+    .filter(entry => !hasSteps || entry.kind !== 'paragraph')
+    .map((entry, i) => ({
+      order: i + 1,
+      task: entry.task,
+      role: entry.role || draft.defaults.role,
+      tools: entry.tools || draft.defaults.tools,
+      template: entry.template || draft.defaults.template,
+      ...(entry.page !== undefined && { page: entry.page }),
+      ...(entry.confidence !== undefined && { ocrConfidence: Math.round(entry.confidence) }),
+    }));
+  if (steps.length === 0) return null;
+
+  return {
+    id: toSOPId(draft.title),
+    title: draft.title,
+    category: draft.category,
+    sourceFile,
+    steps,
+    content: formatSOPContent(steps),
+  };
+}
+
+/**
+ * Split a document's blocks into SOPs: each heading at the SOP level starts one, headings
+ * above it set the category, and lists, step tables and numbered lines become its steps.
+ */
+export function parseSOPBlocks(blocks: HTMLBlock[], options: SOPBlockOptions): SOPDocument[] {
+  blocks = withHeadings(blocks);
+  const sopLevel = sopHeadingLevel(blocks);
+  const drafts: SOPDraft[] = [];
+  let category = options.category;
+  let current: SOPDraft | null = null;
+  let seenHeading = false;
+
+  const start = (title: string): SOPDraft => {
+    const draft = { title, category, entries: [], defaults: { ...emptyDefaults(), ...options.defaults } };
+    drafts.push(draft);
+    return draft;
+  };
+
+  for (const block of blocks) {
+    if (block.type === 'heading') {
+      const text = block.text.replace(/\s*:\s*$/, '');
+      if (!text) continue;
+      seenHeading = true;
+      if (sopLevel !== null && block.level < sopLevel) {
+        category = text;
+        current = null;
+      } else if (block.level === sopLevel || !current) {
+        current = start(text);
+      } else {
+        current.entries.push({ kind: 'heading', task: text, ...emptyDefaults(), page: block.page, confidence: block.confidence });
+      }
+      continue;
+    }
+
+    let draft: SOPDraft | null = current;
+    if (!draft) {
+      // Only steps before the first heading make an SOP of their own; an intro doesn't
+      if (seenHeading || (sopLevel !== null && !isStepBlock(block))) continue;
+      draft = current = start(options.title);
+    }
+    addBlock(draft, block);
+  }
+
+  return drafts
+    .map(draft => finishSOP(draft, options.sourceFile))
+    .filter((doc): doc is SOPDocument => doc !== null);
+}
+
+// "mutual_funds/x.docx" -> "Mutual Funds"; upload and sample folders -> "General"
+function categoryFromFolder(filePath: string): string {
+  const folder = path.basename(path.dirname(path.resolve(filePath)));
+  if (GENERIC_FOLDERS.has(folder.toLowerCase())) return 'General';
+  const name = folder.replace(/[_-]+/g, ' ').replace(/\s+/g, ' ').trim();
+  return name ? name.replace(/\b\w/g, c => c.toUpperCase()) : 'General';
+}
+
+export async function parseSOPWord(filePath: string, fileName = path.basename(filePath)): Promise<SOPDocument[]> {
   console.log(`Reading Word document: ${filePath}`);
   const fileBuffer = fs.readFileSync(filePath);
-  const result = await mammoth.extractRawText({ buffer: fileBuffer });
-  const text = result.value;
-  const fileName = path.basename(filePath);
-
-  // Very basic parsing for Word docs as they are unstructured
-  // Treat whole doc as one SOP for now, unless we see clear headers
-  const id = fileName.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
-
-  return [{
-    id,
-    title: fileName.replace(/\.docx?$/, ''),
-    category: 'General', // TODO: infer from folder?
+  const result = await mammoth.convertToHtml({ buffer: fileBuffer });
+
+  const documents = parseSOPBlocks(htmlToBlocks(result.value), {
+    sourceFile: fileName,
+    title: fileName.replace(/\.docx?$/i, ''),
+    category: categoryFromFolder(filePath),
+  });
+  if (documents.length === 0) {
+    console.warn(`No SOP steps found in ${fileName}`);
+  }
+  return documents;
+}
+
+/**
+ * Word 97-2003 (.doc). Files saved from other tools under a .doc name are often really
+ * .docx or HTML, so those are read as what they are.
+ */
+export async function parseSOPDoc(filePath: string, fileName = path.basename(filePath)): Promise<SOPDocument[]> {
+  console.log(`Reading Word 97-2003 document: ${filePath}`);
+  const fileBuffer = fs.readFileSync(filePath);
+  // Sniff the format, skipping any UTF-8 byte order mark and leading whitespace
+  const head = fileBuffer.subarray(0, 512).toString('latin1').replace(/^\xEF\xBB\xBF/, '').trimStart();
+
+  if (head.startsWith('PK')) return await parseSOPWord(filePath, fileName);
+  if (head.startsWith('{\\rtf')) {
+    throw new Error('File is RTF saved with a .doc extension. Open it in Word and save it as .docx');
+  }
+  const blocks = head.startsWith('<')
+    ? htmlToBlocks(fileBuffer.toString('utf8'))
+    : docToBlocks(fileBuffer);
+
+  const documents = parseSOPBlocks(blocks, {
     sourceFile: fileName,
-    steps: [{
-      order: 1,
-      task: text,
-      role: 'Unknown',
-      tools: '',
-      template: ''
-    }],
-    content: text
-  }];
-}
-
-// Wrapper for compatibility/directory logic
-export async function parseSOPFile(filePath: string): Promise<SOPDocument[]> {
+    title: fileName.replace(/\.doc$/i, ''),
+    category: categoryFromFolder(filePath),
+  });
+  if (documents.length === 0) {
+    console.warn(`No SOP steps found in ${fileName}`);
+  }
+  return documents;
+}
+
+function unquote(value: string): string {
+  return value.trim().replace(/^(["'])(.*)\1$/, '$2').trim();
+}
+
+// A leading "---" block of `key: value` lines; handles the YAML wikis write there (plain or
+// quoted scalars, [inline, lists] and "- item" lists), with list values joined by commas
+function parseFrontMatter(source: string): { fields: Record<string, string>; body: string } {
+  const match = source.match(/^\uFEFF?---[ \t]*\r?\n([\s\S]*?)\r?\n(?:---|\.\.\.)[ \t]*(?:\r?\n|$)/);
+  if (!match) return { fields: {}, body: source };
+
+  const fields: Record<string, string> = {};
+  let listKey: string | null = null;
+  for (const line of match[1].split(/\r?\n/)) {
+    if (/^\s*(#|$)/.test(line)) continue;
+    const item = line.match(/^\s*-\s+(.*)$/);
+    if (item && listKey) {
+      fields[listKey] = [fields[listKey], unquote(item[1])].filter(Boolean).join(', ');
+      continue;
+    }
+    const pair = line.match(/^([A-Za-z][\w -]*?)\s*:\s*(.*)$/);
+    if (!pair) continue;
+    const key = pair[1].toLowerCase();
+    const value = pair[2].trim();
+    listKey = value === '' ? key : null;
+    fields[key] = /^\[.*\]$/.test(value)
+      ? value.slice(1, -1).split(',').map(unquote).filter(Boolean).join(', ')
+      : unquote(value);
+  }
+  return { fields, body: source.slice(match[0].length) };
+}
+
+/**
+ * Markdown (.md) and HTML SOPs, e.g. exported from a wiki. Headings give the SOP titles and
+ * categories and lists the steps, as for Word; front-matter can set the title, category
+ * and the role, tools and template of steps. Links and images are kept in the step text.
+ */
+export async function parseSOPMarkup(filePath: string, fileName = path.basename(filePath)): Promise<SOPDocument[]> {
+  const ext = path.extname(filePath).toLowerCase();
+  const markdown = ext === '.md' || ext === '.markdown';
+  console.log(`Reading ${markdown ? 'Markdown' : 'HTML'} SOP: ${filePath}`);
+  const { fields, body } = parseFrontMatter(fs.readFileSync(filePath, 'utf8'));
+  const html = markdown ? await marked.parse(body) : body;
+
+  const defaults: Partial<Defaults> = {};
+  for (const [key, value] of Object.entries(fields)) {
+    const field = labelField(key);
+    if (field) defaults[field] = value;
+  }
+
+  const documents = parseSOPBlocks(htmlToBlocks(html, { links: true }), {
+    sourceFile: fileName,
+    title: fields.title || fileName.replace(/\.[a-z]+$/i, ''),
+    category: fields.category || categoryFromFolder(filePath),
+    defaults,
+  });
+  if (documents.length === 0) {
+    console.warn(`No SOP steps found in ${fileName}`);
+  }
+  return documents;
+}
+
+export async function parseSOPPDF(filePath: string, fileName = path.basename(filePath)): Promise<SOPDocument[]> {
+  console.log(`Reading PDF: ${filePath}`);
+  const { pdfToBlocks } = await import('./pdf-blocks');
+  const blocks = await pdfToBlocks(new Uint8Array(fs.readFileSync(filePath)));
+
+  const documents = parseSOPBlocks(blocks, {
+    sourceFile: fileName,
+    title: fileName.replace(/\.pdf$/i, ''),
+    category: categoryFromFolder(filePath),
+  });
+  if (documents.length === 0) {
+    console.warn(`No SOP steps found in ${fileName}`);
+  }
+  return documents;
+}
+
+export async function parseSOPImage(filePath: string, fileName = path.basename(filePath)): Promise<SOPDocument[]> {
+  console.log(`Reading scanned image: ${filePath}`);
+  const { imageToBlocks } = await import('./pdf-blocks');
+  const blocks = await imageToBlocks(fs.readFileSync(filePath));
+
+  const documents = parseSOPBlocks(blocks, {
+    sourceFile: fileName,
+    title: fileName.replace(/\.[a-z]+$/i, ''),
+    category: categoryFromFolder(filePath),
+  });
+  if (documents.length === 0) {
+    console.warn(`No SOP steps found in ${fileName}`);
+  }
+  return documents;
+}
+
+// Wrapper for compatibility/directory logic. `fileName` is the name SOPs are titled and
+// sourced by when it differs from the file on disk (uploads are stored under a timestamp)
+export async function parseSOPFile(filePath: string, fileName = path.basename(filePath)): Promise<SOPDocument[]> {
   const ext = path.extname(filePath).toLowerCase();
-  if (ext.includes('xls')) return parseSOPExcel(filePath);
-  if (ext.includes('doc')) return await parseSOPWord(filePath);
+  if (ext === '.pdf') return await parseSOPPDF(filePath, fileName);
+  if (IMAGE_EXTENSIONS.includes(ext)) return await parseSOPImage(filePath, fileName);
+  if (MARKUP_EXTENSIONS.includes(ext)) return await parseSOPMarkup(filePath, fileName);
+  if (ext.includes('xls')) return parseSOPExcel(filePath, fileName);
+  if (ext === '.doc') return await parseSOPDoc(filePath, fileName);
+  if (ext === '.docx') return await parseSOPWord(filePath, fileName);
   return [];
 }
 
@@ -177,7 +536,7 @@ export async function parseSOPDirectory(dirPath: string): Promise<SOPDocument[]>
   const docs: SOPDocument[] = [];
 
   for (const f of files) {
-    if (['.xlsx', '.xls', '.docx'].includes(path.extname(f).toLowerCase())) {
+    if (['.xlsx', '.xls', '.docx', '.doc', '.pdf', ...IMAGE_EXTENSIONS, ...MARKUP_EXTENSIONS].includes(path.extname(f).toLowerCase())) {
       try {
         const results = await parseSOPFile(path.join(dirPath, f));
         docs.push(...results);
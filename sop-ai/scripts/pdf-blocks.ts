@@ -0,0 +1,286 @@
+/**
+ * PDF block reader
+ * Rebuilds lines from the positioned text pdf.js extracts, drops running headers and
+ * footers, and turns the lines into the same blocks the HTML reader produces: headings
+ * (by font size), paragraphs and step tables, each tagged with the page it starts on.
+ * Pages without a text layer (scans) and image files are OCR'd into the same lines,
+ * and blocks read that way carry the OCR confidence of their text.
+ */
+
+import type { HTMLBlock } from './html-blocks';
+import { mapStepColumns, type StepColumns } from './parse-sop';
+import { recognizeImages, type OCRLine } from './ocr';
+
+interface TextItem {
+  text: string;
+  x: number;
+  y: number; // Baseline, measured up from the bottom of the page
+  width: number;
+  size: number;
+  confidence?: number;
+}
+
+interface PDFCell {
+  text: string;
+  x: number;
+}
+
+interface PDFLine {
+  page: number;
+  y: number;
+  size: number;
+  cells: PDFCell[];
+  text: string;
+  confidence?: number;
+}
+
+// Lines whose baselines are closer than this fraction of the font size are the same line
+const SAME_LINE = 0.5;
+// Horizontal gap (in font sizes) that separates table cells rather than words
+const CELL_GAP = 1.5;
+// Vertical gap (in font sizes) that ends a paragraph or table
+const PARAGRAPH_GAP = 1.8;
+const TABLE_GAP = 3;
+// Lines at least this much larger than body text are headings
+const HEADING_SCALE = 1.15;
+const MAX_HEADING_LENGTH = 150;
+// Scanned pages are rendered at 3x (216 dpi) for OCR
+const OCR_SCALE = 3;
+const STEP_START = /^(?:(?:step\s*)?\d{1,3}\s*[.):]|[•\-–*])\s+\S/i;
+const PAGE_NUMBER = /^(page\s*)?\d+(\s*(of|\/)\s*\d+)?$/i;
+
+function lineText(cells: PDFCell[]): string {
+  return cells.map(cell => cell.text).join(' ').replace(/\s+/g, ' ').trim();
+}
+
+function minConfidence(...values: (number | undefined)[]): number | undefined {
+  const known = values.filter((value): value is number => value !== undefined);
+  return known.length > 0 ? Math.min(...known) : undefined;
+}
+
+// Group positioned text into lines, top to bottom, with widely spaced runs as separate cells
+function groupLines(items: TextItem[], page: number): PDFLine[] {
+  const lines: (PDFLine & { end: number })[] = [];
+  for (const item of [...items].sort((a, b) => b.y - a.y || a.x - b.x)) {
+    let line = lines.find(l => Math.abs(l.y - item.y) <= Math.max(l.size, item.size) * SAME_LINE);
+    if (!line) {
+      line = { page, y: item.y, size: item.size, cells: [], text: '', end: -Infinity };
+      lines.push(line);
+    }
+    const last = line.cells[line.cells.length - 1];
+    if (last && item.x - line.end < item.size * CELL_GAP) {
+      last.text += item.x - line.end > item.size * 0.15 ? ` ${item.text}` : item.text;
+    } else {
+      line.cells.push({ text: item.text, x: item.x });
+    }
+    line.end = Math.max(line.end, item.x + item.width);
+    line.size = Math.max(line.size, item.size);
+    line.confidence = minConfidence(line.confidence, item.confidence);
+  }
+
+  return lines
+    .sort((a, b) => b.y - a.y)
+    .map(line => {
+      const cells = line.cells.map(cell => ({ ...cell, text: cell.text.replace(/\s+/g, ' ').trim() }));
+      return { page, y: line.y, size: line.size, cells, text: lineText(cells), confidence: line.confidence };
+    });
+}
+
+// OCR words as text items; `height` flips image rows (top down) into PDF coordinates
+function ocrItems(lines: OCRLine[], scale: number, height: number): TextItem[] {
+  return lines.flatMap(line => line.words.map(word => ({
+    text: word.text,
+    x: word.x0 / scale,
+    y: height - line.y1 / scale,
+    width: (word.x1 - word.x0) / scale,
+    size: (line.y1 - line.y0) / scale,
+    confidence: word.confidence,
+  })));
+}
+
+async function readLines(data: Uint8Array): Promise<{ lines: PDFLine[]; pageCount: number }> {
+  const { getDocument, VerbosityLevel } = await import('pdfjs-dist/legacy/build/pdf.mjs');
+  const pdf = await getDocument({ data, isEvalSupported: false, verbosity: VerbosityLevel.ERRORS }).promise;
+  const linesByPage = new Map<number, PDFLine[]>();
+  const scans: { page: number; height: number; image: Buffer }[] = [];
+
+  try {
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const content = await page.getTextContent();
+      const items: TextItem[] = content.items
+        .filter(item => 'str' in item && item.str.trim() !== '')
+        .map(item => {
+          const { str, transform, width } = item as { str: string; transform: number[]; width: number };
+          return { text: str, x: transform[4], y: transform[5], width, size: Math.hypot(transform[2], transform[3]) || 10 };
+        });
+
+      if (items.length > 0) {
+        linesByPage.set(pageNumber, groupLines(items, pageNumber));
+      } else {
+        const { createCanvas } = await import('@napi-rs/canvas');
+        const viewport = page.getViewport({ scale: OCR_SCALE });
+        const canvas = createCanvas(Math.ceil(viewport.width), Math.ceil(viewport.height));
+        await page.render({ canvas: canvas as unknown as HTMLCanvasElement, viewport }).promise;
+        scans.push({ page: pageNumber, height: viewport.height / OCR_SCALE, image: canvas.toBuffer('image/png') });
+      }
+      page.cleanup();
+    }
+  } finally {
+    await pdf.destroy();
+  }
+
+  if (scans.length > 0) {
+    console.log(`[PDF] ${scans.length} page(s) have no text layer, running OCR`);
+    const recognized = await recognizeImages(scans.map(scan => scan.image), 72 * OCR_SCALE);
+    scans.forEach((scan, i) => {
+      linesByPage.set(scan.page, groupLines(ocrItems(recognized[i], OCR_SCALE, scan.height), scan.page));
+    });
+  }
+
+  const pageCount = linesByPage.size;
+  const lines = Array.from(linesByPage.keys())
+    .sort((a, b) => a - b)
+    .flatMap(page => linesByPage.get(page)!);
+  return { lines, pageCount };
+}
+
+// Page numbers, and running headers/footers repeated on at least half the pages
+function dropPageFurniture(lines: PDFLine[], pageCount: number): PDFLine[] {
+  const pagesByText = new Map<string, Set<number>>();
+  const key = (line: PDFLine) => line.text.toLowerCase().replace(/\d+/g, '#');
+  for (const line of lines) {
+    const pages = pagesByText.get(key(line)) ?? new Set<number>();
+    pages.add(line.page);
+    pagesByText.set(key(line), pages);
+  }
+  const repeatedOn = Math.max(2, Math.ceil(pageCount / 2));
+
+  return lines.filter(line =>
+    !(line.cells.length === 1 && PAGE_NUMBER.test(line.text))
+    && !(pageCount > 1 && pagesByText.get(key(line))!.size >= repeatedOn)
+  );
+}
+
+// Heading level for each distinct heading font size, largest first
+function headingLevels(lines: PDFLine[]): Map<number, number> {
+  const sizes = lines.map(line => Math.round(line.size)).sort((a, b) => a - b);
+  const bodySize = sizes[Math.floor(sizes.length / 2)] ?? 0;
+  const headingSizes = Array.from(new Set(sizes.filter(size => size >= bodySize * HEADING_SCALE))).sort((a, b) => b - a);
+  return new Map(headingSizes.slice(0, 6).map((size, i) => [size, i + 1]));
+}
+
+function columnOf(cell: PDFCell, columnXs: number[], size: number): number {
+  let column = 0;
+  columnXs.forEach((x, i) => {
+    if (x <= cell.x + size * CELL_GAP) column = i;
+  });
+  return column;
+}
+
+function linesToBlocks(allLines: PDFLine[], pageCount: number): HTMLBlock[] {
+  const lines = dropPageFurniture(allLines, pageCount);
+  const levels = headingLevels(lines);
+  const blocks: HTMLBlock[] = [];
+
+  type TableRow = { cells: string[]; page: number; confidence?: number };
+  let paragraph: { text: string; page: number; last: PDFLine; confidence?: number } | null = null;
+  let table: { header: string[]; columns: StepColumns; xs: number[]; rows: TableRow[]; last: PDFLine } | null = null;
+
+  const flushParagraph = () => {
+    if (paragraph) {
+      blocks.push({ type: 'paragraph', text: paragraph.text, bold: false, page: paragraph.page, confidence: paragraph.confidence });
+    }
+    paragraph = null;
+  };
+  const flushTable = () => {
+    if (!table) return;
+    // A table that runs over a page break becomes one block per page, each with the header
+    for (const page of new Set(table.rows.map(row => row.page))) {
+      const rows = table.rows.filter(row => row.page === page);
+      blocks.push({
+        type: 'table',
+        rows: [table.header, ...rows.map(row => row.cells)],
+        page,
+        ...(rows.some(row => row.confidence !== undefined) && { rowConfidence: [undefined, ...rows.map(row => row.confidence)] }),
+      });
+    }
+    table = null;
+  };
+  const gapAfter = (previous: PDFLine, line: PDFLine) =>
+    previous.page === line.page ? (previous.y - line.y) / line.size : Infinity;
+
+  for (const line of lines) {
+    const level = levels.get(Math.round(line.size));
+    if (level && line.cells.length === 1 && line.text.length <= MAX_HEADING_LENGTH) {
+      flushParagraph();
+      flushTable();
+      blocks.push({ type: 'heading', level, text: line.text, page: line.page, confidence: line.confidence });
+      continue;
+    }
+
+    if (table) {
+      const gap = gapAfter(table.last, line);
+      if (gap <= TABLE_GAP || (line.page !== table.last.page && line.cells.length > 1)) {
+        const cells: string[] = table.header.map(() => '');
+        line.cells.forEach(cell => {
+          const column = columnOf(cell, table!.xs, line.size);
+          cells[column] = cells[column] ? `${cells[column]} ${cell.text}` : cell.text;
+        });
+        // Wrapped cell text: no serial number (or task) of its own, so it continues the row above
+        const key = table.columns.sn !== -1 ? table.columns.sn : table.columns.task;
+        const previous = table.rows[table.rows.length - 1];
+        if (!cells[key] && previous && previous.page === line.page) {
+          previous.cells = previous.cells.map((cell, i) => [cell, cells[i]].filter(Boolean).join(' '));
+          previous.confidence = minConfidence(previous.confidence, line.confidence);
+        } else {
+          table.rows.push({ cells, page: line.page, confidence: line.confidence });
+        }
+        table.last = line;
+        continue;
+      }
+      flushTable();
+    }
+
+    if (line.cells.length > 1) {
+      const columns = mapStepColumns(line.cells.map(cell => cell.text));
+      if (columns.task !== -1) {
+        flushParagraph();
+        table = { header: line.cells.map(cell => cell.text), columns, xs: line.cells.map(cell => cell.x), rows: [], last: line };
+        continue;
+      }
+    }
+
+    if (paragraph && !STEP_START.test(line.text) && gapAfter(paragraph.last, line) <= PARAGRAPH_GAP) {
+      paragraph.text += ` ${line.text}`;
+      paragraph.last = line;
+      paragraph.confidence = minConfidence(paragraph.confidence, line.confidence);
+      continue;
+    }
+    flushParagraph();
+    paragraph = { text: line.text, page: line.page, last: line, confidence: line.confidence };
+  }
+  flushParagraph();
+  flushTable();
+
+  return blocks;
+}
+
+/**
+ * Blocks of a PDF in reading order, each with the page it starts on.
+ */
+export async function pdfToBlocks(data: Uint8Array): Promise<HTMLBlock[]> {
+  const { lines, pageCount } = await readLines(data);
+  return linesToBlocks(lines, pageCount);
+}
+
+/**
+ * Blocks of a scanned page image (PNG, JPEG, TIFF), read with OCR.
+ */
+export async function imageToBlocks(image: Buffer): Promise<HTMLBlock[]> {
+  const [recognized] = await recognizeImages([image]);
+  const height = Math.max(0, ...recognized.map(line => line.y1));
+  // A single image has no page numbers worth citing
+  return linesToBlocks(groupLines(ocrItems(recognized, 1, height), 1), 1)
+    .map(block => ({ ...block, page: undefined }));
+}
@@ -1,17 +1,14 @@
-import { ChromaClient } from 'chromadb';
+import { getVectorStore, SOP_COLLECTION, ACRONYM_COLLECTION } from '../lib/vectorStore';
 
+// Drops both collections from the configured vector store (Chroma, or SQLite with VECTOR_STORE=sqlite)
 async function resetCollections() {
-  const client = new ChromaClient({ path: 'http://localhost:8000' });
+  const store = getVectorStore();
   
-  const collectionsToDelete = ['sop-documents', 'sop_acronyms'];
+  const collectionsToDelete = [SOP_COLLECTION, ACRONYM_COLLECTION];
   
   for (const name of collectionsToDelete) {
-    try {
-      await client.deleteCollection({ name });
-      console.log(`✓ Deleted collection: ${name}`);
-    } catch (e: any) {
-      console.log(`⚠ Collection ${name} doesn't exist or already deleted: ${e.message}`);
-    }
+    await store.dropCollection(name);
+    console.log(`✓ Deleted collection: ${name}`);
   }
   
   console.log('\n✅ Done! Now run:');
@@ -23,4 +20,3 @@ resetCollections().catch(error => {
   console.error('Error resetting collections:', error);
   process.exit(1);
 });
-
@@ -0,0 +1,5 @@
+// @tesseract.js-data/eng ships without type declarations
+declare module '@tesseract.js-data/eng' {
+  const eng: { code: string; gzip: boolean; langPath: string };
+  export default eng;
+}
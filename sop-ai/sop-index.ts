@@ -1,21 +1,23 @@
 // SOP Indexing Script
-// Ingests SOP documents from Excel and Word files into ChromaDB
+// Ingests SOP documents from Excel and Word files into the vector store
 
 import { rebuildIndex } from './lib/chroma';
 
 async function indexSOPs() {
-  const sopFilePath = process.argv[2];
+  const args = process.argv.slice(2);
+  const full = args.includes('--full');
+  const sopFilePath = args.find(arg => !arg.startsWith('--'));
   
   console.log('Starting SOP indexing...');
   console.log('This will:');
-  console.log('1. Parse Excel SOP files and Word documents (.docx)');
+  console.log('1. Parse Excel SOP files and Word documents (.docx, .doc)');
   console.log('2. Process files from template_sample folder');
-  console.log('3. Generate embeddings using Ollama (nomic-embed-text)');
-  console.log('4. Store in ChromaDB for RAG queries');
+  console.log(`3. Generate embeddings using Ollama (nomic-embed-text) for ${full ? 'all' : 'new or changed'} step chunks`);
+  console.log('4. Store in the vector store (ChromaDB or local SQLite) for RAG queries');
   console.log('');
 
   try {
-    await rebuildIndex(sopFilePath);
+    await rebuildIndex(sopFilePath, { full });
     console.log('\n✅ Indexing complete!');
     process.exit(0);
   } catch (error) {
@@ -0,0 +1,69 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import { loadAcronyms, getAcronymMap } from '../lib/acronyms';
+import { validateAcronymsInResponse, expandUnexpandedAcronyms } from '../lib/validateResponse';
+import { indexAcronyms, queryAcronyms, getAcronymStats } from '../lib/chroma';
+import { useFakes } from './helpers';
+
+describe('acronym data', () => {
+  it('loads the acronym CSV', () => {
+    expect(loadAcronyms().length).toBeGreaterThan(100);
+    expect(getAcronymMap().get('MICR')?.fullForm).toBe('Magnetic Ink Character Recognition');
+  });
+});
+
+describe('validateAcronymsInResponse', () => {
+  it('corrects a wrong expansion', () => {
+    const { correctedResponse, corrections } = validateAcronymsInResponse(
+      'Check the KYC (Keep Your Cash) documents.'
+    );
+
+    expect(correctedResponse).toBe('Check the KYC (Know Your Customer) documents.');
+    expect(corrections).toHaveLength(1);
+  });
+
+  it('accepts partial and case-insensitive matches', () => {
+    const response = 'Submit to the AMC (asset management company) and start the SIP (Systematic Investment Plan).';
+
+    expect(validateAcronymsInResponse(response)).toEqual({ correctedResponse: response, corrections: [] });
+  });
+
+  it('ignores common words that look like acronyms', () => {
+    const response = 'Log IT (the service desk) as the owner.';
+
+    expect(validateAcronymsInResponse(response).correctedResponse).toBe(response);
+  });
+});
+
+describe('expandUnexpandedAcronyms', () => {
+  it('expands the first occurrence of each known acronym only', () => {
+    expect(expandUnexpandedAcronyms('Verify KYC first. KYC must be current.')).toBe(
+      'Verify KYC (Know Your Customer) first. KYC must be current.'
+    );
+  });
+
+  it('leaves acronyms that are already expanded or unknown', () => {
+    const response = 'Verify KYC (Know Your Customer) in the ZZQX tool.';
+
+    expect(expandUnexpandedAcronyms(response)).toBe(response);
+  });
+});
+
+describe('acronym index', () => {
+  beforeAll(async () => {
+    useFakes();
+    await indexAcronyms();
+  });
+
+  it('indexes every acronym', async () => {
+    const stats = await getAcronymStats();
+
+    expect(stats.total).toBe(loadAcronyms().length);
+    expect(stats.byCategory['Banking & Financial Services']).toBeGreaterThan(0);
+  });
+
+  it('finds an acronym by name', async () => {
+    const results = await queryAcronyms('MICR', 5);
+
+    expect(results[0]).toMatchObject({ abbreviation: 'MICR', fullForm: 'Magnetic Ink Character Recognition' });
+  });
+});
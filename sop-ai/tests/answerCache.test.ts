@@ -0,0 +1,59 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  cacheAnswer,
+  clearAnswerCache,
+  findCachedAnswer,
+  invalidateAnswersForSOPs,
+  normalizeQuestion,
+  type CachedAnswer,
+} from '../lib/answerCache';
+import { useFakes } from './helpers';
+
+function answerFrom(...sopIds: string[]): CachedAnswer {
+  return {
+    answer: `Answer from ${sopIds.join(', ') || 'no SOP'}`,
+    confidence: 0.8,
+    sources: sopIds.map(sopId => ({ sopId, title: sopId, steps: [1] })),
+    citations: [],
+    unsupportedClaims: [],
+    procedure: null,
+  };
+}
+
+describe('answer cache', () => {
+  useFakes();
+
+  beforeEach(async () => {
+    await clearAnswerCache();
+  });
+
+  it('normalizes case, whitespace and trailing punctuation', () => {
+    expect(normalizeQuestion('  How do I  register a SIP?? ')).toBe('how do i register a sip');
+  });
+
+  it('matches near-duplicate questions within the same scope', async () => {
+    await cacheAnswer('How do I process a SIP order with FOT?', undefined, answerFrom('sip'));
+
+    expect(await findCachedAnswer('how do i process a sip order with fot')).toMatchObject({ answer: 'Answer from sip' });
+    expect(await findCachedAnswer('How do I process with FOT a SIP order?')).not.toBeNull();
+    expect(await findCachedAnswer('How do I process a SIP order with FOT?', 'sip')).toBeNull();
+    expect(await findCachedAnswer('Who approves a lumpsum redemption?')).toBeNull();
+  });
+
+  it('skips low-confidence answers', async () => {
+    await cacheAnswer('What is the dress code?', undefined, { ...answerFrom(), confidence: 0.1 });
+
+    expect(await findCachedAnswer('What is the dress code?')).toBeNull();
+  });
+
+  it('invalidates answers drawn from changed SOPs and answers without sources', async () => {
+    await cacheAnswer('How do I register a SIP?', undefined, answerFrom('sip'));
+    await cacheAnswer('How do I submit a lumpsum order?', undefined, answerFrom('lumpsum'));
+    await cacheAnswer('How do I switch funds?', undefined, answerFrom());
+
+    expect(await invalidateAnswersForSOPs(['sip'])).toBe(2);
+    expect(await findCachedAnswer('How do I register a SIP?')).toBeNull();
+    expect(await findCachedAnswer('How do I switch funds?')).toBeNull();
+    expect(await findCachedAnswer('How do I submit a lumpsum order?')).not.toBeNull();
+  });
+});
@@ -0,0 +1,286 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { describe, it, expect, beforeAll } from 'vitest';
+import { POST as ask } from '../app/api/ask/route';
+import { GET as recent } from '../app/api/recent/route';
+import { POST as rebuild } from '../app/api/rebuild-index/route';
+import { GET as listSOPs } from '../app/api/sops/route';
+import { DELETE as purgeAnswerCache } from '../app/api/admin/answer-cache/route';
+import { POST as upload } from '../app/api/sops/upload/route';
+import { GET as listDocuments } from '../app/api/sops/documents/route';
+import { GET as sopStructure } from '../app/api/sops/structure/route';
+import { getJob } from '../lib/jobs';
+import { deleteUploadedDocument } from '../lib/sopLifecycle';
+import { getCurrentVersions, listSOPVersions } from '../lib/sopVersions';
+import { setLLMProviders } from '../lib/llm';
+import type { User } from '../lib/auth';
+import { apiRequest, createUser, useFakes, writeSOPDoc, writeSOPWorkbook, SOP_WORKBOOK_ROWS } from './helpers';
+
+// Poll a background job until it leaves the queue
+async function waitForJob(jobId: number) {
+  for (let attempt = 0; attempt < 200; attempt++) {
+    const job = await getJob(jobId);
+    if (job && !['queued', 'running'].includes(job.status)) return job;
+    await new Promise(resolve => setTimeout(resolve, 50));
+  }
+  throw new Error(`Job ${jobId} did not finish`);
+}
+
+describe('API routes', () => {
+  const { llm } = useFakes();
+  let admin: User;
+  let user: User;
+
+  beforeAll(async () => {
+    admin = await createUser('admin@example.com', 'admin');
+    user = await createUser('user@example.com');
+    // The rebuild job indexes the default workbook location
+    writeSOPWorkbook(path.join(process.cwd(), 'data', 'S4_-_SOPs_-_MF_Transactions.xlsx'));
+  });
+
+  describe('POST /api/rebuild-index', () => {
+    it('requires an admin', async () => {
+      const response = await rebuild(apiRequest('/api/rebuild-index', { method: 'POST', body: {}, user }));
+
+      expect(response.status).toBe(403);
+    });
+
+    it('queues a rebuild that indexes the SOPs', async () => {
+      const response = await rebuild(apiRequest('/api/rebuild-index', { method: 'POST', body: {}, user: admin }));
+      const { jobId } = await response.json();
+
+      expect((await waitForJob(jobId)).status).toBe('completed');
+
+      const { summary } = await (await listSOPs(apiRequest('/api/sops', { user }))).json();
+      expect(summary.totalEntries).toBe(2);
+    });
+  });
+
+  describe('POST /api/ask', () => {
+    it('rejects unauthenticated requests', async () => {
+      const response = await ask(apiRequest('/api/ask', { method: 'POST', body: { question: 'Hi?' } }));
+
+      expect(response.status).toBe(401);
+    });
+
+    it('requires a question', async () => {
+      const response = await ask(apiRequest('/api/ask', { method: 'POST', body: {}, user }));
+
+      expect(response.status).toBe(400);
+    });
+
+    it('answers, expands acronyms and records the question', async () => {
+      const response = await ask(apiRequest('/api/ask', {
+        method: 'POST',
+        body: { question: 'How do I verify KYC on the KRA portal?' },
+        user,
+      }));
+      const body = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(body.answer).toContain('KYC (Know Your Customer)');
+      expect(body.citations.length).toBeGreaterThan(0);
+      expect(body.threadId).toEqual(expect.any(Number));
+
+      const { questions } = await (await recent(apiRequest('/api/recent', { user }))).json();
+      expect(questions[0].question).toBe('How do I verify KYC on the KRA portal?');
+    });
+
+    it('rejects a thread owned by another user', async () => {
+      const first = await (await ask(apiRequest('/api/ask', {
+        method: 'POST',
+        body: { question: 'Who submits the purchase order?' },
+        user: admin,
+      }))).json();
+
+      const response = await ask(apiRequest('/api/ask', {
+        method: 'POST',
+        body: { question: 'And after that?', threadId: first.threadId },
+        user,
+      }));
+
+      expect(response.status).toBe(404);
+    });
+
+    it('streams newline-delimited JSON frames', async () => {
+      const response = await ask(apiRequest('/api/ask', {
+        method: 'POST',
+        body: { question: 'How do I register a SIP mandate?', stream: true },
+        user,
+      }));
+
+      expect(response.headers.get('Content-Type')).toContain('application/x-ndjson');
+
+      const frames = (await response.text()).trim().split('\n').map(line => JSON.parse(line));
+      expect(frames[0].type).toBe('sources');
+      expect(frames.some(frame => frame.type === 'token')).toBe(true);
+      expect(frames[frames.length - 1]).toMatchObject({ type: 'done', threadId: expect.any(Number) });
+    });
+
+    it('answers repeated questions from the cache until an admin purges it', async () => {
+      const askQuestion = async (question: string) =>
+        (await ask(apiRequest('/api/ask', { method: 'POST', body: { question }, user }))).json();
+
+      const first = await askQuestion('Who collects the cheque?');
+      const callsBefore = llm.calls.length;
+      const repeat = await askQuestion('  who collects the CHEQUE ');
+
+      expect(first.cached).toBe(false);
+      expect(repeat).toMatchObject({ cached: true, answer: first.answer, sources: first.sources });
+      expect(repeat.threadId).not.toBe(first.threadId);
+      expect(llm.calls.length).toBe(callsBefore);
+
+      expect((await purgeAnswerCache(apiRequest('/api/admin/answer-cache', { method: 'DELETE', user }))).status).toBe(403);
+      const purge = await purgeAnswerCache(apiRequest('/api/admin/answer-cache', { method: 'DELETE', user: admin }));
+      expect((await purge.json()).removed).toBeGreaterThan(0);
+
+      expect((await askQuestion('Who collects the cheque?')).cached).toBe(false);
+    });
+  });
+
+  describe('POST /api/sops/upload', () => {
+    it('reports per file whether each upload could be parsed', async () => {
+      const docPath = path.join(process.cwd(), 'switch.doc');
+      writeSOPDoc(docPath, [
+        { text: 'Switch between schemes', heading: 1 },
+        { text: 'Check the exit load on the source scheme', list: 'number' },
+        { text: 'Place the switch on BSE StAR MF', list: 'number' },
+      ]);
+      const form = new FormData();
+      form.append('files', new File([fs.readFileSync(docPath)], 'switch.doc'));
+      form.append('files', new File(['not a word document'], 'broken.doc'));
+
+      const response = await upload(apiRequest('/api/sops/upload', { method: 'POST', body: form, user: admin }));
+      const body = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(body.documents.map((d: { fileName: string }) => d.fileName)).toEqual(['switch.doc', 'broken.doc']);
+      expect((await waitForJob(body.jobId)).status).toBe('completed');
+
+      const { documents } = await (await listDocuments(apiRequest('/api/sops/documents', { user: admin }))).json();
+      const byName = new Map(documents.map((d: { fileName: string }) => [d.fileName, d]));
+      expect(byName.get('switch.doc')).toMatchObject({ status: 'indexed', sopCount: 1 });
+      expect(byName.get('broken.doc')).toMatchObject({
+        status: 'failed',
+        error: 'Not a Word 97-2003 document. Open it in Word and save it as .docx',
+      });
+    });
+
+    it('replaces an earlier upload of the same file and retires SOPs dropped from it', async () => {
+      const uploadWorkbook = async (rows: (string | number)[][]) => {
+        const workbookPath = path.join(process.cwd(), 'branch-sops.xlsx');
+        writeSOPWorkbook(workbookPath, rows);
+        const form = new FormData();
+        form.append('files', new File([fs.readFileSync(workbookPath)], 'branch-sops.xlsx'));
+        const response = await upload(apiRequest('/api/sops/upload', { method: 'POST', body: form, user: admin }));
+        expect((await waitForJob((await response.json()).jobId)).status).toBe('completed');
+      };
+      const header = ['S N', 'Tasks (What)', 'Who', 'Tools', 'Template / NFP'];
+      const chequeBounce = [['A', 'Cheque Bounce Handling'], [1, 'Inform the client of the bounced cheque', 'Branch', 'CRM', '']];
+
+      const branchUploads = async () => {
+        const { documents } = await (await listDocuments(apiRequest('/api/sops/documents', { user: admin }))).json();
+        return documents
+          .filter((d: { fileName: string }) => d.fileName === 'branch-sops.xlsx')
+          .map((d: { status: string }) => d.status);
+      };
+
+      await uploadWorkbook([header, ...chequeBounce, ['A', 'Address Change'], [1, 'Collect proof of address', 'Branch', '', '']]);
+      // A re-upload that fails to parse leaves the earlier one in place
+      await uploadWorkbook([header]);
+      expect(await branchUploads()).toEqual(['failed', 'indexed']);
+      expect(await getCurrentVersions(['address-change'])).toEqual(new Map([['address-change', 1]]));
+
+      await uploadWorkbook([header, ...chequeBounce]);
+      expect(await branchUploads()).toEqual(['indexed']);
+      expect(await getCurrentVersions(['cheque-bounce-handling', 'address-change'])).toEqual(new Map([['cheque-bounce-handling', 1]]));
+      expect((await listSOPVersions('address-change'))[0].effectiveTo).not.toBeNull();
+    });
+
+    it('versions the default workbook\'s SOPs when it is uploaded again under its original name', async () => {
+      const workbookPath = path.join(process.cwd(), 'updated-s4.xlsx');
+      writeSOPWorkbook(workbookPath, SOP_WORKBOOK_ROWS.map(row =>
+        row[1] === 'Collect the cheque and check the MICR code' ? [2, 'Collect the cheque and check the date', 'Branch', '', ''] : row
+      ));
+      const form = new FormData();
+      form.append('files', new File([fs.readFileSync(workbookPath)], 'S4 - SOPs - MF Transactions.xlsx'));
+
+      const response = await upload(apiRequest('/api/sops/upload', { method: 'POST', body: form, user: admin }));
+      expect((await waitForJob((await response.json()).jobId)).status).toBe('completed');
+
+      const lumpsum = 'mf-transactions-process-lumpsum';
+      const sip = 'mf-transactions-process-sip-registration';
+      expect(await getCurrentVersions([lumpsum, sip])).toEqual(new Map([[lumpsum, 2], [sip, 1]]));
+      const structure = await (await sopStructure()).json();
+      const ids = structure.flatMap((f: { categories: { tasks: { id: string }[] }[] }) =>
+        f.categories.flatMap(c => c.tasks.map(t => t.id)));
+      expect(ids.filter((id: string) => id.startsWith('mf-transactions-process'))).toEqual([lumpsum, sip]);
+    });
+
+    it('keeps same-titled SOPs from different files apart', async () => {
+      const form = new FormData();
+      form.append('files', new File(['# Redemption Process\n\n1. Check the exit load\n'], 'operations.md'));
+      form.append('files', new File(['# Redemption Process\n\n1. Collect the redemption slip\n'], 'branch.md'));
+
+      const response = await upload(apiRequest('/api/sops/upload', { method: 'POST', body: form, user: admin }));
+      expect((await waitForJob((await response.json()).jobId)).status).toBe('completed');
+
+      const structure = await (await sopStructure()).json();
+      const tasks = (fileName: string, from = structure) => from
+        .find((f: { fileName: string }) => f.fileName === fileName)
+        .categories.flatMap((c: { tasks: { id: string }[] }) => c.tasks.map(t => t.id));
+      expect(tasks('operations.md')).toEqual(['redemption-process']);
+      expect(tasks('branch.md')).toEqual(['redemption-process-branch']);
+
+      // The id stays with operations.md's history even once that file is gone
+      const { documents } = await (await listDocuments(apiRequest('/api/sops/documents', { user: admin }))).json();
+      await deleteUploadedDocument(documents.find((d: { fileName: string }) => d.fileName === 'operations.md').id);
+      const rebuilt = await rebuild(apiRequest('/api/rebuild-index', { method: 'POST', body: {}, user: admin }));
+      expect((await waitForJob((await rebuilt.json()).jobId)).status).toBe('completed');
+      expect(tasks('branch.md', await (await sopStructure()).json())).toEqual(['redemption-process-branch']);
+    });
+
+    it('indexes Markdown SOPs and lists them in the SOP structure', async () => {
+      const markdown = '---\ncategory: Wiki SOPs\n---\n# Unlock a folio\n\n1. Raise a ticket with the RTA\n2. Confirm the unlock\n';
+      const form = new FormData();
+      form.append('files', new File([markdown], 'unlock-folio.md'));
+      // No heading: titled after the name it was uploaded under, not the stored file
+      form.append('files', new File(['1. Collect the nominee form\n2. Update the folio\n'], 'Nominee Update.md'));
+
+      const response = await upload(apiRequest('/api/sops/upload', { method: 'POST', body: form, user: admin }));
+      expect((await waitForJob((await response.json()).jobId)).status).toBe('completed');
+
+      const structure = await (await sopStructure()).json();
+      const byName = new Map(structure.map((f: { fileName: string }) => [f.fileName, f]));
+      expect(byName.get('unlock-folio.md')).toMatchObject({
+        categories: [{ category: 'Wiki SOPs', tasks: [{ title: 'Unlock a folio', id: 'unlock-a-folio' }] }],
+      });
+      expect(byName.get('Nominee Update.md')).toMatchObject({
+        categories: [{ category: 'General', tasks: [{ title: 'Nominee Update', id: 'nominee-update' }] }],
+      });
+    });
+
+    it('marks an upload failed when its SOPs could not be embedded', async () => {
+      const form = new FormData();
+      form.append('files', new File(['# Escalate a complaint\n\n1. Log the complaint in the CRM\n'], 'complaints.md'));
+      setLLMProviders(llm.provider, {
+        ...llm.provider,
+        async embedBatch() {
+          throw new Error('embedding service unavailable');
+        },
+      });
+      try {
+        const response = await upload(apiRequest('/api/sops/upload', { method: 'POST', body: form, user: admin }));
+        expect((await waitForJob((await response.json()).jobId)).status).toBe('completed');
+      } finally {
+        setLLMProviders(llm.provider);
+      }
+
+      const { documents } = await (await listDocuments(apiRequest('/api/sops/documents', { user: admin }))).json();
+      expect(documents.find((d: { fileName: string }) => d.fileName === 'complaints.md')).toMatchObject({
+        status: 'failed',
+        error: 'Embedding failed: embedding service unavailable',
+      });
+    });
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { buildCitedContext, extractCitations } from '../lib/citations';
+import { chunkSOPDocument, chunkMetadata } from '../lib/chunker';
+import type { RetrievedDocument } from '../lib/retrieval';
+import type { SOPDocument } from '../scripts/parse-sop';
+
+const PDF_SOP: SOPDocument = {
+  id: 'redemption',
+  title: 'Redemption',
+  category: 'MF Transaction Process',
+  sourceFile: 'compliance-sops.pdf',
+  steps: [
+    { order: 1, task: 'Check the folio balance', role: 'Operations', tools: 'RTA portal', template: '', page: 2 },
+    { order: 2, task: 'Submit the redemption slip', role: 'Branch', tools: 'MFU', template: '', page: 3 },
+  ],
+  content: '',
+};
+
+function retrieved(doc: SOPDocument): RetrievedDocument[] {
+  return chunkSOPDocument(doc).map(chunk => ({
+    id: chunk.id,
+    content: chunk.content,
+    metadata: chunkMetadata(chunk),
+    distance: 0.1,
+    score: 1,
+  }));
+}
+
+describe('citations', () => {
+  it('points cited PDF steps at their source pages', () => {
+    const { context, refs } = buildCitedContext(retrieved(PDF_SOP));
+
+    expect(context).toContain('[2] Step 2: Submit the redemption slip');
+    expect(refs.map(ref => ref.pages)).toEqual([[2], [3]]);
+
+    const citations = extractCitations('Submit the slip via MFU [2].', refs);
+    expect(citations).toEqual([
+      { marker: 2, sopId: 'redemption', title: 'Redemption', steps: [2], pages: [3], version: undefined, valid: true },
+    ]);
+  });
+
+  it('leaves pages off steps from sources without them', () => {
+    const withoutPages = { ...PDF_SOP, steps: PDF_SOP.steps.map(step => ({ ...step, page: undefined })) };
+    const { refs } = buildCitedContext(retrieved(withoutPages));
+
+    expect(refs.every(ref => ref.pages === undefined)).toBe(true);
+    expect(chunkMetadata(chunkSOPDocument(withoutPages)[0])).not.toHaveProperty('stepPages');
+  });
+});
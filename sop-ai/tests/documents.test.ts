@@ -0,0 +1,90 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { describe, it, expect, beforeAll } from 'vitest';
+import {
+  registerDocument,
+  getDocument,
+  parseRegisteredDocuments,
+  approveDocumentReview,
+} from '../lib/documents';
+import type { SOPDocument } from '../scripts/parse-sop';
+import type { User } from '../lib/auth';
+import { createUser } from './helpers';
+
+// What the OCR reader returns for a scan with one smudged step
+const SCANNED_SOP: SOPDocument = {
+  id: 'change-of-nominee',
+  title: 'Change of Nominee',
+  category: 'General',
+  sourceFile: 'nominee-scan.png',
+  steps: [
+    { order: 1, task: 'Collect the signed nomination form', role: '', tools: '', template: '', ocrConfidence: 93 },
+    { order: 2, task: 'Verfy the nom1nee detals', role: '', tools: '', template: '', ocrConfidence: 41 },
+  ],
+  content: '',
+};
+
+describe('OCR review', () => {
+  let admin: User;
+  let documentId: number;
+
+  beforeAll(async () => {
+    admin = await createUser('admin@example.com', 'admin');
+    const storedPath = path.join(process.cwd(), 'nominee-scan.png');
+    fs.writeFileSync(storedPath, 'scan');
+    documentId = await registerDocument({ fileName: 'nominee-scan.png', storedPath, fileSize: 4, uploadedBy: admin.id });
+  });
+
+  it('holds documents with low-confidence OCR text until an admin approves them', async () => {
+    const held = await parseRegisteredDocuments(async () => [SCANNED_SOP]);
+
+    expect(held.docs).toEqual([]);
+    const doc = await getDocument(documentId);
+    expect(doc?.status).toBe('needs_review');
+    expect(JSON.parse(doc!.review!)).toEqual([
+      { sopId: 'change-of-nominee', title: 'Change of Nominee', step: 2, text: 'Verfy the nom1nee detals', confidence: 41 },
+    ]);
+
+    expect(await approveDocumentReview(documentId, admin.id)).toBe(true);
+    expect(await approveDocumentReview(documentId, admin.id)).toBe(false);
+
+    const approved = await parseRegisteredDocuments(async () => [SCANNED_SOP]);
+    expect(approved.docs.map(d => d.id)).toEqual(['change-of-nominee']);
+    expect(approved.parsed).toEqual([{ id: documentId, sopCount: 1 }]);
+    expect((await getDocument(documentId))?.reviewedBy).toBe(admin.id);
+  });
+});
+
+describe('parse cache', () => {
+  let documentId: number;
+  let storedPath: string;
+  let parses = 0;
+  const parseFile = async (_filePath: string, fileName: string): Promise<SOPDocument[]> => {
+    if (fileName === 'Nominee Scan.png') parses++;
+    return [{ ...SCANNED_SOP, id: 'nominee-scan', sourceFile: fileName, steps: [SCANNED_SOP.steps[0]] }];
+  };
+
+  beforeAll(async () => {
+    const admin = await createUser('cache-admin@example.com', 'admin');
+    storedPath = path.join(process.cwd(), '1760000000000-Nominee_Scan.png');
+    fs.writeFileSync(storedPath, 'scan v1');
+    documentId = await registerDocument({ fileName: 'Nominee Scan.png', storedPath, fileSize: 7, uploadedBy: admin.id });
+  });
+
+  it('parses a document again only when its file changes or a re-parse is asked for', async () => {
+    const ours = (result: Awaited<ReturnType<typeof parseRegisteredDocuments>>) =>
+      result.docs.filter(doc => doc.sourceFile === 'Nominee Scan.png');
+
+    expect(ours(await parseRegisteredDocuments(parseFile))).toHaveLength(1);
+    expect(ours(await parseRegisteredDocuments(parseFile))).toHaveLength(1);
+    expect(parses).toBe(1);
+
+    fs.writeFileSync(storedPath, 'scan v2');
+    await parseRegisteredDocuments(parseFile);
+    expect(parses).toBe(2);
+
+    await parseRegisteredDocuments(parseFile, { reparse: true });
+    expect(parses).toBe(3);
+    expect((await getDocument(documentId))?.fileHash).toMatch(/^[0-9a-f]{64}$/);
+  });
+});
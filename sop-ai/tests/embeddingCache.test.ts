@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { getEmbedding, getEmbeddings, setLLMProviders } from '../lib/llm';
+import { createMockProvider } from '../lib/llm/mock';
+import { useFakes } from './helpers';
+
+describe('embedding cache', () => {
+  const { llm } = useFakes();
+
+  it('embeds each distinct text once and returns vectors in input order', async () => {
+    const before = llm.embedded();
+    const [a, b, again] = await getEmbeddings(['redeem units', 'switch funds', 'redeem units']);
+
+    expect(llm.embedded() - before).toBe(2);
+    expect(again).toEqual(a);
+    expect(b).not.toEqual(a);
+  });
+
+  it('serves repeated texts from the cache without calling the provider', async () => {
+    const first = await getEmbedding('how do I register a SIP mandate?');
+    const before = llm.embedded();
+    const second = await getEmbedding('how do I register a SIP mandate?');
+
+    expect(llm.embedded()).toBe(before);
+    expect(second).toHaveLength(first.length);
+    second.forEach((value, i) => expect(value).toBeCloseTo(first[i], 5));
+  });
+
+  it('leaves texts embedded with cache: false out of the cache', async () => {
+    await getEmbeddings(['the cut-off for liquid funds is 1:30 pm'], { cache: false });
+    const before = llm.embedded();
+    await getEmbeddings(['the cut-off for liquid funds is 1:30 pm']);
+
+    expect(llm.embedded() - before).toBe(1);
+  });
+
+  it('keys cached vectors by embedding model', async () => {
+    const mock = createMockProvider();
+    let embedded = 0;
+    setLLMProviders(llm.provider, {
+      ...mock,
+      embeddingModel: 'other-model',
+      async embedBatch(texts) {
+        embedded += texts.length;
+        return mock.embedBatch(texts);
+      },
+    });
+
+    await getEmbeddings(['redeem units']);
+    expect(embedded).toBe(1);
+  });
+});
@@ -0,0 +1,46 @@
+/**
+ * Scripted LLM for tests: replies are picked by matching the last user message,
+ * falling back to the default mock replies, and every prompt is recorded.
+ */
+
+import { createMockProvider, defaultMockResponder } from '../../lib/llm/mock';
+import type { ChatMessage, LLMProvider } from '../../lib/llm/types';
+
+export interface ScriptedReply {
+  match: RegExp;
+  reply: string;
+}
+
+export interface ScriptedLLM {
+  provider: LLMProvider;
+  // Messages of every generation request, in order
+  calls: ChatMessage[][];
+  // Number of texts embedded
+  embedded: () => number;
+}
+
+export function createScriptedLLM(script: ScriptedReply[] = []): ScriptedLLM {
+  const calls: ChatMessage[][] = [];
+  let embedCount = 0;
+
+  const mock = createMockProvider((messages) => {
+    calls.push(messages);
+    const user = [...messages].reverse().find(m => m.role === 'user')?.content || '';
+    const scripted = script.find(entry => entry.match.test(user));
+    return scripted ? scripted.reply : defaultMockResponder(messages);
+  });
+
+  const provider: LLMProvider = {
+    ...mock,
+    async embed(text) {
+      embedCount++;
+      return mock.embed(text);
+    },
+    async embedBatch(texts) {
+      embedCount += texts.length;
+      return mock.embedBatch(texts);
+    },
+  };
+
+  return { provider, calls, embedded: () => embedCount };
+}
@@ -0,0 +1,167 @@
+/**
+ * In-memory stand-in for the parts of the Chroma client the app uses
+ * Collections keep records in a Map and query by squared L2 distance, Chroma's default.
+ */
+
+import { ChromaNotFoundError, type ChromaClient } from 'chromadb';
+
+type Metadata = Record<string, string | number | boolean | null>;
+type Where = Record<string, unknown>;
+
+interface StoredRecord {
+  embedding: number[];
+  document: string | null;
+  metadata: Metadata | null;
+}
+
+interface RecordBatch {
+  ids: string[];
+  embeddings?: number[][];
+  documents?: (string | null)[];
+  metadatas?: (Metadata | null)[];
+}
+
+function squaredL2(a: number[], b: number[]): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    const diff = a[i] - (b[i] ?? 0);
+    sum += diff * diff;
+  }
+  return sum;
+}
+
+// Supports the subset of Chroma's where syntax the app uses: equality, $eq/$ne/$in/$nin, $and/$or
+function matchesWhere(metadata: Metadata | null, where?: Where): boolean {
+  if (!where) return true;
+  return Object.entries(where).every(([key, condition]) => {
+    if (key === '$and') return (condition as Where[]).every(c => matchesWhere(metadata, c));
+    if (key === '$or') return (condition as Where[]).some(c => matchesWhere(metadata, c));
+
+    const value = metadata?.[key];
+    if (condition === null || typeof condition !== 'object') return value === condition;
+
+    const ops = condition as Record<string, unknown>;
+    if ('$eq' in ops) return value === ops.$eq;
+    if ('$ne' in ops) return value !== ops.$ne;
+    if ('$in' in ops) return (ops.$in as unknown[]).includes(value);
+    if ('$nin' in ops) return !(ops.$nin as unknown[]).includes(value);
+    throw new Error(`Unsupported where operator: ${Object.keys(ops).join(', ')}`);
+  });
+}
+
+function createMemoryCollection(name: string, metadata?: Metadata) {
+  const records = new Map<string, StoredRecord>();
+
+  const write = (batch: RecordBatch, overwrite: boolean) => {
+    batch.ids.forEach((id, i) => {
+      if (!overwrite && records.has(id)) return;
+      const embedding = batch.embeddings?.[i];
+      if (!embedding) {
+        throw new Error('Memory collection has no embedding function; pass embeddings explicitly');
+      }
+      records.set(id, {
+        embedding,
+        document: batch.documents?.[i] ?? null,
+        metadata: batch.metadatas?.[i] ?? null,
+      });
+    });
+  };
+
+  const select = (ids?: string[], where?: Where) =>
+    Array.from(records.entries())
+      .filter(([id, record]) => (!ids || ids.includes(id)) && matchesWhere(record.metadata, where));
+
+  return {
+    name,
+    metadata,
+
+    async add(batch: RecordBatch) {
+      write(batch, false);
+    },
+
+    async upsert(batch: RecordBatch) {
+      write(batch, true);
+    },
+
+    async count() {
+      return records.size;
+    },
+
+    async get(args: { ids?: string[]; where?: Where; limit?: number; offset?: number } = {}) {
+      const offset = args.offset ?? 0;
+      const rows = select(args.ids, args.where).slice(offset, args.limit ? offset + args.limit : undefined);
+      return {
+        ids: rows.map(([id]) => id),
+        documents: rows.map(([, r]) => r.document),
+        metadatas: rows.map(([, r]) => r.metadata),
+        embeddings: rows.map(([, r]) => r.embedding),
+      };
+    },
+
+    async query(args: { queryEmbeddings: number[][]; nResults?: number; where?: Where }) {
+      const candidates = select(undefined, args.where);
+      const perQuery = args.queryEmbeddings.map(embedding =>
+        candidates
+          .map(([id, record]) => ({ id, record, distance: squaredL2(embedding, record.embedding) }))
+          .sort((a, b) => a.distance - b.distance)
+          .slice(0, args.nResults ?? 10)
+      );
+      return {
+        ids: perQuery.map(hits => hits.map(h => h.id)),
+        documents: perQuery.map(hits => hits.map(h => h.record.document)),
+        metadatas: perQuery.map(hits => hits.map(h => h.record.metadata)),
+        distances: perQuery.map(hits => hits.map(h => h.distance)),
+      };
+    },
+
+    async delete(args: { ids?: string[]; where?: Where } = {}) {
+      select(args.ids, args.where).forEach(([id]) => records.delete(id));
+    },
+  };
+}
+
+export type MemoryCollection = ReturnType<typeof createMemoryCollection>;
+
+export interface MemoryChromaClient {
+  // Typed as the real client so it can back createChromaVectorStore()
+  client: ChromaClient;
+  collections: Map<string, MemoryCollection>;
+}
+
+export function createMemoryChromaClient(): MemoryChromaClient {
+  const collections = new Map<string, MemoryCollection>();
+
+  const getCollection = async ({ name }: { name: string }) => {
+    const collection = collections.get(name);
+    if (!collection) throw new ChromaNotFoundError(`Collection ${name} does not exist`);
+    return collection;
+  };
+
+  const client = {
+    async listCollections() {
+      return Array.from(collections.values());
+    },
+
+    getCollection,
+
+    async createCollection({ name, metadata }: { name: string; metadata?: Metadata }) {
+      if (collections.has(name)) throw new Error(`Collection ${name} already exists`);
+      const collection = createMemoryCollection(name, metadata);
+      collections.set(name, collection);
+      return collection;
+    },
+
+    async getOrCreateCollection({ name, metadata }: { name: string; metadata?: Metadata }) {
+      if (!collections.has(name)) {
+        collections.set(name, createMemoryCollection(name, metadata));
+      }
+      return getCollection({ name });
+    },
+
+    async deleteCollection({ name }: { name: string }) {
+      if (!collections.delete(name)) throw new ChromaNotFoundError(`Collection ${name} does not exist`);
+    },
+  };
+
+  return { client: client as unknown as ChromaClient, collections };
+}
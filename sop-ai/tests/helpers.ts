@@ -0,0 +1,357 @@
+import * as fs from 'fs';
+import * as XLSX from 'xlsx';
+import * as CFB from 'cfb';
+import { createCanvas } from '@napi-rs/canvas';
+import { NextRequest } from 'next/server';
+import { db, users } from '../lib/db';
+import { generateToken, type User } from '../lib/auth';
+import { setVectorStore } from '../lib/vectorStore';
+import { createChromaVectorStore } from '../lib/vectorStore/chroma';
+import { setLLMProviders } from '../lib/llm';
+import { createMemoryChromaClient, type MemoryChromaClient } from './fakes/memoryChroma';
+import { createScriptedLLM, type ScriptedLLM, type ScriptedReply } from './fakes/llm';
+
+/**
+ * Install a fresh in-memory Chroma and scripted LLM for the current test file.
+ */
+export function useFakes(script: ScriptedReply[] = []): { chroma: MemoryChromaClient; llm: ScriptedLLM } {
+  const chroma = createMemoryChromaClient();
+  const llm = createScriptedLLM(script);
+  setVectorStore(createChromaVectorStore(chroma.client));
+  setLLMProviders(llm.provider);
+  return { chroma, llm };
+}
+
+// Workbook in the layout of the real SOP sheets: "I" rows start a category, "A" rows an SOP
+export const SOP_WORKBOOK_ROWS = [
+  ['S N', 'Tasks (What)', 'Who', 'Tools', 'Template / NFP'],
+  ['I', 'MF Transaction Process'],
+  ['A', 'MF Transactions Process - Lumpsum'],
+  [1, 'Verify the client KYC status on the KRA portal', 'Operations', 'KRA Portal', ''],
+  [2, 'Collect the cheque and check the MICR code', 'Branch', 'Cheque scanner', 'Cheque deposit slip'],
+  [3, 'Submit the purchase order to the AMC before the cut-off time', 'Operations', 'BSE StAR MF', ''],
+  ['A', 'MF Transactions Process - SIP Registration'],
+  [1, 'Register the SIP mandate with the client bank', 'Operations', 'Mandate portal', 'Mandate form'],
+  [2, 'Confirm the first instalment date with the client', 'Relationship Manager', 'CRM', ''],
+];
+
+export function writeSOPWorkbook(filePath: string, rows: (string | number)[][] = SOP_WORKBOOK_ROWS): void {
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(rows), 'MF Transactions');
+  XLSX.writeFile(workbook, filePath);
+}
+
+export async function createUser(email: string, role: 'user' | 'admin' = 'user'): Promise<User> {
+  const [row] = await db
+    .insert(users)
+    .values({ email, password: 'not-used', name: email.split('@')[0], role })
+    .returning();
+  return { id: row.id, email: row.email, name: row.name, role: row.role };
+}
+
+/**
+ * Build a request for a route handler, authenticated as the given user.
+ * A FormData body is sent as multipart (for uploads), anything else as JSON.
+ */
+export function apiRequest(
+  url: string,
+  options: { method?: string; body?: unknown; user?: User; signal?: AbortSignal } = {}
+): NextRequest {
+  const form = options.body instanceof FormData;
+  const headers: Record<string, string> = form ? {} : { 'Content-Type': 'application/json' };
+  if (options.user) {
+    headers.cookie = `auth-token=${generateToken(options.user)}`;
+  }
+  return new NextRequest(new URL(url, 'http://localhost'), {
+    method: options.method || 'GET',
+    headers,
+    body: form ? options.body as FormData : options.body === undefined ? undefined : JSON.stringify(options.body),
+    signal: options.signal,
+  });
+}
+
+// A line of text placed on a PDF page; x/y in points from the bottom-left corner
+export interface PdfLine {
+  text: string;
+  x: number;
+  y: number;
+  size?: number;
+}
+
+/**
+ * Write a minimal PDF (Helvetica text only) with the given lines on each page.
+ */
+export function writeSOPPdf(filePath: string, pages: PdfLine[][]): void {
+  const escape = (text: string) => text.replace(/[\\()]/g, c => `\\${c}`);
+  const objects: string[] = [];
+  const pageIds = pages.map((_, i) => 4 + i * 2);
+
+  objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+  objects[2] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`;
+  objects[3] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>';
+  pages.forEach((lines, i) => {
+    const stream = lines
+      .map(line => `BT /F1 ${line.size ?? 11} Tf ${line.x} ${line.y} Td (${escape(line.text)}) Tj ET`)
+      .join('\n');
+    objects[pageIds[i]] = '<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] '
+      + `/Resources << /Font << /F1 3 0 R >> >> /Contents ${pageIds[i] + 1} 0 R >>`;
+    objects[pageIds[i] + 1] = `<< /Length ${Buffer.byteLength(stream, 'latin1')} >>\nstream\n${stream}\nendstream`;
+  });
+
+  let pdf = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  for (let id = 1; id < objects.length; id++) {
+    offsets[id] = Buffer.byteLength(pdf, 'latin1');
+    pdf += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+  }
+  const xref = Buffer.byteLength(pdf, 'latin1');
+  pdf += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+  for (let id = 1; id < objects.length; id++) {
+    pdf += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+  }
+  pdf += `trailer\n<< /Size ${objects.length} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+  fs.writeFileSync(filePath, pdf, 'latin1');
+}
+
+// A line of text drawn on a scanned page image; x/y in pixels from the top-left corner
+export interface ScanLine {
+  text: string;
+  x: number;
+  y: number;
+  size?: number;
+}
+
+/**
+ * Render lines of black-on-white text as a scanned page image (PNG or JPEG).
+ */
+export function renderSOPScan(lines: ScanLine[], format: 'png' | 'jpeg' = 'png', width = 1200, height = 900): Buffer {
+  const canvas = createCanvas(width, height);
+  const ctx = canvas.getContext('2d');
+  ctx.fillStyle = 'white';
+  ctx.fillRect(0, 0, width, height);
+  ctx.fillStyle = 'black';
+  for (const line of lines) {
+    ctx.font = `${line.size ?? 28}px sans-serif`;
+    ctx.fillText(line.text, line.x, line.y);
+  }
+  return format === 'png' ? canvas.toBuffer('image/png') : canvas.toBuffer('image/jpeg');
+}
+
+/**
+ * Write a PDF whose pages are JPEG scans with no text layer.
+ */
+export function writeScannedPdf(filePath: string, scans: { jpeg: Buffer; width: number; height: number }[]): void {
+  const chunks: Buffer[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+  const write = (data: string | Buffer) => {
+    const buffer = typeof data === 'string' ? Buffer.from(data, 'latin1') : data;
+    chunks.push(buffer);
+    length += buffer.length;
+  };
+  const pageIds = scans.map((_, i) => 3 + i * 3);
+  const objectCount = 3 + scans.length * 3;
+
+  write('%PDF-1.4\n');
+  offsets[1] = length;
+  write('1 0 obj\n<< /Type /Catalog /Pages 2 0 R >>\nendobj\n');
+  offsets[2] = length;
+  write(`2 0 obj\n<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${scans.length} >>\nendobj\n`);
+  scans.forEach((scan, i) => {
+    const [pageId, contentId, imageId] = [pageIds[i], pageIds[i] + 1, pageIds[i] + 2];
+    // Fit the scan to a US Letter page
+    const [w, h] = [612, Math.round(612 * scan.height / scan.width)];
+    const content = `q ${w} 0 0 ${h} 0 0 cm /Im1 Do Q`;
+    offsets[pageId] = length;
+    write(`${pageId} 0 obj\n<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${w} ${h}] `
+      + `/Resources << /XObject << /Im1 ${imageId} 0 R >> >> /Contents ${contentId} 0 R >>\nendobj\n`);
+    offsets[contentId] = length;
+    write(`${contentId} 0 obj\n<< /Length ${content.length} >>\nstream\n${content}\nendstream\nendobj\n`);
+    offsets[imageId] = length;
+    write(`${imageId} 0 obj\n<< /Type /XObject /Subtype /Image /Width ${scan.width} /Height ${scan.height} `
+      + `/ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${scan.jpeg.length} >>\nstream\n`);
+    write(scan.jpeg);
+    write('\nendstream\nendobj\n');
+  });
+
+  const xref = length;
+  write(`xref\n0 ${objectCount}\n0000000000 65535 f \n`);
+  for (let id = 1; id < objectCount; id++) {
+    write(`${String(offsets[id]).padStart(10, '0')} 00000 n \n`);
+  }
+  write(`trailer\n<< /Size ${objectCount} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`);
+  fs.writeFileSync(filePath, Buffer.concat(chunks));
+}
+
+// A paragraph of a Word 97-2003 document: styled text, a list item or a table
+export type DocParagraph =
+  | { text: string; heading?: 1 | 2 | 3; bold?: boolean; list?: 'number' | 'bullet'; level?: number }
+  | { table: string[][] };
+
+/**
+ * Write a minimal Word 97-2003 (.doc) file: 8-bit text, "heading 1"-"heading 3" styles,
+ * one numbered and one bulleted list, bold runs and simple tables.
+ */
+export function writeSOPDoc(filePath: string, paragraphs: DocParagraph[]): void {
+  const u16 = (value: number) => { const b = Buffer.alloc(2); b.writeUInt16LE(value); return b; };
+  const u32 = (value: number) => { const b = Buffer.alloc(4); b.writeUInt32LE(value >>> 0); return b; };
+  const even = (data: Buffer) => (data.length % 2 ? Buffer.concat([data, Buffer.alloc(1)]) : data);
+  const TEXT_FC = 1024;
+
+  // Text with a property record per paragraph mark
+  let text = '';
+  const marks: { end: number; istd: number; sprms: Buffer }[] = [];
+  const boldRanges: [number, number][] = [];
+  const paragraph = (content: string, mark: string, istd: number, sprms: Buffer, bold = false) => {
+    if (bold) boldRanges.push([text.length, text.length + content.length]);
+    text += content + mark;
+    marks.push({ end: text.length, istd, sprms });
+  };
+  for (const p of paragraphs) {
+    if ('table' in p) {
+      const inTable = Buffer.from([0x16, 0x24, 1]);
+      for (const row of p.table) {
+        row.forEach(cell => paragraph(cell, '\x07', 0, inTable));
+        paragraph('', '\x07', 0, Buffer.concat([inTable, Buffer.from([0x17, 0x24, 1])]));
+      }
+    } else if (p.list) {
+      const sprms = Buffer.concat([u16(0x460b), u16(p.list === 'number' ? 1 : 2), Buffer.from([0x0a, 0x26, p.level ?? 0])]);
+      paragraph(p.text, '\r', 0, sprms, p.bold);
+    } else {
+      paragraph(p.text, '\r', p.heading ?? 0, Buffer.alloc(0), p.bold);
+    }
+  }
+
+  // Property pages (FKPs) go after the text in the WordDocument stream
+  const fkps: Buffer[] = [];
+  const firstPage = Math.ceil((TEXT_FC + text.length) / 512);
+  const bte = (fcs: number[][]) => {
+    const pages = fcs.map((_, i) => firstPage + fkps.length - fcs.length + i);
+    return Buffer.concat([...fcs.map(range => u32(range[0])), u32(fcs[fcs.length - 1][1]), ...pages.map(u32)]);
+  };
+  const writeFkps = <T>(runs: T[], perPage: number, fcOf: (run: T) => [number, number], entry: (run: T, page: Buffer, free: number) => number | null, entrySize: number) => {
+    const ranges: number[][] = [];
+    for (let start = 0; start < runs.length; start += perPage) {
+      const chunk = runs.slice(start, start + perPage);
+      const page = Buffer.alloc(512);
+      chunk.forEach((run, i) => page.writeUInt32LE(fcOf(run)[0], i * 4));
+      page.writeUInt32LE(fcOf(chunk[chunk.length - 1])[1], chunk.length * 4);
+      let free = 510;
+      // Property records fill the page from the end; runs without properties point at 0
+      chunk.forEach((run, i) => {
+        const at = entry(run, page, free);
+        if (at !== null) free = at;
+        page[(chunk.length + 1) * 4 + i * entrySize] = at === null ? 0 : at / 2;
+      });
+      page[511] = chunk.length;
+      fkps.push(page);
+      ranges.push([fcOf(chunk[0])[0], fcOf(chunk[chunk.length - 1])[1]]);
+    }
+    return bte(ranges);
+  };
+
+  let previousEnd = 0;
+  const paragraphRuns = marks.map(mark => {
+    const run = { start: previousEnd, end: mark.end, mark };
+    previousEnd = mark.end;
+    return run;
+  });
+  const plcBtePapx = writeFkps(
+    paragraphRuns, 10,
+    run => [TEXT_FC + run.start, TEXT_FC + run.end],
+    (run, page, free) => {
+      const papx = even(Buffer.concat([u16(run.mark.istd), run.mark.sprms]));
+      const at = (free - papx.length - 2) & ~1;
+      page[at] = 0;
+      page[at + 1] = papx.length / 2;
+      papx.copy(page, at + 2);
+      return at;
+    },
+    13
+  );
+
+  const characterRuns: { start: number; end: number; bold: boolean }[] = [];
+  let position = 0;
+  for (const [start, end] of [...boldRanges, [text.length, text.length]]) {
+    if (start > position) characterRuns.push({ start: position, end: start, bold: false });
+    if (end > start) characterRuns.push({ start, end, bold: true });
+    position = end;
+  }
+  const plcBteChpx = writeFkps(
+    characterRuns, 20,
+    run => [TEXT_FC + run.start, TEXT_FC + run.end],
+    (run, page, free) => {
+      if (!run.bold) return null;
+      const at = (free - 4) & ~1;
+      Buffer.from([3, 0x35, 0x08, 1]).copy(page, at);
+      return at;
+    },
+    1
+  );
+
+  // Style sheet: Normal, then heading 1-3 (bold, based on Normal)
+  const std = (sti: number, name: string, base: number, bold: boolean) => {
+    const body = Buffer.concat([
+      u16(sti), u16(1 | (base << 4)), u16(2), u16(0), u16(0),
+      u16(name.length), Buffer.from(name, 'utf16le'), u16(0),
+      u16(2), u16(sti),
+      even(Buffer.concat([u16(bold ? 3 : 0), bold ? Buffer.from([0x35, 0x08, 1]) : Buffer.alloc(0)])),
+    ]);
+    return Buffer.concat([u16(body.length), body]);
+  };
+  const stsh = Buffer.concat([
+    u16(18), u16(4), u16(10), Buffer.alloc(14),
+    std(0, 'Normal', 0xfff, false),
+    ...[1, 2, 3].map(level => std(level, `heading ${level}`, 0, true)),
+  ]);
+
+  const clx = Buffer.concat([Buffer.from([0x02]), u32(16), u32(0), u32(text.length), u16(0), u32((TEXT_FC * 2) | 0x40000000), u16(0)]);
+
+  // List 1 is numbered with nine levels, list 2 a simple bulleted list
+  const lstf = (lsid: number, simple: boolean) => Buffer.concat([u32(lsid), u32(0), Buffer.alloc(18, 0xff), Buffer.from([simple ? 1 : 0, 0])]);
+  const lvl = (nfc: number, level: number) => {
+    const lvlf = Buffer.alloc(28);
+    lvlf.writeInt32LE(1, 0);
+    lvlf[4] = nfc;
+    return Buffer.concat([lvlf, u16(2), Buffer.from(`${String.fromCharCode(level)}.`, 'utf16le')]);
+  };
+  const plfLst = Buffer.concat([
+    u16(2), lstf(1, false), lstf(2, true),
+    ...Array.from({ length: 9 }, (_, level) => lvl(0, level)),
+    lvl(23, 0),
+  ]);
+  const plfLfo = Buffer.concat([u32(2), u32(1), Buffer.alloc(12), u32(2), Buffer.alloc(12), u32(0xffffffff), u32(0xffffffff)]);
+
+  const tableParts = { stsh, clx, plcBtePapx, plcBteChpx, plfLst, plfLfo };
+  const fcLcb = new Map<number, [number, number]>();
+  let tableLength = 0;
+  const indexes = { stsh: 1, clx: 33, plcBtePapx: 13, plcBteChpx: 12, plfLst: 73, plfLfo: 74 };
+  for (const [name, data] of Object.entries(tableParts)) {
+    fcLcb.set(indexes[name as keyof typeof indexes], [tableLength, data.length]);
+    tableLength += data.length;
+  }
+
+  // FIB: base, 14 shorts, 22 longs (ccpText is the 4th) and 93 fc/lcb pairs
+  const fib = Buffer.alloc(TEXT_FC);
+  fib.writeUInt16LE(0xa5ec, 0);
+  fib.writeUInt16LE(0xc1, 2);
+  fib.writeUInt16LE(0x0200, 0x0a); // Properties are in the 1Table stream
+  fib.writeUInt16LE(14, 32);
+  fib.writeUInt16LE(22, 62);
+  fib.writeUInt32LE(text.length, 64 + 3 * 4);
+  fib.writeUInt16LE(93, 152);
+  for (const [index, [fc, lcb]] of fcLcb) {
+    fib.writeUInt32LE(fc, 154 + index * 8);
+    fib.writeUInt32LE(lcb, 154 + index * 8 + 4);
+  }
+
+  const textBytes = Buffer.from(text, 'latin1');
+  const padding = Buffer.alloc(firstPage * 512 - TEXT_FC - textBytes.length);
+  const word = Buffer.concat([fib, textBytes, padding, ...fkps]);
+  word.writeUInt32LE(word.length, 64);
+
+  const container = CFB.utils.cfb_new();
+  CFB.utils.cfb_add(container, 'WordDocument', word);
+  CFB.utils.cfb_add(container, '1Table', Buffer.concat(Object.values(tableParts)));
+  fs.writeFileSync(filePath, CFB.write(container, { type: 'buffer' }));
+}
@@ -0,0 +1,398 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as CFB from 'cfb';
+import { describe, it, expect, beforeAll } from 'vitest';
+import {
+  parseSOPExcel,
+  parseSOPBlocks,
+  parseSOPWord,
+  parseSOPDoc,
+  parseSOPMarkup,
+  parseSOPPDF,
+  parseSOPImage,
+} from '../scripts/parse-sop';
+import { htmlToBlocks } from '../scripts/html-blocks';
+import { renderSOPScan, writeScannedPdf, writeSOPDoc, writeSOPPdf, writeSOPWorkbook, type ScanLine } from './helpers';
+
+describe('parseSOPExcel', () => {
+  const workbookPath = path.join(process.cwd(), 'sops.xlsx');
+
+  beforeAll(() => {
+    writeSOPWorkbook(workbookPath);
+  });
+
+  it('splits a sheet into SOPs under their category', () => {
+    const docs = parseSOPExcel(workbookPath);
+
+    expect(docs.map(d => d.id)).toEqual([
+      'mf-transactions-process-lumpsum',
+      'mf-transactions-process-sip-registration',
+    ]);
+    expect(docs.every(d => d.category === 'MF Transaction Process')).toBe(true);
+    expect(docs.every(d => d.sourceFile === 'sops.xlsx')).toBe(true);
+  });
+
+  it('maps the who, tools and template columns onto steps', () => {
+    const [lumpsum] = parseSOPExcel(workbookPath);
+
+    expect(lumpsum.steps).toHaveLength(3);
+    expect(lumpsum.steps[1]).toEqual({
+      order: 2,
+      task: 'Collect the cheque and check the MICR code',
+      role: 'Branch',
+      tools: 'Cheque scanner',
+      template: 'Cheque deposit slip',
+    });
+    expect(lumpsum.content.split('\n')[0]).toBe(
+      '1. Verify the client KYC status on the KRA portal (Role: Operations) [Tools: KRA Portal]'
+    );
+  });
+
+  it('skips sheets without a header row', () => {
+    const noHeaderPath = path.join(process.cwd(), 'no-header.xlsx');
+    writeSOPWorkbook(noHeaderPath, [['Notes'], ['Nothing to see here']]);
+
+    expect(parseSOPExcel(noHeaderPath)).toEqual([]);
+  });
+
+  it('throws for a missing file', () => {
+    expect(() => parseSOPExcel('does-not-exist.xlsx')).toThrow('File not found');
+  });
+});
+
+describe('parseSOPBlocks', () => {
+  const options = { sourceFile: 'guide.docx', title: 'guide', category: 'Operations' };
+  const parse = (html: string) => parseSOPBlocks(htmlToBlocks(html), options);
+
+  it('starts an SOP at each heading with steps and takes the category from the heading above', () => {
+    const docs = parse(`
+      <h1>MF Transaction Process</h1>
+      <p>How the back office handles mutual fund transactions.</p>
+      <h2>Lumpsum purchase</h2>
+      <p>Use this for one-off investments.</p>
+      <ol><li>Verify KYC</li><li>Collect the cheque &amp; check the MICR code</li></ol>
+      <h2>SIP registration</h2>
+      <ul><li>Register the mandate<ol><li>Bank account</li><li>IFSC</li></ol></li></ul>
+      <h3>Follow-up</h3>
+      <ol><li>Check the CAN tracker</li></ol>
+    `);
+
+    expect(docs.map(d => [d.id, d.category])).toEqual([
+      ['lumpsum-purchase', 'MF Transaction Process'],
+      ['sip-registration', 'MF Transaction Process'],
+    ]);
+    expect(docs[0].steps.map(s => s.task)).toEqual(['Verify KYC', 'Collect the cheque & check the MICR code']);
+    expect(docs[1].steps.map(s => [s.order, s.task])).toEqual([
+      [1, 'Register the mandate: Bank account; IFSC'],
+      [2, 'Follow-up'],
+      [3, 'Check the CAN tracker'],
+    ]);
+  });
+
+  it('maps who, tools and template columns of a step table', () => {
+    const [doc] = parse(`
+      <h1>Redemption</h1>
+      <table>
+        <tr><td><p>S N</p></td><td><p>Tasks</p></td><td><p>Who</p></td><td><p>Tools</p></td><td><p>Template</p></td></tr>
+        <tr><td>1</td><td>Check the folio balance</td><td>Operations</td><td>RTA portal</td><td></td></tr>
+        <tr><td>2</td><td>Submit the redemption slip</td><td>Branch</td><td>MFU</td><td>Redemption form</td></tr>
+      </table>
+    `);
+
+    expect(doc.category).toBe('Operations');
+    expect(doc.steps[1]).toEqual({
+      order: 2,
+      task: 'Submit the redemption slip',
+      role: 'Branch',
+      tools: 'MFU',
+      template: 'Redemption form',
+    });
+    expect(doc.content.split('\n')[0]).toBe('1. Check the folio balance (Role: Operations) [Tools: RTA portal]');
+  });
+
+  it('treats bold paragraphs as headings when the document has no heading styles', () => {
+    const docs = parse(`
+      <p><strong>How to place SIP order</strong></p>
+      <p>Who: Operations</p>
+      <p>Login MFU</p>
+      <p>Enter amount</p>
+      <p><strong>If SIP is started with FOT, then use</strong></p>
+      <p>Tick on current dated payment</p>
+      <p><strong>How to check status</strong></p>
+      <p>1. Go to Tracker</p>
+      <p>2) Search by CAN number</p>
+    `);
+
+    expect(docs.map(d => d.title)).toEqual(['How to place SIP order', 'How to check status']);
+    expect(docs[0].steps.map(s => s.task)).toEqual([
+      'Login MFU',
+      'Enter amount',
+      'If SIP is started with FOT, then use',
+      'Tick on current dated payment',
+    ]);
+    expect(docs[0].steps.every(s => s.role === 'Operations')).toBe(true);
+    expect(docs[1].steps.map(s => s.task)).toEqual(['Go to Tracker', 'Search by CAN number']);
+  });
+
+  it('titles a document without headings after the file', () => {
+    const docs = parse('<p>Open the CAMS portal</p><p>Download the statement</p>');
+
+    expect(docs).toHaveLength(1);
+    expect(docs[0]).toMatchObject({ id: 'guide', title: 'guide', category: 'Operations' });
+    expect(docs[0].steps).toHaveLength(2);
+  });
+});
+
+describe('parseSOPWord', () => {
+  it('splits a Word document into its SOPs', async () => {
+    const docs = await parseSOPWord(
+      path.join(__dirname, '..', 'data', 'template_sample', 'How to change bank details in CAN.docx')
+    );
+
+    expect(docs.map(d => d.title)).toEqual([
+      'For Change/Addition/Deletion Bank details in CAN',
+      'How to Check status in MFU',
+    ]);
+    expect(docs.every(d => d.category === 'General' && d.sourceFile === 'How to change bank details in CAN.docx')).toBe(true);
+    expect(docs[0].steps).toHaveLength(6);
+    expect(docs[0].steps[2].task).toBe(
+      'Information Required: New Bank Account Number; New Bank Account Type; New Bank IFSC; New Bank MICR'
+    );
+    expect(docs[1].steps.map(s => s.order)).toEqual([1, 2, 3]);
+  });
+});
+
+describe('parseSOPDoc', () => {
+  it('reads headings, lists, bold titles and step tables from a Word 97-2003 file', async () => {
+    const docPath = path.join(process.cwd(), 'mf-sops.doc');
+    writeSOPDoc(docPath, [
+      { text: 'MF Transaction Process', heading: 1 },
+      { text: 'Change of Nominee', heading: 2 },
+      { text: 'Use this when the client asks to change their nominee.' },
+      { text: 'Collect the signed nomination form', list: 'number' },
+      { text: 'Verify the nominee details against', list: 'number' },
+      { text: 'PAN card', list: 'bullet', level: 1 },
+      { text: 'Update the nominee in the RTA portal', list: 'number' },
+      { text: 'Redemption', heading: 2 },
+      { table: [['S N', 'Tasks', 'Who', 'Tools'], ['1', 'Check the folio balance', 'Operations', 'RTA portal']] },
+    ]);
+
+    const docs = await parseSOPDoc(docPath);
+
+    expect(docs.map(d => [d.title, d.category, d.sourceFile])).toEqual([
+      ['Change of Nominee', 'MF Transaction Process', 'mf-sops.doc'],
+      ['Redemption', 'MF Transaction Process', 'mf-sops.doc'],
+    ]);
+    expect(docs[0].steps.map(s => s.task)).toEqual([
+      'Collect the signed nomination form',
+      'Verify the nominee details against: PAN card',
+      'Update the nominee in the RTA portal',
+    ]);
+    expect(docs[1].steps).toEqual([
+      { order: 1, task: 'Check the folio balance', role: 'Operations', tools: 'RTA portal', template: '' },
+    ]);
+  });
+
+  it('reads .docx files saved under a .doc name', async () => {
+    const docPath = path.join(process.cwd(), 'renamed.doc');
+    fs.copyFileSync(
+      path.join(__dirname, '..', 'data', 'template_sample', 'How to change bank details in CAN.docx'),
+      docPath
+    );
+
+    const docs = await parseSOPDoc(docPath);
+
+    expect(docs.map(d => d.title)).toContain('How to Check status in MFU');
+  });
+
+  it('explains why a file cannot be read', async () => {
+    const rtfPath = path.join(process.cwd(), 'letter.doc');
+    fs.writeFileSync(rtfPath, '{\\rtf1\\ansi Hello}');
+    const junkPath = path.join(process.cwd(), 'junk.doc');
+    fs.writeFileSync(junkPath, 'not a word document');
+
+    await expect(parseSOPDoc(rtfPath)).rejects.toThrow('RTF saved with a .doc extension');
+    await expect(parseSOPDoc(junkPath)).rejects.toThrow('Not a Word 97-2003 document');
+  });
+
+  it('reports a damaged piece table instead of looping on it', async () => {
+    const docPath = path.join(process.cwd(), 'damaged.doc');
+    writeSOPDoc(docPath, [{ text: 'Redemption', heading: 1 }, { text: 'Check the folio balance', list: 'number' }]);
+    const container = CFB.read(fs.readFileSync(docPath), { type: 'buffer' });
+    const table = CFB.find(container, '1Table')!;
+    const content = Buffer.from(table.content);
+    // Put a property block with a negative size (-3) in front of the piece table
+    content.set([0x01, 0xfd, 0xff], content.indexOf(Buffer.from([0x02, 16, 0, 0, 0, 0, 0, 0, 0])));
+    table.content = content;
+    fs.writeFileSync(docPath, CFB.write(container, { type: 'buffer' }) as Buffer);
+
+    await expect(parseSOPDoc(docPath)).rejects.toThrow('Word document is damaged (invalid piece table)');
+  });
+});
+
+describe('parseSOPMarkup', () => {
+  it('reads Markdown SOPs with front-matter defaults and keeps links and images in steps', async () => {
+    const mdPath = path.join(process.cwd(), 'redemption.md');
+    fs.writeFileSync(mdPath, [
+      '---',
+      'category: "MF Transaction Process"',
+      'who: Operations',
+      'tools:',
+      '  - RTA portal',
+      '  - MFU',
+      'template: [Redemption form]',
+      '---',
+      '',
+      '# Redemption',
+      '',
+      'Use this for full and partial redemptions.',
+      '',
+      '1. Check the folio balance on the [RTA portal](https://rta.example.com/folio?id=1)',
+      '2. Attach the signed slip ![Redemption slip](<https://cdn.example.com/slip (1).png>)',
+      '3. Submit the slip before the cut-off',
+      '',
+      '# Switch',
+      '',
+      '| S N | Tasks | Who |',
+      '| --- | ----- | --- |',
+      '| 1 | Check the exit load | Branch |',
+    ].join('\n'));
+
+    const docs = await parseSOPMarkup(mdPath);
+
+    expect(docs.map(d => [d.title, d.category, d.sourceFile])).toEqual([
+      ['Redemption', 'MF Transaction Process', 'redemption.md'],
+      ['Switch', 'MF Transaction Process', 'redemption.md'],
+    ]);
+    expect(docs[0].steps.map(s => s.task)).toEqual([
+      'Check the folio balance on the [RTA portal](https://rta.example.com/folio?id=1)',
+      'Attach the signed slip ![Redemption slip](https://cdn.example.com/slip%20%281%29.png)',
+      'Submit the slip before the cut-off',
+    ]);
+    expect(docs[0].steps[0]).toMatchObject({ role: 'Operations', tools: 'RTA portal, MFU', template: 'Redemption form' });
+    expect(docs[1].steps[0]).toMatchObject({ task: 'Check the exit load', role: 'Branch', tools: 'RTA portal, MFU' });
+  });
+
+  it('reads HTML SOPs, titling one without headings from its front-matter', async () => {
+    const htmlPath = path.join(process.cwd(), 'kyc.html');
+    fs.writeFileSync(htmlPath, [
+      '---',
+      'title: KYC verification',
+      '---',
+      '<ol>',
+      '  <li>Open the <a href="https://kra.example.com">KRA portal</a></li>',
+      '  <li>Search by PAN</li>',
+      '</ol>',
+    ].join('\n'));
+
+    const [doc] = await parseSOPMarkup(htmlPath);
+
+    expect(doc.title).toBe('KYC verification');
+    expect(doc.steps.map(s => s.task)).toEqual(['Open the [KRA portal](https://kra.example.com)', 'Search by PAN']);
+  });
+});
+
+describe('parseSOPPDF', () => {
+  const pdfPath = path.join(process.cwd(), 'compliance-sops.pdf');
+  const header = { text: 'Compliance Portal Export - Confidential', x: 72, y: 760, size: 9 };
+
+  beforeAll(() => {
+    writeSOPPdf(pdfPath, [
+      [
+        header,
+        { text: 'MF Transaction Process', x: 72, y: 720, size: 20 },
+        { text: 'Lumpsum purchase', x: 72, y: 690, size: 15 },
+        { text: 'Follow these steps for one-off investments.', x: 72, y: 666 },
+        { text: '1. Verify the client KYC status on the KRA portal', x: 72, y: 646 },
+        { text: '2. Collect the cheque and check the MICR code against', x: 72, y: 626 },
+        { text: 'the bank details on record', x: 86, y: 612 },
+        { text: 'Page 1 of 2', x: 280, y: 40, size: 9 },
+      ],
+      [
+        header,
+        { text: 'Redemption', x: 72, y: 720, size: 15 },
+        { text: 'S N', x: 72, y: 690 },
+        { text: 'Tasks', x: 110, y: 690 },
+        { text: 'Who', x: 330, y: 690 },
+        { text: 'Tools', x: 430, y: 690 },
+        { text: '1', x: 72, y: 670 },
+        { text: 'Check the folio balance', x: 110, y: 670 },
+        { text: 'Operations', x: 330, y: 670 },
+        { text: 'RTA portal', x: 430, y: 670 },
+        { text: '2', x: 72, y: 650 },
+        { text: 'Submit the redemption slip', x: 110, y: 650 },
+        { text: 'Branch', x: 330, y: 650 },
+        { text: 'MFU', x: 430, y: 650 },
+        { text: 'before the cut-off', x: 110, y: 636 },
+        { text: 'Page 2 of 2', x: 280, y: 40, size: 9 },
+      ],
+    ]);
+  });
+
+  it('splits a PDF into SOPs by heading size and keeps the page of each step', async () => {
+    const docs = await parseSOPPDF(pdfPath);
+
+    expect(docs.map(d => [d.title, d.category])).toEqual([
+      ['Lumpsum purchase', 'MF Transaction Process'],
+      ['Redemption', 'MF Transaction Process'],
+    ]);
+    expect(docs[0].steps).toEqual([
+      { order: 1, task: 'Verify the client KYC status on the KRA portal', role: '', tools: '', template: '', page: 1 },
+      {
+        order: 2,
+        task: 'Collect the cheque and check the MICR code against the bank details on record',
+        role: '',
+        tools: '',
+        template: '',
+        page: 1,
+      },
+    ]);
+    expect(docs.every(d => d.sourceFile === 'compliance-sops.pdf')).toBe(true);
+  });
+
+  it('reads step tables and drops running headers and page numbers', async () => {
+    const [, redemption] = await parseSOPPDF(pdfPath);
+
+    expect(redemption.steps).toEqual([
+      { order: 1, task: 'Check the folio balance', role: 'Operations', tools: 'RTA portal', template: '', page: 2 },
+      { order: 2, task: 'Submit the redemption slip before the cut-off', role: 'Branch', tools: 'MFU', template: '', page: 2 },
+    ]);
+    expect(redemption.content).not.toMatch(/Compliance Portal|Page \d/);
+  });
+});
+
+describe('OCR', () => {
+  const scan: ScanLine[] = [
+    { text: 'Change of Nominee', x: 80, y: 110, size: 44 },
+    { text: '1. Collect the signed nomination form from the client', x: 80, y: 220 },
+    { text: '2. Verify the nominee details against the PAN card', x: 80, y: 290 },
+    { text: '3. Update the nominee in the RTA portal', x: 80, y: 360 },
+  ];
+  const expectedTasks = [
+    'Collect the signed nomination form from the client',
+    'Verify the nominee details against the PAN card',
+    'Update the nominee in the RTA portal',
+  ];
+
+  it('reads SOPs from a scanned image with the confidence of each step', async () => {
+    const imagePath = path.join(process.cwd(), 'nominee-change.png');
+    fs.writeFileSync(imagePath, renderSOPScan(scan));
+
+    const [doc] = await parseSOPImage(imagePath);
+
+    expect(doc.title).toBe('Change of Nominee');
+    expect(doc.steps.map(s => s.task)).toEqual(expectedTasks);
+    expect(doc.steps.every(s => s.page === undefined && s.ocrConfidence! > 0 && s.ocrConfidence! <= 100)).toBe(true);
+  });
+
+  it('OCRs PDF pages that have no text layer', async () => {
+    const pdfPath = path.join(process.cwd(), 'nominee-change-scan.pdf');
+    writeScannedPdf(pdfPath, [{ jpeg: renderSOPScan(scan, 'jpeg'), width: 1200, height: 900 }]);
+
+    const [doc] = await parseSOPPDF(pdfPath);
+
+    expect(doc.title).toBe('Change of Nominee');
+    expect(doc.steps.map(s => s.task)).toEqual(expectedTasks);
+    expect(doc.steps.every(s => s.page === 1 && s.ocrConfidence !== undefined)).toBe(true);
+  });
+});
@@ -0,0 +1,24 @@
+import { describe, it, expect } from 'vitest';
+import { isProcedureQuestion, strongestSOPMatch } from '../lib/procedure';
+import type { RetrievedDocument } from '../lib/retrieval';
+
+function hit(sopId: string, distance: number | null): RetrievedDocument {
+  return { id: `${sopId}#${distance}`, content: '', metadata: { sopId }, distance, score: 0 };
+}
+
+describe('structured procedures', () => {
+  it('recognizes questions about how to carry out a task', () => {
+    expect(isProcedureQuestion('How do I process a SIP order with FOT?')).toBe(true);
+    expect(isProcedureQuestion('What are the steps for a lumpsum redemption?')).toBe(true);
+    expect(isProcedureQuestion('Procedure for updating bank details')).toBe(true);
+    expect(isProcedureQuestion('Who approves a redemption?')).toBe(false);
+    expect(isProcedureQuestion('What is the cut-off time?')).toBe(false);
+  });
+
+  it('picks the SOP whose best chunk clearly beats every other SOP', () => {
+    expect(strongestSOPMatch([hit('sip', 0.4), hit('sip', 0.9), hit('lumpsum', 1.0)])).toBe('sip');
+    expect(strongestSOPMatch([hit('sip', 0.95), hit('lumpsum', 1.0)])).toBeNull();
+    expect(strongestSOPMatch([hit('sip', null)])).toBeNull();
+    expect(strongestSOPMatch([hit('sip', 0.95), hit('lumpsum', 1.0)], 'lumpsum')).toBe('lumpsum');
+  });
+});
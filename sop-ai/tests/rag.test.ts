@@ -0,0 +1,121 @@
+import * as path from 'path';
+import { describe, it, expect, beforeAll } from 'vitest';
+import { rebuildIndex, querySOPs, querySOPsStream, type SOPStreamEvent } from '../lib/chroma';
+import { loadSOPEntries } from '../lib/sopStore';
+import { db, indexedSOPs } from '../lib/db';
+import { NO_INFO_RESPONSE } from '../lib/promptConstants';
+import { cacheAnswer, findCachedAnswer } from '../lib/answerCache';
+import { SOP_WORKBOOK_ROWS, useFakes, writeSOPWorkbook } from './helpers';
+
+const LUMPSUM = 'mf-transactions-process-lumpsum';
+const SIP = 'mf-transactions-process-sip-registration';
+
+describe('indexing and querying', () => {
+  const { chroma, llm } = useFakes([
+    { match: /dress code/i, reply: NO_INFO_RESPONSE },
+  ]);
+  const workbookPath = path.join(process.cwd(), 'sops.xlsx');
+
+  beforeAll(() => {
+    writeSOPWorkbook(workbookPath);
+  });
+
+  it('reports an empty index before the first rebuild', async () => {
+    const result = await querySOPs('How do I submit a lumpsum order?');
+
+    expect(result.answer).toMatch(/index is empty/);
+    expect(result.confidence).toBe(0);
+  });
+
+  it('indexes SOP chunks, the structured store and the SOP registry', async () => {
+    await rebuildIndex(workbookPath);
+
+    const collection = chroma.collections.get('sop-documents')!;
+    const { ids, metadatas } = await collection.get();
+    expect(ids.length).toBeGreaterThan(0);
+    expect(new Set(metadatas.map(m => m?.sopId))).toEqual(new Set([LUMPSUM, SIP]));
+
+    expect(loadSOPEntries().map(doc => doc.id)).toEqual([LUMPSUM, SIP]);
+
+    const registry = await db.select().from(indexedSOPs);
+    expect(registry).toEqual([expect.objectContaining({ sourceFile: 'sops.xlsx', entryCount: 2 })]);
+  });
+
+  it('only embeds changed chunks on a rebuild', async () => {
+    const embeddedBefore = llm.embedded();
+    await rebuildIndex(workbookPath);
+
+    expect(llm.embedded()).toBe(embeddedBefore);
+  });
+
+  it('answers from the retrieved steps with citations', async () => {
+    const result = await querySOPs('How do I check the MICR code on a cheque?');
+
+    expect(result.sources[0].sopId).toBe(LUMPSUM);
+    expect(result.citations.length).toBeGreaterThan(0);
+    expect(result.citations.every(c => c.valid && c.sopId)).toBe(true);
+    expect(result.confidence).toBeGreaterThan(0);
+    expect(result.confidence).toBeLessThanOrEqual(1);
+
+    const prompt = llm.calls[llm.calls.length - 1].map(m => m.content).join('\n');
+    expect(prompt).toContain('check the MICR code');
+  });
+
+  it('restricts retrieval to one SOP when scoped', async () => {
+    const result = await querySOPs('What is the first step?', SIP);
+
+    expect(result.sources.map(s => s.sopId)).toEqual([SIP]);
+  });
+
+  it('returns the steps of a strongly matched SOP for "how do I" questions', async () => {
+    const result = await querySOPs('How do I register a SIP mandate?');
+
+    expect(result.procedure).toMatchObject({ sopId: SIP, title: 'MF Transactions Process - SIP Registration' });
+    expect(result.procedure!.steps).toEqual([
+      expect.objectContaining({ order: 1, role: 'Operations', tools: 'Mandate portal', template: 'Mandate form' }),
+      expect.objectContaining({ order: 2, role: 'Relationship Manager', tools: 'CRM' }),
+    ]);
+
+    expect((await querySOPs('Who collects the cheque?')).procedure).toBeNull();
+  });
+
+  it('scores a declined answer below an answered one', async () => {
+    const answered = await querySOPs('Who submits the purchase order to the AMC?');
+    const declined = await querySOPs('What is the dress code for the branch?');
+
+    expect(declined.answer).toBe(NO_INFO_RESPONSE);
+    expect(declined.confidence).toBeLessThan(answered.confidence);
+  });
+
+  it('streams sources, tokens and a final answer', async () => {
+    const events: SOPStreamEvent[] = [];
+    for await (const event of querySOPsStream('How do I register a SIP mandate?')) {
+      events.push(event);
+    }
+
+    expect(events[0].type).toBe('sources');
+    const done = events[events.length - 1];
+    expect(done.type).toBe('done');
+
+    const streamed = events.flatMap(e => (e.type === 'token' ? [e.token] : [])).join('');
+    expect(done.type === 'done' && done.answer).toBe(streamed);
+  });
+
+  it('invalidates cached answers for SOPs that change on a rebuild', async () => {
+    const cached = { confidence: 0.9, citations: [], unsupportedClaims: [], procedure: null };
+    await cacheAnswer('How do I register a SIP?', undefined, {
+      ...cached, answer: 'Register the mandate.', sources: [{ sopId: SIP, title: 'SIP', steps: [1] }],
+    });
+    await cacheAnswer('How do I submit a lumpsum order?', undefined, {
+      ...cached, answer: 'Submit before cut-off.', sources: [{ sopId: LUMPSUM, title: 'Lumpsum', steps: [3] }],
+    });
+
+    const rows = SOP_WORKBOOK_ROWS.map(row => [...row]);
+    rows[rows.length - 1][1] = 'Confirm the first instalment date with the client by email';
+    writeSOPWorkbook(workbookPath, rows);
+    await rebuildIndex(workbookPath);
+
+    expect(await findCachedAnswer('How do I register a SIP?')).toBeNull();
+    expect(await findCachedAnswer('How do I submit a lumpsum order?')).not.toBeNull();
+  });
+});
@@ -0,0 +1,34 @@
+/**
+ * Runs before each test file: every file gets its own scratch directory (working directory
+ * for sop_data/, uploads/ and data/) and SQLite database, and the mock LLM provider.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterAll } from 'vitest';
+
+const repoDir = process.cwd();
+const workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'sop-ai-test-'));
+
+// Same layout as the repo; without template_sample the indexer falls back to scanning data/
+fs.mkdirSync(path.join(workDir, 'data', 'template_sample'), { recursive: true });
+fs.copyFileSync(
+  path.join(repoDir, 'data', 'Indian_Financial_Acronyms.csv'),
+  path.join(workDir, 'data', 'Indian_Financial_Acronyms.csv')
+);
+
+// Must be set before lib/db is first imported
+process.env.DATABASE_PATH = path.join(workDir, 'test.db');
+process.env.LLM_PROVIDER = 'mock';
+process.env.JWT_SECRET = 'test-secret';
+delete process.env.CONFIDENCE_SELF_RATING;
+process.chdir(workDir);
+
+const { initDatabase } = await import('../lib/init-db');
+await initDatabase();
+
+afterAll(() => {
+  process.chdir(repoDir);
+  fs.rmSync(workDir, { recursive: true, force: true });
+});
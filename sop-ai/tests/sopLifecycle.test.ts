@@ -0,0 +1,103 @@
+import * as path from 'path';
+import { describe, it, expect, beforeAll } from 'vitest';
+import { db, predefinedQuestions } from '../lib/db';
+import { rebuildIndex } from '../lib/chroma';
+import { setSOPStatus, enableSOP, listExcludedSOPs, deleteUploadedDocument } from '../lib/sopLifecycle';
+import { registerDocument } from '../lib/documents';
+import { loadSOPEntries } from '../lib/sopStore';
+import { storePredefinedQuestions } from '../lib/question-generator';
+import { listSOPVersions } from '../lib/sopVersions';
+import type { User } from '../lib/auth';
+import { createUser, useFakes, writeSOPWorkbook, SOP_WORKBOOK_ROWS } from './helpers';
+
+const LUMPSUM = 'mf-transactions-process-lumpsum';
+const SIP = 'mf-transactions-process-sip-registration';
+
+const workbookPath = () => path.join(process.cwd(), 'data', 'S4_-_SOPs_-_MF_Transactions.xlsx');
+const indexedIds = () => loadSOPEntries().map(doc => doc.id);
+
+describe('SOP lifecycle', () => {
+  useFakes();
+  let admin: User;
+
+  beforeAll(async () => {
+    admin = await createUser('admin@example.com', 'admin');
+    writeSOPWorkbook(workbookPath());
+    await rebuildIndex();
+  });
+
+  it('drops only the predefined questions the removed SOP answers', async () => {
+    await storePredefinedQuestions('S4_-_SOPs_-_MF_Transactions.xlsx', [
+      { question: 'How do I verify KYC for a lumpsum purchase?', sopId: LUMPSUM },
+      // Names the other SOP's title, but is answered by the SIP SOP
+      { question: 'Is MF Transactions Process - Lumpsum needed before SIP registration?', sopId: SIP },
+      { question: 'What are the MF transaction cut-off times?', sopId: null },
+    ]);
+
+    expect(await setSOPStatus(LUMPSUM, 'disabled', admin.id)).toBe(true);
+
+    const questions = await db.select().from(predefinedQuestions);
+    expect(questions.map(q => q.question)).toEqual([
+      'Is MF Transactions Process - Lumpsum needed before SIP registration?',
+      'What are the MF transaction cut-off times?',
+    ]);
+  });
+
+  it('keeps a deleted SOP out only until its content changes, and restores it on request', async () => {
+    expect(await setSOPStatus(SIP, 'deleted', admin.id)).toBe(true);
+    await rebuildIndex();
+    expect(indexedIds()).not.toContain(SIP);
+    expect((await listExcludedSOPs()).map(row => [row.sopId, row.status])).toEqual([
+      [LUMPSUM, 'disabled'],
+      [SIP, 'deleted'],
+    ]);
+
+    // A new SOP under the same title is not the one that was deleted
+    writeSOPWorkbook(workbookPath(), [
+      ...SOP_WORKBOOK_ROWS.slice(0, 6),
+      ['A', 'MF Transactions Process - SIP Registration'],
+      [1, 'Register the SIP on the exchange platform', 'Operations', 'BSE StAR MF', ''],
+    ]);
+    await rebuildIndex();
+    expect(indexedIds()).toContain(SIP);
+    expect((await listExcludedSOPs()).map(row => row.sopId)).toEqual([LUMPSUM]);
+
+    expect(await setSOPStatus(SIP, 'deleted', admin.id)).toBe(true);
+    expect(await enableSOP(SIP)).toBe(true);
+    await rebuildIndex();
+    expect(indexedIds()).toContain(SIP);
+  });
+
+  it('removes only the uploaded document\'s SOPs and statuses when it shares a built-in file\'s name', async () => {
+    const storedPath = path.join(process.cwd(), 'uploaded-s4.xlsx');
+    writeSOPWorkbook(storedPath, [
+      SOP_WORKBOOK_ROWS[0],
+      ['A', 'Cheque Bounce Handling'],
+      [1, 'Inform the client of the bounced cheque', 'Branch', 'CRM', ''],
+    ]);
+    const documentId = await registerDocument({
+      fileName: 'S4_-_SOPs_-_MF_Transactions.xlsx',
+      storedPath,
+      fileSize: 1,
+      uploadedBy: admin.id,
+    });
+    await rebuildIndex();
+    expect(await setSOPStatus('cheque-bounce-handling', 'disabled', admin.id)).toBe(true);
+
+    expect(await deleteUploadedDocument(documentId)).toBe(true);
+    expect((await listExcludedSOPs()).map(row => row.sopId)).toEqual([LUMPSUM]);
+
+    await rebuildIndex();
+    expect(indexedIds()).toContain(SIP);
+    expect(indexedIds()).not.toContain(LUMPSUM);
+  });
+
+  it('resumes a re-enabled SOP\'s version instead of recording a new one', async () => {
+    expect((await listSOPVersions(LUMPSUM)).map(v => v.effectiveTo === null)).toEqual([false]);
+
+    expect(await enableSOP(LUMPSUM)).toBe(true);
+    await rebuildIndex();
+    expect(indexedIds()).toContain(LUMPSUM);
+    expect((await listSOPVersions(LUMPSUM)).map(v => [v.version, v.effectiveTo])).toEqual([[1, null]]);
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import { GET as listRuns, POST as startRun } from '../app/api/sops/runs/route';
+import { GET as getRun, PATCH as patchRun } from '../app/api/sops/runs/[id]/route';
+import { saveSOPEntries } from '../lib/sopStore';
+import type { User } from '../lib/auth';
+import { apiRequest, createUser } from './helpers';
+
+const LUMPSUM = 'mf-transactions-process-lumpsum';
+
+const params = (id: number) => ({ params: Promise.resolve({ id: String(id) }) });
+
+describe('SOP runs API', () => {
+  let admin: User;
+  let user: User;
+
+  beforeAll(async () => {
+    admin = await createUser('runs-admin@example.com', 'admin');
+    user = await createUser('runs-user@example.com');
+    saveSOPEntries([{
+      id: LUMPSUM,
+      title: 'MF Transactions Process - Lumpsum',
+      category: 'MF Transaction Process',
+      sourceFile: 'sops.xlsx',
+      content: '',
+      steps: [
+        { order: 2, task: 'Collect the cheque', role: 'Branch', tools: 'Cheque scanner', template: '' },
+        { order: 1, task: 'Verify the client KYC status', role: 'Operations', tools: 'KRA Portal', template: '' },
+      ],
+    }]);
+  });
+
+  const start = async (body: object, as: User = user) =>
+    startRun(apiRequest('/api/sops/runs', { method: 'POST', body, user: as }));
+  const patch = async (id: number, body: object, as: User = user) =>
+    patchRun(apiRequest(`/api/sops/runs/${id}`, { method: 'PATCH', body, user: as }), params(id));
+
+  it('starts a run with the SOP steps in order and resumes it for the same transaction', async () => {
+    const response = await start({ sopId: LUMPSUM, transactionRef: 'ORD-1001' });
+    const { run, resumed } = await response.json();
+
+    expect(response.status).toBe(201);
+    expect(resumed).toBe(false);
+    expect(run).toMatchObject({ status: 'in_progress', transactionRef: 'ORD-1001', completedSteps: 0, totalSteps: 2 });
+    expect(run.steps.map((s: { order: number }) => s.order)).toEqual([1, 2]);
+
+    const again = await (await start({ sopId: LUMPSUM, transactionRef: 'ORD-1001' })).json();
+    expect(again).toMatchObject({ resumed: true, run: { id: run.id } });
+
+    const other = await (await start({ sopId: LUMPSUM, transactionRef: 'ORD-1002' })).json();
+    expect(other.run.id).not.toBe(run.id);
+  });
+
+  it('rejects unknown SOPs', async () => {
+    expect((await start({ sopId: 'missing-sop' })).status).toBe(404);
+  });
+
+  it('records step progress, notes and reference numbers with an audit trail', async () => {
+    const { run } = await (await start({ sopId: LUMPSUM, transactionRef: 'ORD-2001' })).json();
+
+    await patch(run.id, { step: { order: 1, completed: true, referenceNumber: ' KYC-55 ' } });
+    const early = await patch(run.id, { status: 'completed' });
+    expect(early.status).toBe(409);
+
+    const { run: updated } = await (await patch(run.id, { step: { order: 2, completed: true, notes: 'Cheque received' } })).json();
+    expect(updated.steps[0]).toMatchObject({ completed: true, referenceNumber: 'KYC-55', updatedBy: 'runs-user' });
+    expect(updated.steps[1]).toMatchObject({ completed: true, notes: 'Cheque received' });
+
+    const { run: completed } = await (await patch(run.id, { status: 'completed' })).json();
+    expect(completed.status).toBe('completed');
+    expect((await patch(run.id, { step: { order: 1, completed: false } })).status).toBe(409);
+
+    expect(completed.events.map((e: { action: string }) => e.action)).toEqual([
+      'started', 'step_checked', 'step_updated', 'step_checked', 'step_updated', 'completed',
+    ]);
+  });
+
+  it('lets admins audit runs but only the owner change them', async () => {
+    const { run } = await (await start({ sopId: LUMPSUM, transactionRef: 'ORD-3001' })).json();
+    const stranger = await createUser('runs-other@example.com');
+
+    expect((await getRun(apiRequest(`/api/sops/runs/${run.id}`, { user: stranger }), params(run.id))).status).toBe(404);
+    expect((await getRun(apiRequest(`/api/sops/runs/${run.id}`, { user: admin }), params(run.id))).status).toBe(200);
+    expect((await patch(run.id, { status: 'abandoned' }, admin)).status).toBe(403);
+
+    const { runs } = await (await listRuns(apiRequest('/api/sops/runs?transactionRef=ORD-3001', { user: admin }))).json();
+    expect(runs).toEqual([expect.objectContaining({ id: run.id, userName: 'runs-user' })]);
+
+    const { runs: own } = await (await listRuns(apiRequest('/api/sops/runs', { user: stranger }))).json();
+    expect(own).toEqual([]);
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { createChromaVectorStore } from '../lib/vectorStore/chroma';
+import { createSQLiteVectorStore } from '../lib/vectorStore/sqlite';
+import type { VectorRecord, VectorStore } from '../lib/vectorStore';
+import { createMemoryChromaClient } from './fakes/memoryChroma';
+
+const RECORDS: VectorRecord[] = [
+  { id: 'a#1-2', embedding: [1, 0, 0], document: 'Verify KYC', metadata: { sopId: 'a', stepStart: 1 } },
+  { id: 'a#3-4', embedding: [0.9, 0.1, 0], document: 'Submit order', metadata: { sopId: 'a', stepStart: 3 } },
+  { id: 'b#1-2', embedding: [0, 1, 0], document: 'Register SIP', metadata: { sopId: 'b', stepStart: 1 } },
+];
+
+describe.each([
+  ['chroma', () => createChromaVectorStore(createMemoryChromaClient().client)],
+  ['sqlite', () => createSQLiteVectorStore()],
+])('%s vector store', (_name, createStore) => {
+  let store: VectorStore;
+
+  beforeEach(async () => {
+    store = createStore();
+    await store.dropCollection('test');
+    await store.upsert('test', RECORDS);
+  });
+
+  it('treats a missing collection as empty', async () => {
+    expect(await store.count('missing')).toBe(0);
+    expect(await store.query('missing', [1, 0, 0], { nResults: 3 })).toEqual([]);
+    await expect(store.delete('missing', { ids: ['x'] })).resolves.toBeUndefined();
+  });
+
+  it('returns the nearest records by squared L2 distance', async () => {
+    const hits = await store.query('test', [1, 0, 0], { nResults: 2 });
+
+    expect(hits.map(h => h.id)).toEqual(['a#1-2', 'a#3-4']);
+    expect(hits[0]).toMatchObject({ document: 'Verify KYC', metadata: { sopId: 'a', stepStart: 1 } });
+    expect(hits[0].distance).toBeCloseTo(0);
+    expect(hits[1].distance).toBeCloseTo(0.02);
+  });
+
+  it('filters queries by metadata', async () => {
+    const hits = await store.query('test', [1, 0, 0], { nResults: 3, where: { sopId: 'b' } });
+
+    expect(hits.map(h => h.id)).toEqual(['b#1-2']);
+  });
+
+  it('replaces records with the same id on upsert', async () => {
+    await store.upsert('test', [{ ...RECORDS[2], document: 'Register SIP mandate' }]);
+
+    expect(await store.count('test')).toBe(3);
+    expect((await store.get('test', { where: { sopId: 'b' } }))[0].document).toBe('Register SIP mandate');
+  });
+
+  it('deletes by id and by metadata filter', async () => {
+    await store.delete('test', { ids: ['a#3-4'] });
+    expect(await store.count('test')).toBe(2);
+
+    await store.delete('test', { where: { sopId: { $in: ['a', 'c'] } } });
+    expect((await store.get('test')).map(r => r.id)).toEqual(['b#1-2']);
+  });
+
+  it('drops a collection', async () => {
+    await store.dropCollection('test');
+
+    expect(await store.count('test')).toBe(0);
+  });
+});
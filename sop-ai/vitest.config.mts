@@ -0,0 +1,18 @@
+import { fileURLToPath } from 'url';
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  resolve: {
+    alias: { '@/': fileURLToPath(new URL('./', import.meta.url)) },
+  },
+  test: {
+    environment: 'node',
+    include: ['tests/**/*.test.ts'],
+    setupFiles: ['tests/setup.ts'],
+    // Each file runs in its own process with its own working directory and database
+    pool: 'forks',
+    testTimeout: 30000,
+    // The app logs heavily; only show output from failing tests
+    silent: 'passed-only',
+  },
+});